@@ -1,22 +1,113 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { FileUploader } from './components/FileUploader';
 import { VideoPlayer } from './components/VideoPlayer';
+import { AudioPlayer } from './components/AudioPlayer';
 import { Loader } from './components/Loader';
 import { CustomSoundPrompt } from './components/CustomSoundPrompt';
-import { generateDialogueScript, generateAudioForDialogueLine } from './services/geminiService';
-import { fileToBase64 } from './utils/fileUtils';
-import { decode, stitchAudioClips } from './utils/audioUtils';
+import { DialogueTimeline } from './components/DialogueTimeline';
+import { VoiceSelector } from './components/VoiceSelector';
+import { SoundEffectSelector } from './components/SoundEffectSelector';
+import { VideoExportPanel } from './components/VideoExportPanel';
+import { AudioExportPanel } from './components/AudioExportPanel';
+import { MixerPanel } from './components/MixerPanel';
+import { SubtitlePanel } from './components/SubtitlePanel';
+import { ParseReport } from './components/ParseReport';
+import { FailedLinesReport } from './components/FailedLinesReport';
+import { RecentProjects } from './components/RecentProjects';
+import { AudioCacheStatus } from './components/AudioCacheStatus';
+import { ScriptImportPanel } from './components/ScriptImportPanel';
+import { DialogueModePanel } from './components/DialogueModePanel';
+import { BatchPanel } from './components/BatchPanel';
+import { MusicPanel } from './components/MusicPanel';
+import { TakesPanel } from './components/TakesPanel';
+import { getSpeechProvider } from './services/speechProvider';
+import { createRequestScheduler } from './services/requestScheduler';
+import { createAudioCache, type AudioCacheStats } from './services/audioCache';
+import { classifyProviderError, describeProviderError, RateLimitError } from './services/errors';
+import {
+  createProjectId,
+  deleteProject,
+  exportProjectArchive,
+  importProjectArchive,
+  listRecentProjects,
+  loadProject,
+  PROJECT_ARCHIVE_EXTENSION,
+  saveProject,
+  saveProjectVideo,
+  type ProjectSummary,
+  type StoredProject,
+} from './services/projectStore';
+import {
+  createLineSynthesizer,
+  getBusNames,
+  isMusicActive,
+  mixDialogue,
+  runDialoguePipeline,
+  voiceAndMix,
+  type DialogueMix,
+  type PipelineCheckpoint,
+  type PipelineProgress,
+} from './services/dialoguePipeline';
+import { buildBatchArchive, createBatchQueue, DEFAULT_BATCH_SETTINGS, type BatchJob, type BatchSettings } from './services/batchQueue';
+import { DEFAULT_TARGET_LANGUAGE } from './services/dubbing';
+import { DEFAULT_MUSIC_SETTINGS } from './services/musicScore';
+import { analyzeMusic } from './services/videoAnalysis';
+import { AUDITION_LINE, getSpeakerProfiles, resolveCasting, type SpeakerProfile } from './services/voices';
+import { downloadFile, getBaseName } from './utils/fileUtils';
+import {
+  audioBufferToWavBlob,
+  CLIP_SAMPLE_RATE,
+  DEFAULT_MIX_SETTINGS,
+  playPcmAudio,
+  renderMix,
+  resolveMixSettings,
+  type MixTrack,
+} from './utils/audioUtils';
+import { isClipStale, toScriptLines } from './utils/dialogueUtils';
+import { createPlaybackController, type PlaybackController } from './utils/playbackController';
+import type { RejectedLine } from './utils/scriptParser';
+import { applyInferredTraits, importScript } from './utils/scriptImport';
+import { addTake, assembleTake, createTakeId, describeTakeNumbers, updateTake, type TakeDraft, type TakePick } from './utils/scriptTakes';
+import { relabelSpeaker } from './utils/speakerLabels';
+import { buildSubtitleCues, toSrt, toWebVtt, type SubtitleOptions } from './utils/subtitleUtils';
+import { DEFAULT_AUDIO_EXPORT_OPTIONS, exportAudio, isOpusSupported, type AudioExportOptions } from './utils/audioExport';
+import { DEFAULT_VIDEO_EXPORT_OPTIONS, exportVideoWithAudio, type VideoExportOptions } from './utils/videoExport';
+import type {
+  DialogueMode,
+  LineFit,
+  LoadingStep,
+  MixSettings,
+  MusicPlan,
+  MusicSettings,
+  Project,
+  ScriptLine,
+  ScriptTake,
+  SoundCategory,
+  SoundEvent,
+  SpeakerAppearance,
+  SynthesizedClip,
+  VoiceCasting,
+} from './types';
 
-type LoadingStep = 'Analyzing Lip Movements' | 'Generating Dialogue Audio' | 'Synchronizing Dialogue' | '';
+const speechProvider = getSpeechProvider();
+const ttsScheduler = createRequestScheduler();
+const audioCache = createAudioCache();
 
-export interface DialogueLine {
-  time: number;
-  speaker: string;
-  age: string;
-  gender: string;
-  performanceCue: string;
-  text: string;
-}
+const synthesizeLine = createLineSynthesizer(speechProvider, ttsScheduler, audioCache);
+
+const batchQueue = createBatchQueue({ provider: speechProvider, synthesize: synthesizeLine, settings: DEFAULT_BATCH_SETTINGS });
+
+// How long edits must settle before the project is written to IndexedDB.
+const AUTOSAVE_DELAY_MS = 1000;
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
+// What a resumed run keeps, by the last stage the earlier run finished.
+const RESUME_LABELS: Record<PipelineCheckpoint['stage'], string> = {
+  analysis: 'script',
+  translation: 'translated script',
+  synthesis: 'script and voiced lines',
+};
 
 const PlayIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -36,17 +127,139 @@ export default function App() {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoPreviewUrl, setVideoPreviewUrl] = useState<string | null>(null);
   const [generatedAudioUrl, setGeneratedAudioUrl] = useState<string | null>(null);
+  const [mixedBuffer, setMixedBuffer] = useState<AudioBuffer | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [loadingStep, setLoadingStep] = useState<LoadingStep>('');
+  const [stepProgress, setStepProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [resumeCheckpoint, setResumeCheckpoint] = useState<PipelineCheckpoint | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [dialogueScript, setDialogueScript] = useState<string>('');
+  const [dialogueLines, setDialogueLines] = useState<ScriptLine[]>([]);
+  const [rejectedLines, setRejectedLines] = useState<RejectedLine[]>([]);
+  const [audioClips, setAudioClips] = useState<Record<string, SynthesizedClip>>({});
+  const [failedLines, setFailedLines] = useState<Record<string, string>>({});
+  const [cacheStats, setCacheStats] = useState<AudioCacheStats>(() => audioCache.getStats());
+  const [lastSynthesis, setLastSynthesis] = useState<{ cached: number; synthesized: number } | null>(null);
+  const [hasPendingEdits, setHasPendingEdits] = useState<boolean>(false);
+  const [lineFits, setLineFits] = useState<Record<string, LineFit>>({});
+  const [maxSpeedup, setMaxSpeedup] = useState<number>(1.25);
+  const [videoDuration, setVideoDuration] = useState<number>(0);
+  const [voiceOverrides, setVoiceOverrides] = useState<VoiceCasting>({});
+  const [speakerAppearances, setSpeakerAppearances] = useState<SpeakerAppearance[]>([]);
+  const [soundEffectsEnabled, setSoundEffectsEnabled] = useState<boolean>(true);
+  const [soundEvents, setSoundEvents] = useState<SoundEvent[]>([]);
+  const [disabledCategories, setDisabledCategories] = useState<SoundCategory[]>([]);
+  const [mixSettings, setMixSettings] = useState<MixSettings>(DEFAULT_MIX_SETTINGS);
+  const [musicPlan, setMusicPlan] = useState<MusicPlan | null>(null);
+  const [musicSettings, setMusicSettings] = useState<MusicSettings>(DEFAULT_MUSIC_SETTINGS);
+  const [videoExportOptions, setVideoExportOptions] = useState<VideoExportOptions>(DEFAULT_VIDEO_EXPORT_OPTIONS);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [audioExportOptions, setAudioExportOptions] = useState<AudioExportOptions>(DEFAULT_AUDIO_EXPORT_OPTIONS);
+  const [audioExportProgress, setAudioExportProgress] = useState<number | null>(null);
+  const [showAudioExport, setShowAudioExport] = useState<boolean>(false);
+  const [subtitleOptions, setSubtitleOptions] = useState<SubtitleOptions>({ includeSpeaker: true, includeCue: false });
+  const [showCaptions, setShowCaptions] = useState<boolean>(false);
+  const [captionsUrl, setCaptionsUrl] = useState<string | null>(null);
   const [dialogueGuidance, setDialogueGuidance] = useState<string>('');
+  const [inferImportTraits, setInferImportTraits] = useState<boolean>(true);
+  const [dialogueMode, setDialogueMode] = useState<DialogueMode>('lipread');
+  const [targetLanguage, setTargetLanguage] = useState<string>(DEFAULT_TARGET_LANGUAGE);
   const [retryAfter, setRetryAfter] = useState<number>(0);
   const [retryAttempts, setRetryAttempts] = useState<number>(0);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [playbackRate, setPlaybackRate] = useState<number>(1);
+  const [projectInfo, setProjectInfo] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [restoreRequested, setRestoreRequested] = useState<boolean>(false);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>(() => batchQueue.getJobs());
+  const [batchPaused, setBatchPaused] = useState<boolean>(() => batchQueue.isPaused());
+  const [batchSettings, setBatchSettings] = useState<BatchSettings>(DEFAULT_BATCH_SETTINGS);
+  const [takes, setTakes] = useState<ScriptTake[]>([]);
+  const [activeTakeId, setActiveTakeId] = useState<string | null>(null);
+  const [previewTakeId, setPreviewTakeId] = useState<string | null>(null);
+  const [previewBuffer, setPreviewBuffer] = useState<AudioBuffer | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const playbackRef = useRef<PlaybackController | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const audioExportAbortRef = useRef<AbortController | null>(null);
+  // The last mix's inputs, so exports can re-render it at another sample rate.
+  const mixInputRef = useRef<{ tracks: MixTrack[]; settings: MixSettings; duration: number } | null>(null);
+  // Mixes of other takes rendered for A/B listening, by take id; valid until the mix settings change.
+  const takeMixesRef = useRef(new Map<string, AudioBuffer>());
+
+  const speakerProfiles = useMemo(() => getSpeakerProfiles(dialogueLines), [dialogueLines]);
+  const voiceCasting = useMemo(() => resolveCasting(dialogueLines, voiceOverrides), [dialogueLines, voiceOverrides]);
+
+  const staleLineIds = useMemo(
+    () => new Set(
+      dialogueLines
+        .filter(line => isClipStale(line, audioClips[line.id], voiceCasting[line.speaker]))
+        .map(line => line.id)
+    ),
+    [dialogueLines, audioClips, voiceCasting]
+  );
+
+  const effectiveMixSettings = useMemo(() => {
+    const activeEvents = (soundEffectsEnabled ? soundEvents : []).filter(event => !disabledCategories.includes(event.category));
+    return resolveMixSettings(getBusNames(dialogueLines, activeEvents, isMusicActive(musicPlan, musicSettings)), mixSettings);
+  }, [dialogueLines, soundEvents, soundEffectsEnabled, disabledCategories, mixSettings, musicPlan, musicSettings]);
+
+  const subtitleCues = useMemo(() => buildSubtitleCues(dialogueLines, audioClips, lineFits), [dialogueLines, audioClips, lineFits]);
+
+  useEffect(() => {
+    if (!showCaptions || subtitleCues.length === 0) {
+      setCaptionsUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([toWebVtt(subtitleCues, subtitleOptions)], { type: 'text/vtt' }));
+    setCaptionsUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [showCaptions, subtitleCues, subtitleOptions]);
+
+  useEffect(() => {
+    if (videoFile) return;
+    listRecentProjects()
+      .then(setRecentProjects)
+      .catch(err => console.error('Could not list saved projects.', err));
+  }, [videoFile]);
+
+  useEffect(() => {
+    if (!projectInfo || !videoFile || isLoading) return;
+    const timer = setTimeout(() => {
+      saveProject(buildProject())
+        .then(() => setLastSavedAt(Date.now()))
+        .catch(err => console.error('Autosave failed.', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectInfo, videoFile, isLoading, dialogueGuidance, dialogueLines, voiceOverrides, audioClips, maxSpeedup, mixSettings, soundEffectsEnabled, soundEvents, disabledCategories, dialogueMode, targetLanguage, speakerAppearances, musicPlan, musicSettings, takes, activeTakeId]);
+
+  useEffect(() => {
+    // The editor works on the active take, so edits and newly voiced lines are kept with it.
+    if (!activeTakeId) return;
+    setTakes(previous => updateTake(previous, activeTakeId, dialogueLines, audioClips));
+  }, [activeTakeId, dialogueLines, audioClips]);
+
+  useEffect(() => {
+    takeMixesRef.current.clear();
+    setPreviewTakeId(null);
+    setPreviewBuffer(null);
+  }, [maxSpeedup, mixSettings, soundEffectsEnabled, soundEvents, disabledCategories, musicPlan, musicSettings]);
+
+  useEffect(() => {
+    // A freshly opened project has its clips but no mix yet; rebuild it once the video is mounted.
+    if (!restoreRequested || !videoRef.current) return;
+    setRestoreRequested(false);
+    handleApplyEdits();
+  }, [restoreRequested]);
+
+  useEffect(() => batchQueue.subscribe(jobs => {
+    setBatchJobs(jobs);
+    setBatchPaused(batchQueue.isPaused());
+    setCacheStats(audioCache.getStats());
+  }), []);
 
   useEffect(() => {
     if (retryAfter > 0) {
@@ -56,60 +269,81 @@ export default function App() {
   }, [retryAfter]);
   
   useEffect(() => {
-    const videoElement = videoRef.current;
-    const audio = audioRef.current;
-    
-    const handlePlaybackEnd = () => {
-      setIsPlaying(false);
-      if (videoElement) videoElement.currentTime = 0;
-      if (audio) audio.currentTime = 0;
+    // The video element only exists in the editor, so attach the controller once it has mounted.
+    const video = videoRef.current;
+    if (!video) return;
+    const controller = createPlaybackController(video);
+    playbackRef.current = controller;
+    const unsubscribe = controller.onPlayingChange(setIsPlaying);
+    return () => {
+      unsubscribe();
+      controller.destroy();
+      playbackRef.current = null;
     };
-    
-    if (videoElement) {
-        videoElement.addEventListener('ended', handlePlaybackEnd);
-        videoElement.addEventListener('pause', () => setIsPlaying(false));
-    }
+  }, [videoFile]);
 
-    return () => {
-        if (videoElement) {
-            videoElement.removeEventListener('ended', handlePlaybackEnd);
-            videoElement.removeEventListener('pause', () => setIsPlaying(false));
-        }
+  useEffect(() => {
+    playbackRef.current?.setBuffer(previewBuffer ?? mixedBuffer);
+  }, [mixedBuffer, previewBuffer, videoFile]);
+
+  useEffect(() => {
+    playbackRef.current?.setPlaybackRate(playbackRate);
+  }, [playbackRate, videoFile]);
+
+  useEffect(() => {
+    // Preview the original audio the way the export will treat it, so a dub can be judged over the original speech.
+    const video = videoRef.current;
+    if (!video || !isPlaying) return;
+
+    const regions = dialogueLines
+      .filter(line => lineFits[line.id])
+      .map(line => ({ start: line.time, end: line.time + lineFits[line.id].fittedSeconds }));
+    let frame = 0;
+    const update = () => {
+      const { originalAudioMode, originalVolume, duckedVolume } = videoExportOptions;
+      const underDialogue = regions.some(region => video.currentTime >= region.start && video.currentTime < region.end);
+      video.muted = originalAudioMode === 'replace';
+      video.volume = originalAudioMode === 'duck' && underDialogue ? duckedVolume : originalVolume;
+      frame = requestAnimationFrame(update);
     };
-  }, []);
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, dialogueLines, lineFits, videoExportOptions]);
 
   const handleFileChange = (file: File) => {
     if (file && file.type.startsWith('video/')) {
       setVideoFile(file);
+      if (videoPreviewUrl) URL.revokeObjectURL(videoPreviewUrl);
       setVideoPreviewUrl(URL.createObjectURL(file));
       resetState(true);
+      const project = { id: createProjectId(), name: getBaseName(file.name), createdAt: Date.now() };
+      setProjectInfo(project);
+      saveProjectVideo(project.id, file).catch(err => console.error('Could not save the video for this project.', err));
     } else {
       setError('Please upload a valid video file.');
       setVideoFile(null);
+      if (videoPreviewUrl) URL.revokeObjectURL(videoPreviewUrl);
       setVideoPreviewUrl(null);
     }
   };
   
-  const parseScript = (script: string): DialogueLine[] => {
-    const lines = script.split('\n');
-    const parsedLines: DialogueLine[] = [];
-    // Updated regex to capture the performance cue, e.g., [shouting]
-    const dialogueRegex = /\[(\d+\.?\d*)\] DIALOGUE: (Speaker \d+): \(([^,]+), ([^)]+)\) \[([^\]]+)\] (.*)/;
-
-    for (const line of lines) {
-      const dialogueMatch = line.match(dialogueRegex);
-      if (dialogueMatch) {
-        parsedLines.push({
-          time: parseFloat(dialogueMatch[1]),
-          speaker: dialogueMatch[2],
-          age: dialogueMatch[3].trim(),
-          gender: dialogueMatch[4].trim(),
-          performanceCue: dialogueMatch[5].trim(),
-          text: dialogueMatch[6].trim(),
-        });
-      }
+  const handleFilesSelect = (files: File[]) => {
+    const videos = files.filter(file => file.type.startsWith('video/'));
+    if (files.length === 1 || videos.length === 0) {
+      handleFileChange(files[0]);
+      return;
     }
-    return parsedLines;
+    setError(videos.length < files.length ? `${files.length - videos.length} files were skipped because they are not videos.` : null);
+    batchQueue.add(videos);
+  };
+
+  const handleBatchSettingsChange = (settings: BatchSettings) => {
+    setBatchSettings(settings);
+    batchQueue.setSettings(settings);
+  };
+
+  const handleDownloadBatch = async () => {
+    downloadFile(await buildBatchArchive(batchJobs), 'dialogue-batch.zip');
   };
 
   const getVideoDuration = (videoEl: HTMLVideoElement): Promise<number> => {
@@ -142,141 +376,775 @@ export default function App() {
     });
   };
 
-  const handleGenerateDialogue = useCallback(async () => {
+  const handleProgress = (progress: PipelineProgress) => {
+    setLoadingStep(progress.step);
+    setStepProgress(progress.total > 0 ? { completed: progress.completed, total: progress.total } : null);
+  };
+
+  /**
+   * Starts a cancellable run, cancelling any run still in flight.
+   */
+  const beginRun = (): AbortController => {
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setPreviewTakeId(null);
+    setPreviewBuffer(null);
+    return controller;
+  };
+
+  const endRun = (controller: AbortController) => {
+    if (generationAbortRef.current !== controller) return;
+    generationAbortRef.current = null;
+    setIsLoading(false);
+    setLoadingStep('');
+    setStepProgress(null);
+  };
+
+  /**
+   * Shows what a pipeline stage produced as soon as it finishes.
+   */
+  const applyCheckpoint = (checkpoint: PipelineCheckpoint) => {
+    setDialogueScript(checkpoint.script);
+    setRejectedLines(checkpoint.rejected);
+    setSoundEvents(checkpoint.events);
+    setMusicPlan(checkpoint.music);
+    setSpeakerAppearances(checkpoint.speakers);
+    setDialogueLines(checkpoint.lines);
+    if (checkpoint.stage === 'synthesis') {
+      setAudioClips(checkpoint.clips);
+      setFailedLines(checkpoint.failures);
+      setCacheStats(audioCache.getStats());
+      setLastSynthesis({ cached: checkpoint.cachedCount, synthesized: checkpoint.synthesizedCount });
+    }
+  };
+
+  const applyMix = (mix: DialogueMix, duration: number) => {
+    setLineFits(mix.fits);
+    mixInputRef.current = { tracks: mix.tracks, settings: mix.settings, duration };
+    const audioBlob = audioBufferToWavBlob(mix.buffer);
+    setMixedBuffer(mix.buffer);
+    setGeneratedAudioUrl(previousUrl => {
+      if (previousUrl) URL.revokeObjectURL(previousUrl);
+      return URL.createObjectURL(audioBlob);
+    });
+  };
+
+  /**
+   * Keeps a finished script as a new take and makes it the one being edited.
+   */
+  const recordTake = (draft: TakeDraft) => {
+    const id = createTakeId();
+    setTakes(previous => addTake(previous, id, draft));
+    setActiveTakeId(id);
+  };
+
+  const handleRunError = (err: unknown) => {
+    if (err instanceof DOMException && err.name === 'AbortError') {
+      setError('Generation was cancelled.');
+      return;
+    }
+    handleApiError(err);
+  };
+
+  const handleApiError = (err: unknown) => {
+    console.error(err);
+    const providerError = classifyProviderError(err);
+    if (providerError instanceof RateLimitError) {
+      const newRetryAttempts = retryAttempts + 1;
+      setRetryAttempts(newRetryAttempts);
+      const backoffSeconds = providerError.retryAfterSeconds ?? Math.min(60, Math.pow(2, newRetryAttempts) + Math.random());
+      const roundedBackoff = Math.ceil(backoffSeconds);
+      setError(`API rate limit exceeded. Please wait ${roundedBackoff}s before trying again.`);
+      setRetryAfter(roundedBackoff);
+      return;
+    }
+    setError(describeProviderError(providerError));
+  };
+
+  /**
+   * Voices every line whose clip is missing or out of date and stitches all
+   * clips, sound events and the score into a single track (see `voiceAndMix`).
+   * Lines that still fail after retries are recorded in `failedLines` and left
+   * out of the mix.
+   * @param signal Optional signal to cancel the run.
+   * @returns The clips the mix was made from, or null if no audio could be produced for any line.
+   */
+  const synthesizeAndStitch = async (
+    lines: ScriptLine[],
+    existingClips: Record<string, SynthesizedClip>,
+    events: SoundEvent[],
+    music: MusicPlan | null,
+    signal?: AbortSignal
+  ): Promise<Record<string, SynthesizedClip> | null> => {
+    const duration = await getVideoDuration(videoRef.current!);
+    setVideoDuration(duration);
+
+    const { synthesis, mix } = await voiceAndMix(lines, existingClips, events, music, duration, {
+      synthesize: synthesizeLine,
+      voiceOverrides,
+      maxSpeedup,
+      mixSettings,
+      soundEffectsEnabled,
+      disabledCategories,
+      musicSettings,
+      render: renderMix,
+      signal,
+      onProgress: handleProgress,
+    });
+    setAudioClips(synthesis.clips);
+    setFailedLines(synthesis.failures);
+    setCacheStats(audioCache.getStats());
+    setLastSynthesis({ cached: synthesis.cachedCount, synthesized: synthesis.synthesizedCount });
+
+    if (!mix) {
+      if (synthesis.firstError) throw synthesis.firstError;
+      setError("Failed to generate audio for any script lines. The script may contain only unsupported text.");
+      return null;
+    }
+    applyMix(mix, duration);
+    return synthesis.clips;
+  };
+
+  /**
+   * Runs the full pipeline over the video: analysis, translation when dubbing,
+   * synthesis and mix. Each finished stage is shown straight away and kept as a
+   * checkpoint, so a run that fails or is cancelled can be resumed from there.
+   * @param resumeFrom The checkpoint of an earlier run to continue from.
+   */
+  const handleGenerateDialogue = useCallback(async (resumeFrom?: PipelineCheckpoint) => {
     if (!videoFile || !videoRef.current) return;
 
+    const controller = beginRun();
     setIsLoading(true);
     setError(null);
-    if(generatedAudioUrl) URL.revokeObjectURL(generatedAudioUrl);
-    setGeneratedAudioUrl(null);
-    setDialogueScript('');
-    setIsPlaying(false);
+    if (!resumeFrom) {
+      if(generatedAudioUrl) URL.revokeObjectURL(generatedAudioUrl);
+      setGeneratedAudioUrl(null);
+      setMixedBuffer(null);
+      setDialogueScript('');
+      setDialogueLines([]);
+      setRejectedLines([]);
+      setAudioClips({});
+      setFailedLines({});
+      setLineFits({});
+      setSoundEvents([]);
+      setMusicPlan(null);
+      setSpeakerAppearances([]);
+      setResumeCheckpoint(null);
+      // The last take keeps its script; this run becomes a new one when it finishes.
+      setActiveTakeId(null);
+    }
+    setHasPendingEdits(false);
+    playbackRef.current?.pause();
+
+    try {
+      const duration = await getVideoDuration(videoRef.current);
+      setVideoDuration(duration);
+      const { checkpoint, mix } = await runDialoguePipeline(videoFile, videoPreviewUrl!, duration, {
+        provider: speechProvider,
+        synthesize: synthesizeLine,
+        guidance: dialogueGuidance,
+        mode: dialogueMode,
+        targetLanguage,
+        voiceOverrides,
+        maxSpeedup,
+        mixSettings,
+        soundEffectsEnabled,
+        disabledCategories,
+        musicSettings,
+        render: renderMix,
+        signal: controller.signal,
+        onProgress: handleProgress,
+        onCheckpoint: next => {
+          setResumeCheckpoint(next);
+          applyCheckpoint(next);
+        },
+      }, resumeFrom);
+
+      if (!mix) {
+        const { script, rejected, lines, events } = checkpoint;
+        setError(
+          lines.length > 0 || events.length > 0
+            ? "Failed to generate audio for any script lines. The script may contain only unsupported text."
+            : rejected.length > 0
+            ? `AI could not generate a valid script: all ${rejected.length} lines were rejected.`
+            : script.trim() && script.trim() !== '[]'
+            ? `AI could not generate a valid script. Response: "${script}"`
+            : dialogueMode === 'dub'
+            ? "AI did not hear any speech in the video."
+            : "AI did not detect any dialogue in the video."
+        );
+        setResumeCheckpoint(null);
+        return;
+      }
+
+      applyMix(mix, duration);
+      recordTake({
+        label: dialogueMode === 'dub' ? `Dubbed into ${targetLanguage}` : 'Lip-read',
+        guidance: dialogueGuidance,
+        lines: checkpoint.lines,
+        clips: checkpoint.clips,
+      });
+      setResumeCheckpoint(null);
+      setRetryAttempts(0);
+    } catch (err) {
+      handleRunError(err);
+    } finally {
+      endRun(controller);
+    }
+  }, [videoFile, videoPreviewUrl, retryAttempts, dialogueGuidance, dialogueMode, targetLanguage, generatedAudioUrl, voiceOverrides, soundEffectsEnabled, disabledCategories, mixSettings, musicSettings, maxSpeedup]);
+
+  /**
+   * Voices an existing script or subtitle file instead of lip-reading the video.
+   * Speakers, traits and cues the file doesn't carry are filled by a text-only
+   * model pass when enabled, or left at neutral defaults. Sound events already
+   * detected for the video are kept.
+   */
+  const handleImportScript = async (file: File) => {
+    if (!videoRef.current) return;
 
+    let text: string;
     try {
-      setLoadingStep('Analyzing Lip Movements');
-      const videoBase64 = await fileToBase64(videoFile);
-      const script = await generateDialogueScript(videoBase64, videoFile.type, dialogueGuidance);
-      setDialogueScript(script);
+      text = await file.text();
+    } catch (err) {
+      console.error(err);
+      setError(`Could not read "${file.name}".`);
+      return;
+    }
 
-      const parsedLines = parseScript(script);
+    const imported = importScript(file.name, text);
+    setRejectedLines(imported.rejected);
+    if (imported.lines.length === 0) {
+      setError(`No dialogue lines were found in "${file.name}".`);
+      return;
+    }
+
+    const controller = beginRun();
+    setIsLoading(true);
+    setError(null);
+    setAudioClips({});
+    setActiveTakeId(null);
+    // The file's speaker labels need not match the ones seen in the video.
+    setSpeakerAppearances([]);
+    setFailedLines({});
+    setLineFits({});
+    setHasPendingEdits(false);
+    setResumeCheckpoint(null);
+    playbackRef.current?.pause();
+
+    try {
+      let lines = imported.lines;
+      if (inferImportTraits && imported.hasMissingTraits) {
+        setLoadingStep('Inferring Speakers');
+        try {
+          const response = await ttsScheduler.schedule(
+            () => speechProvider.inferSpeakerTraits(lines, dialogueGuidance, controller.signal),
+            undefined,
+            controller.signal
+          );
+          lines = applyInferredTraits(lines, response);
+        } catch (inferenceError) {
+          controller.signal.throwIfAborted();
+          // The defaults still produce a usable voice-over; the user can fix traits in the timeline.
+          console.error('Speaker inference failed; using default traits.', inferenceError);
+        }
+      }
+
+      const parsedLines = toScriptLines(lines);
+      setDialogueScript(text);
+      setDialogueLines(parsedLines);
+      const clips = await synthesizeAndStitch(parsedLines, {}, soundEvents, musicPlan, controller.signal);
+      if (clips) {
+        recordTake({ label: `Imported from ${file.name}`, guidance: '', lines: parsedLines, clips });
+        setRetryAttempts(0);
+      }
+    } catch (err) {
+      handleRunError(err);
+    } finally {
+      endRun(controller);
+    }
+  };
+
+  const handleApplyEdits = async () => {
+    if (!videoRef.current) return;
+
+    const controller = beginRun();
+    setIsLoading(true);
+    setError(null);
+    setResumeCheckpoint(null);
+    playbackRef.current?.pause();
 
-      if (parsedLines.length === 0) {
-        setError(script.trim() ? `AI could not generate a valid script. Response: "${script}"` : "AI did not detect any dialogue in the video.");
-        setIsLoading(false);
-        setLoadingStep('');
+    try {
+      const clips = await synthesizeAndStitch(dialogueLines, audioClips, soundEvents, musicPlan, controller.signal);
+      if (clips) {
+        // A script left by a run that failed part-way becomes a take once it has been voiced.
+        if (!activeTakeId && dialogueLines.length > 0) recordTake({ label: 'Edited', guidance: dialogueGuidance, lines: dialogueLines, clips });
+        setHasPendingEdits(false);
+        setRetryAttempts(0);
+      }
+    } catch (err) {
+      handleRunError(err);
+    } finally {
+      endRun(controller);
+    }
+  };
+
+  const handleLinesChange = (lines: ScriptLine[]) => {
+    setDialogueLines(lines);
+    setHasPendingEdits(true);
+    // Resuming would bring back the script as it was before these edits.
+    setResumeCheckpoint(null);
+  };
+
+  const handleMaxSpeedupChange = (value: number) => {
+    setMaxSpeedup(value);
+    if (Object.keys(lineFits).length > 0) setHasPendingEdits(true);
+  };
+
+  const handleToggleCategory = (category: SoundCategory) => {
+    setDisabledCategories(previous =>
+      previous.includes(category) ? previous.filter(c => c !== category) : [...previous, category]
+    );
+    if (soundEvents.some(event => event.category === category)) setHasPendingEdits(true);
+  };
+
+  const handleSoundEffectsEnabledChange = (enabled: boolean) => {
+    setSoundEffectsEnabled(enabled);
+    if (soundEvents.length > 0) setHasPendingEdits(true);
+  };
+
+  const handleMusicSettingsChange = (settings: MusicSettings) => {
+    setMusicSettings(settings);
+    if (musicPlan) setHasPendingEdits(true);
+  };
+
+  const handleMusicPlanChange = (plan: MusicPlan) => {
+    setMusicPlan(plan);
+    setHasPendingEdits(true);
+  };
+
+  /**
+   * Plans the score again from the video with the current music guidance, then
+   * remixes with the voiced lines already on hand.
+   */
+  const handleScoreMusic = async () => {
+    if (!videoFile || !videoRef.current) return;
+
+    const controller = beginRun();
+    setIsLoading(true);
+    setError(null);
+    setResumeCheckpoint(null);
+    playbackRef.current?.pause();
+
+    try {
+      const duration = await getVideoDuration(videoRef.current);
+      const plan = await analyzeMusic(speechProvider, videoFile, videoPreviewUrl!, duration, {
+        guidance: musicSettings.guidance,
+        signal: controller.signal,
+        onProgress: progress => handleProgress({
+          step: 'Scoring Music',
+          completed: progress.segment,
+          total: progress.segmentCount > 1 ? progress.segmentCount : 0,
+        }),
+      });
+      if (!plan || plan.cues.length === 0) {
+        setError('AI could not plan a music score for this video.');
         return;
       }
+      setMusicPlan(plan);
+      if (await synthesizeAndStitch(dialogueLines, audioClips, soundEvents, plan, controller.signal)) {
+        setHasPendingEdits(false);
+        setRetryAttempts(0);
+      }
+    } catch (err) {
+      handleRunError(err);
+    } finally {
+      endRun(controller);
+    }
+  };
 
-      setLoadingStep('Generating Dialogue Audio');
-      const settledClips = await Promise.all(
-        parsedLines.map(line =>
-          generateAudioForDialogueLine(line)
-            .then(audioBase64 => {
-              if (audioBase64) {
-                return {
-                  time: line.time,
-                  audioData: decode(audioBase64),
-                };
-              }
-              return null;
-            })
-        )
-      );
+  const handleMixSettingsChange = (settings: MixSettings) => {
+    setMixSettings(settings);
+    setHasPendingEdits(true);
+  };
+
+  const handleVoiceChange = (speaker: string, voiceName: string | null) => {
+    setVoiceOverrides(previous => {
+      const next = { ...previous };
+      if (voiceName) {
+        next[speaker] = voiceName;
+      } else {
+        delete next[speaker];
+      }
+      return next;
+    });
+    setHasPendingEdits(true);
+  };
+
+  /**
+   * Renames a speaker, or merges it into another, across the script, the voiced
+   * clips and every per-speaker setting.
+   */
+  const handleRenameSpeaker = (from: string, to: string) => {
+    const current = { lines: dialogueLines, clips: audioClips, voiceOverrides, appearances: speakerAppearances, mixSettings };
+    const next = relabelSpeaker(current, from, to);
+    if (next === current) return;
+    setDialogueLines(next.lines);
+    setAudioClips(next.clips);
+    setVoiceOverrides(next.voiceOverrides);
+    setSpeakerAppearances(next.appearances);
+    setMixSettings(next.mixSettings);
+    // The mix still routes the old label's bus, so it has to be rebuilt.
+    setHasPendingEdits(true);
+    setResumeCheckpoint(null);
+  };
+
+  /**
+   * Switches the editor to another take and remixes it. The take being left
+   * already holds its edits, so nothing is lost.
+   */
+  const handleOpenTake = (takeId: string) => {
+    const take = takes.find(candidate => candidate.id === takeId);
+    if (!take || take.id === activeTakeId) return;
+    setActiveTakeId(take.id);
+    setDialogueLines(take.lines);
+    setAudioClips(take.clips);
+    if (take.guidance) setDialogueGuidance(take.guidance);
+    setFailedLines({});
+    setLineFits({});
+    setResumeCheckpoint(null);
+    setHasPendingEdits(false);
+    setRestoreRequested(true);
+  };
+
+  const handleDeleteTake = (takeId: string) => {
+    if (takeId === activeTakeId) return;
+    setTakes(previous => previous.filter(take => take.id !== takeId));
+    takeMixesRef.current.delete(takeId);
+    if (takeId === previewTakeId) {
+      setPreviewTakeId(null);
+      setPreviewBuffer(null);
+    }
+  };
 
-      const audioClips = settledClips.filter(clip => clip !== null) as { time: number; audioData: Uint8Array }[];
+  /**
+   * Plays another take's mix against the video in place of the current one, for
+   * A/B listening. Takes are mixed with the current settings, as they were voiced.
+   * @param takeId The take to hear, or null for the current mix.
+   */
+  const handlePreviewTake = async (takeId: string | null) => {
+    const take = takes.find(candidate => candidate.id === takeId);
+    if (!take || take.id === activeTakeId || !videoRef.current) {
+      setPreviewTakeId(null);
+      setPreviewBuffer(null);
+      return;
+    }
 
-      if (audioClips.length === 0 && parsedLines.length > 0) {
-        setError("Failed to generate audio for any script lines. The script may contain only unsupported text.");
-        setIsLoading(false);
-        setLoadingStep('');
+    let buffer = takeMixesRef.current.get(take.id);
+    if (!buffer) {
+      try {
+        const duration = await getVideoDuration(videoRef.current);
+        const mix = await mixDialogue(take.lines, take.clips, soundEvents, musicPlan, duration, {
+          maxSpeedup,
+          mixSettings,
+          soundEffectsEnabled,
+          disabledCategories,
+          musicSettings,
+          render: renderMix,
+        });
+        buffer = mix.buffer;
+        takeMixesRef.current.set(take.id, buffer);
+      } catch (err) {
+        console.error(err);
+        setError(`Could not mix take ${take.number}.`);
         return;
       }
+    }
+    setPreviewTakeId(take.id);
+    setPreviewBuffer(buffer);
+  };
 
+  /**
+   * Builds a new take from lines picked out of other takes and remixes it. The
+   * lines keep their audio, so only lines cast with a different voice since are
+   * voiced again.
+   */
+  const handleAssembleTakes = (picks: TakePick[]) => {
+    const { lines, clips } = assembleTake(picks);
+    recordTake({
+      label: `Assembled from ${describeTakeNumbers(picks.map(pick => pick.take.number))}`,
+      guidance: '',
+      lines,
+      clips,
+    });
+    setDialogueLines(lines);
+    setAudioClips(clips);
+    setFailedLines({});
+    setLineFits({});
+    setResumeCheckpoint(null);
+    setHasPendingEdits(false);
+    setRestoreRequested(true);
+  };
 
-      setLoadingStep('Synchronizing Dialogue');
-      const videoDuration = await getVideoDuration(videoRef.current);
-      
-      const audioBlob = await stitchAudioClips(audioClips, videoDuration);
-      const url = URL.createObjectURL(audioBlob);
-      setGeneratedAudioUrl(url);
+  const handleClearAudioCache = async () => {
+    try {
+      await audioCache.clear();
+    } catch (err) {
+      console.error(err);
+      setError('Could not clear the audio cache.');
+    }
+    setCacheStats(audioCache.getStats());
+    setLastSynthesis(null);
+  };
 
-      setRetryAttempts(0);
+  const handleAudition = async (profile: SpeakerProfile, voiceName: string) => {
+    const { audioData } = await synthesizeLine({
+      time: 0,
+      speaker: profile.speaker,
+      age: profile.age,
+      gender: profile.gender,
+      performanceCue: 'in a natural, conversational tone',
+      text: AUDITION_LINE,
+    }, voiceName);
+    setCacheStats(audioCache.getStats());
+    await playPcmAudio(audioData);
+  };
 
+  /**
+   * Snapshots everything the editor needs to pick this scene up again later.
+   */
+  const buildProject = (): Project => ({
+    id: projectInfo!.id,
+    name: projectInfo!.name,
+    createdAt: projectInfo!.createdAt,
+    updatedAt: Date.now(),
+    video: { name: videoFile!.name, type: videoFile!.type, size: videoFile!.size },
+    guidance: dialogueGuidance,
+    lines: dialogueLines,
+    voiceOverrides,
+    clips: audioClips,
+    maxSpeedup,
+    mixSettings,
+    soundEffectsEnabled,
+    soundEvents,
+    disabledCategories,
+    dialogueMode,
+    targetLanguage,
+    speakerAppearances,
+    musicPlan,
+    musicSettings,
+    takes,
+    activeTakeId,
+  });
+
+  const openStoredProject = ({ project, video }: StoredProject) => {
+    if (!video) {
+      setError(`The project "${project.name}" has no video attached.`);
+      return;
+    }
+    if (videoPreviewUrl) URL.revokeObjectURL(videoPreviewUrl);
+    setVideoFile(video);
+    setVideoPreviewUrl(URL.createObjectURL(video));
+    resetState(true);
+    setProjectInfo({ id: project.id, name: project.name, createdAt: project.createdAt });
+    setLastSavedAt(project.updatedAt);
+    setDialogueGuidance(project.guidance);
+    setDialogueLines(project.lines);
+    setVoiceOverrides(project.voiceOverrides);
+    setAudioClips(project.clips);
+    setMaxSpeedup(project.maxSpeedup);
+    setMixSettings(project.mixSettings);
+    setSoundEffectsEnabled(project.soundEffectsEnabled);
+    setSoundEvents(project.soundEvents);
+    setDisabledCategories(project.disabledCategories);
+    setDialogueMode(project.dialogueMode ?? 'lipread');
+    setTargetLanguage(project.targetLanguage ?? DEFAULT_TARGET_LANGUAGE);
+    setSpeakerAppearances(project.speakerAppearances ?? []);
+    setMusicPlan(project.musicPlan ?? null);
+    setMusicSettings(project.musicSettings ?? DEFAULT_MUSIC_SETTINGS);
+    if (project.takes) {
+      setTakes(project.takes);
+      setActiveTakeId(project.activeTakeId ?? null);
+    } else if (project.lines.length > 0) {
+      // Projects saved before takes were kept hold a single script.
+      const id = createTakeId();
+      setTakes(addTake([], id, { label: 'Saved script', guidance: project.guidance, lines: project.lines, clips: project.clips }));
+      setActiveTakeId(id);
+    }
+    if (project.lines.length > 0 || project.soundEvents.length > 0 || project.musicPlan) setRestoreRequested(true);
+  };
+
+  const handleOpenProject = async (projectId: string) => {
+    setError(null);
+    try {
+      const stored = await loadProject(projectId);
+      if (!stored) {
+        setError('That project could not be found. It may have been deleted in another tab.');
+        setRecentProjects(previous => previous.filter(project => project.id !== projectId));
+        return;
+      }
+      openStoredProject(stored);
     } catch (err) {
       console.error(err);
-      let errorMessage = 'An unknown error occurred. Please try again.';
-      if (err instanceof Error) {
-        const lowerCaseMessage = err.message.toLowerCase();
-
-        if (lowerCaseMessage.includes('quota') || lowerCaseMessage.includes('resource_exhausted') || lowerCaseMessage.includes('429')) {
-          const newRetryAttempts = retryAttempts + 1;
-          setRetryAttempts(newRetryAttempts);
-          const backoffSeconds = Math.min(60, Math.pow(2, newRetryAttempts) + Math.random());
-          const roundedBackoff = Math.ceil(backoffSeconds);
-          errorMessage = `API rate limit exceeded. Please wait ${roundedBackoff}s before trying again.`;
-          setRetryAfter(roundedBackoff);
-        } else if (lowerCaseMessage.includes('failed to fetch')) {
-          errorMessage = 'Network error. Please check your internet connection and try again.';
-        } else if (lowerCaseMessage.includes('invalid') && (lowerCaseMessage.includes('argument') || lowerCaseMessage.includes('format') || lowerCaseMessage.includes('unsupported'))) {
-          errorMessage = 'The uploaded video file appears to be invalid or in an unsupported format. Please try a different video.';
-        } else if (lowerCaseMessage.includes('safety') || lowerCaseMessage.includes('blocked')) {
-          errorMessage = 'The content could not be processed due to safety policies. Please try a different video.';
-        } else if (lowerCaseMessage.includes('500') || lowerCaseMessage.includes('503') || lowerCaseMessage.includes('server error')) {
-          errorMessage = 'A server error occurred. The AI model seems to be unavailable. Please try again in a few moments.';
-        } else {
-          errorMessage = `An unexpected error occurred: ${err.message}. Please try again.`;
-        }
+      setError(err instanceof Error ? `Could not open project: ${err.message}` : 'Could not open project.');
+    }
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+    try {
+      await deleteProject(projectId);
+      setRecentProjects(previous => previous.filter(project => project.id !== projectId));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? `Could not delete project: ${err.message}` : 'Could not delete project.');
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    setError(null);
+    try {
+      const stored = await importProjectArchive(file);
+      await saveProject(stored.project);
+      if (stored.video) await saveProjectVideo(stored.project.id, stored.video);
+      openStoredProject(stored);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not import project.');
+    }
+  };
+
+  const handleExportProject = async () => {
+    if (!projectInfo || !videoFile) return;
+    try {
+      const archive = await exportProjectArchive(buildProject(), videoFile);
+      downloadFile(archive, `${projectInfo.name}${PROJECT_ARCHIVE_EXTENSION}`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? `Could not export project: ${err.message}` : 'Could not export project.');
+    }
+  };
+
+  const handleSeek = (time: number) => {
+    playbackRef.current?.seek(time);
+  };
+  
+  const handleExportAudio = async () => {
+    const mixInput = mixInputRef.current;
+    if (!mixInput) return;
+
+    const controller = new AbortController();
+    audioExportAbortRef.current = controller;
+    setError(null);
+    setAudioExportProgress(0);
+
+    try {
+      const buffer = await renderMix(mixInput.tracks, mixInput.settings, mixInput.duration, audioExportOptions.sampleRate);
+      const { blob, extension } = await exportAudio(buffer, audioExportOptions, setAudioExportProgress, controller.signal);
+      const baseName = videoFile ? getBaseName(videoFile.name) : 'generated';
+      downloadFile(blob, `${baseName}-dialogue.${extension}`);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error(err);
+        setError(err instanceof Error ? `Audio export failed: ${err.message}` : 'Audio export failed. Please try again.');
       }
-      setError(errorMessage);
     } finally {
-      setIsLoading(false);
-      setLoadingStep('');
+      audioExportAbortRef.current = null;
+      setAudioExportProgress(null);
+    }
+  };
+
+  const handleDownloadSubtitles = (format: 'srt' | 'vtt') => {
+    const content = format === 'srt' ? toSrt(subtitleCues, subtitleOptions) : toWebVtt(subtitleCues, subtitleOptions);
+    const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    const baseName = videoFile ? getBaseName(videoFile.name) : 'generated-dialogue';
+    downloadFile(new Blob([content], { type }), `${baseName}.${format}`);
+  };
+
+  const handleExportVideo = async () => {
+    if (!videoFile || !videoPreviewUrl || !generatedAudioUrl) return;
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setError(null);
+    setExportProgress(0);
+    playbackRef.current?.pause();
+
+    try {
+      const { blob, extension } = await exportVideoWithAudio(
+        videoPreviewUrl,
+        generatedAudioUrl,
+        videoExportOptions,
+        setExportProgress,
+        controller.signal
+      );
+      downloadFile(blob, `${getBaseName(videoFile.name)}-with-dialogue.${extension}`);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error(err);
+        setError(err instanceof Error ? `Video export failed: ${err.message}` : 'Video export failed. Please try again.');
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
     }
-  }, [videoFile, retryAttempts, dialogueGuidance, generatedAudioUrl]);
-  
-  const handleDownload = () => {
-    if (!generatedAudioUrl) return;
-    const a = document.createElement('a');
-    a.style.display = 'none';
-    a.href = generatedAudioUrl;
-    a.download = 'generated-dialogue.wav';
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
   };
   
   const handlePlayPause = () => {
-    const video = videoRef.current;
-    const audio = audioRef.current;
-    if (video && audio) {
-        if (isPlaying) {
-            video.pause();
-            audio.pause();
-        } else {
-            if (video.ended) { 
-                 video.currentTime = 0;
-                 audio.currentTime = 0;
-            }
-            video.play();
-            audio.play();
-        }
-        setIsPlaying(!isPlaying);
+    const controller = playbackRef.current;
+    if (!controller) return;
+    if (isPlaying) {
+      controller.pause();
+    } else {
+      controller.play().catch(err => console.error('Playback could not start.', err));
     }
   };
 
   const resetState = (keepVideo = false) => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    setResumeCheckpoint(null);
+    setStepProgress(null);
+    exportAbortRef.current?.abort();
+    audioExportAbortRef.current?.abort();
+    mixInputRef.current = null;
+    setShowAudioExport(false);
     if (!keepVideo) {
       setVideoFile(null);
       if(videoPreviewUrl) URL.revokeObjectURL(videoPreviewUrl);
       setVideoPreviewUrl(null);
+      setProjectInfo(null);
     }
+    setLastSavedAt(null);
+    setRestoreRequested(false);
     if (generatedAudioUrl) {
       URL.revokeObjectURL(generatedAudioUrl);
     }
     setGeneratedAudioUrl(null);
+    setMixedBuffer(null);
     setIsLoading(false);
     setError(null);
     setDialogueScript('');
+    setDialogueLines([]);
+    setRejectedLines([]);
+    setAudioClips({});
+    setFailedLines({});
+    setLastSynthesis(null);
+    setLineFits({});
+    setHasPendingEdits(false);
+    setVideoDuration(0);
+    setVoiceOverrides({});
+    setSpeakerAppearances([]);
+    setSoundEvents([]);
+    setDisabledCategories([]);
+    setMixSettings(DEFAULT_MIX_SETTINGS);
+    setMusicPlan(null);
+    setMusicSettings(DEFAULT_MUSIC_SETTINGS);
+    setTakes([]);
+    setActiveTakeId(null);
+    setPreviewTakeId(null);
+    setPreviewBuffer(null);
+    takeMixesRef.current.clear();
     setDialogueGuidance('');
     setRetryAfter(0);
     setRetryAttempts(0);
@@ -285,7 +1153,6 @@ export default function App() {
 
   return (
     <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center p-4 sm:p-6 md:p-8">
-      <audio ref={audioRef} src={generatedAudioUrl ?? ''} className="hidden" />
       <header className="w-full max-w-4xl mb-6 text-center">
         <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-indigo-600">
           Video to Dialogue AI
@@ -295,11 +1162,57 @@ export default function App() {
 
       <main className="w-full max-w-2xl bg-gray-800 rounded-2xl shadow-2xl p-6 sm:p-8 transition-all duration-300">
         {!videoFile ? (
-          <FileUploader onFileSelect={handleFileChange} />
+          <div className="flex flex-col gap-6">
+            <FileUploader onFilesSelect={handleFilesSelect} />
+            {error && <div className="p-3 bg-red-800/50 border border-red-600 text-red-200 rounded-lg text-center">{error}</div>}
+            {batchJobs.length > 0 && (
+              <BatchPanel
+                jobs={batchJobs}
+                paused={batchPaused}
+                settings={batchSettings}
+                onSettingsChange={handleBatchSettingsChange}
+                onPause={batchQueue.pause}
+                onResume={batchQueue.resume}
+                onCancel={batchQueue.cancel}
+                onRetry={batchQueue.retry}
+                onRemove={batchQueue.remove}
+                onDownloadAll={handleDownloadBatch}
+              />
+            )}
+            <RecentProjects
+              projects={recentProjects}
+              disabled={isLoading}
+              onOpen={handleOpenProject}
+              onDelete={handleDeleteProject}
+              onImport={handleImportProject}
+            />
+          </div>
         ) : (
           <div className="flex flex-col gap-6">
+            {projectInfo && (
+              <div className="flex items-center justify-between gap-2 text-sm text-gray-400">
+                <span className="truncate" title={projectInfo.name}>
+                  {projectInfo.name}
+                  {lastSavedAt && ` · saved ${new Date(lastSavedAt).toLocaleTimeString()}`}
+                </span>
+                <button
+                  onClick={handleExportProject}
+                  disabled={isLoading}
+                  className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+                >
+                  Export Project
+                </button>
+              </div>
+            )}
+
             <div className="w-full aspect-video rounded-lg overflow-hidden bg-black">
-              <VideoPlayer ref={videoRef} src={videoPreviewUrl!} />
+              <VideoPlayer
+                ref={videoRef}
+                src={videoPreviewUrl!}
+                captionsUrl={captionsUrl}
+                speakers={speakerAppearances}
+                lines={dialogueLines}
+              />
             </div>
             
             <CustomSoundPrompt
@@ -308,19 +1221,113 @@ export default function App() {
               disabled={isLoading}
             />
 
+            <DialogueModePanel
+              mode={dialogueMode}
+              targetLanguage={targetLanguage}
+              disabled={isLoading}
+              onModeChange={setDialogueMode}
+              onTargetLanguageChange={setTargetLanguage}
+            />
+
+            <ScriptImportPanel
+              inferTraits={inferImportTraits}
+              disabled={isLoading || exportProgress !== null}
+              onInferTraitsChange={setInferImportTraits}
+              onImport={handleImportScript}
+            />
+
+            <SoundEffectSelector
+              analysisEnabled={soundEffectsEnabled}
+              events={soundEvents}
+              disabledCategories={disabledCategories}
+              hasPendingChanges={hasPendingEdits && generatedAudioUrl !== null}
+              disabled={isLoading}
+              onAnalysisEnabledChange={handleSoundEffectsEnabledChange}
+              onToggleCategory={handleToggleCategory}
+              onApply={handleApplyEdits}
+            />
+
+            <MusicPanel
+              settings={musicSettings}
+              plan={musicPlan}
+              hasPendingChanges={hasPendingEdits && generatedAudioUrl !== null}
+              disabled={isLoading}
+              onSettingsChange={handleMusicSettingsChange}
+              onPlanChange={handleMusicPlanChange}
+              onScore={handleScoreMusic}
+              onApply={handleApplyEdits}
+            />
+
             {error && <div className="p-3 bg-red-800/50 border border-red-600 text-red-200 rounded-lg text-center">{error}</div>}
 
-            {isLoading && <Loader message={`${loadingStep}...`} />}
+            {isLoading && (
+              <Loader
+                message={stepProgress ? `${loadingStep} ${stepProgress.completed}/${stepProgress.total}...` : `${loadingStep}...`}
+                progress={stepProgress ? stepProgress.completed / stepProgress.total : undefined}
+                onCancel={() => generationAbortRef.current?.abort()}
+              />
+            )}
 
-            {dialogueScript && !isLoading && (
-              <div className="p-4 bg-gray-700/50 rounded-lg max-h-48 overflow-y-auto">
-                <h3 className="font-semibold text-purple-300 mb-2">Generated Dialogue Script:</h3>
-                <p className="text-gray-300 text-sm whitespace-pre-wrap italic">{dialogueScript}</p>
-              </div>
+            <ParseReport rejected={rejectedLines} onDismiss={() => setRejectedLines([])} />
+
+            {!isLoading && (
+              <FailedLinesReport
+                lines={dialogueLines}
+                reasons={failedLines}
+                disabled={isLoading || exportProgress !== null}
+                onRetry={handleApplyEdits}
+              />
+            )}
+
+            <AudioCacheStatus
+              stats={cacheStats}
+              lastRun={lastSynthesis}
+              disabled={isLoading}
+              onClear={handleClearAudioCache}
+            />
+
+            <VoiceSelector
+              speakers={speakerProfiles}
+              casting={voiceCasting}
+              overrides={voiceOverrides}
+              disabled={isLoading}
+              onVoiceChange={handleVoiceChange}
+              onAudition={handleAudition}
+              appearances={speakerAppearances}
+              onRename={handleRenameSpeaker}
+              onLocate={handleSeek}
+            />
+
+            {dialogueLines.length > 0 && (
+              <DialogueTimeline
+                lines={dialogueLines}
+                duration={videoDuration}
+                staleLineIds={staleLineIds}
+                fits={lineFits}
+                maxSpeedup={maxSpeedup}
+                onMaxSpeedupChange={handleMaxSpeedupChange}
+                hasPendingChanges={hasPendingEdits}
+                disabled={isLoading}
+                getCurrentTime={() => playbackRef.current?.getCurrentTime() ?? 0}
+                onLinesChange={handleLinesChange}
+                onSeek={handleSeek}
+                onApply={handleApplyEdits}
+              />
             )}
             
+            <TakesPanel
+              takes={takes}
+              activeTakeId={activeTakeId}
+              previewTakeId={previewTakeId}
+              disabled={isLoading || exportProgress !== null}
+              onOpen={handleOpenTake}
+              onDelete={handleDeleteTake}
+              onPreview={handlePreviewTake}
+              onAssemble={handleAssembleTakes}
+            />
+
             {generatedAudioUrl && !isLoading && (
-              <div className="flex items-center justify-center p-4 bg-gray-700 rounded-lg w-full">
+              <div className="flex items-center justify-center gap-4 p-4 bg-gray-700 rounded-lg w-full">
                 <button
                   onClick={handlePlayPause}
                   className="flex items-center gap-2 px-6 py-2 text-lg font-semibold rounded-full bg-purple-600 hover:bg-purple-700 transition-colors"
@@ -328,14 +1335,90 @@ export default function App() {
                   {isPlaying ? <PauseIcon /> : <PlayIcon />}
                   <span>{isPlaying ? 'Pause' : 'Play with Dialogue'}</span>
                 </button>
+                <select
+                  aria-label="Playback speed"
+                  value={playbackRate}
+                  onChange={(e) => setPlaybackRate(Number(e.target.value))}
+                  className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-300"
+                >
+                  {PLAYBACK_RATES.map(rate => (
+                    <option key={rate} value={rate}>{rate}×</option>
+                  ))}
+                </select>
               </div>
             )}
 
+            {generatedAudioUrl && mixedBuffer && (
+              <AudioPlayer
+                buffer={mixedBuffer}
+                lines={dialogueLines}
+                fits={lineFits}
+                isPlaying={isPlaying}
+                getCurrentTime={() => playbackRef.current?.getCurrentTime() ?? 0}
+                onSeek={handleSeek}
+              />
+            )}
+
+            {generatedAudioUrl && Object.keys(effectiveMixSettings.buses).length > 0 && (
+              <MixerPanel
+                settings={effectiveMixSettings}
+                hasPendingChanges={hasPendingEdits}
+                disabled={isLoading}
+                onSettingsChange={handleMixSettingsChange}
+                onApply={handleApplyEdits}
+              />
+            )}
+
+            {generatedAudioUrl && subtitleCues.length > 0 && (
+              <SubtitlePanel
+                options={subtitleOptions}
+                showCaptions={showCaptions}
+                disabled={isLoading}
+                onOptionsChange={setSubtitleOptions}
+                onShowCaptionsChange={setShowCaptions}
+                onDownload={handleDownloadSubtitles}
+              />
+            )}
+
+            {generatedAudioUrl && !isLoading && showAudioExport && (
+              <AudioExportPanel
+                options={audioExportOptions}
+                progress={audioExportProgress}
+                disabled={isLoading}
+                opusSupported={isOpusSupported()}
+                onOptionsChange={setAudioExportOptions}
+                onExport={handleExportAudio}
+                onCancel={() => audioExportAbortRef.current?.abort()}
+                onClose={() => setShowAudioExport(false)}
+              />
+            )}
+
+            {generatedAudioUrl && !isLoading && (
+              <VideoExportPanel
+                options={videoExportOptions}
+                progress={exportProgress}
+                disabled={isLoading}
+                onOptionsChange={setVideoExportOptions}
+                onExport={handleExportVideo}
+                onCancel={() => exportAbortRef.current?.abort()}
+              />
+            )}
+
 
             <div className="flex flex-col sm:flex-row gap-4">
+              {resumeCheckpoint && !isLoading && (
+                <button
+                  onClick={() => handleGenerateDialogue(resumeCheckpoint)}
+                  disabled={retryAfter > 0 || exportProgress !== null || audioExportProgress !== null}
+                  title={`Keeps the ${RESUME_LABELS[resumeCheckpoint.stage]} from the last run`}
+                  className="w-full sm:w-auto bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Resume
+                </button>
+              )}
               <button
-                onClick={handleGenerateDialogue}
-                disabled={isLoading || !videoFile || retryAfter > 0}
+                onClick={() => handleGenerateDialogue()}
+                disabled={isLoading || !videoFile || retryAfter > 0 || exportProgress !== null || audioExportProgress !== null}
                 className="w-full flex-grow bg-gradient-to-r from-purple-500 to-indigo-600 hover:from-purple-600 hover:to-indigo-700 text-white font-bold py-3 px-4 rounded-lg shadow-lg transition-transform transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
               >
                 {isLoading
@@ -349,7 +1432,7 @@ export default function App() {
 
               {generatedAudioUrl && !isLoading && (
                 <button
-                  onClick={handleDownload}
+                  onClick={() => setShowAudioExport(true)}
                   className="w-full sm:w-auto flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg shadow-lg transition-colors"
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -371,7 +1454,7 @@ export default function App() {
         )}
       </main>
       <footer className="mt-8 text-center text-gray-500 text-sm">
-        <p>Powered by Google Gemini</p>
+        <p>{speechProvider.name === 'mock' ? 'Running offline with the mock backend' : 'Powered by Google Gemini'}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,75 @@
+import { spawn } from 'node:child_process';
+import type { SegmentExtractor } from '../services/videoAnalysis';
+
+// Segments only need to be good enough to read lips from, as in the browser.
+const SEGMENT_VIDEO_BITRATE = '1500k';
+const SEGMENT_AUDIO_BITRATE = '64k';
+
+/**
+ * Runs an ffmpeg tool and collects what it writes to stdout.
+ * @param command `ffmpeg` or `ffprobe`.
+ * @param args The arguments.
+ * @param signal Kills the process when aborted.
+ * @returns The tool's output.
+ */
+function run(command: string, args: string[], signal?: AbortSignal): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal, stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new Error(`${command} was not found on the PATH. Install FFmpeg to read and cut videos.`));
+      } else {
+        reject(error);
+      }
+    });
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else if (!signal?.aborted) {
+        const detail = Buffer.concat(stderr).toString('utf8').trim().split('\n').pop();
+        reject(new Error(`${command} exited with code ${code}${detail ? `: ${detail}` : ''}`));
+      }
+    });
+  });
+}
+
+/**
+ * Reads a video's length with ffprobe.
+ * @param path The video file.
+ * @returns The duration in seconds.
+ */
+export async function probeDuration(path: string): Promise<number> {
+  const output = await run('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', path]);
+  const duration = Number(output.toString('utf8').trim());
+  if (!Number.isFinite(duration) || duration <= 0) throw new Error(`Could not read the duration of ${path}`);
+  return duration;
+}
+
+/**
+ * Cuts segments with ffmpeg instead of re-recording them in a browser. The
+ * window is re-encoded rather than copied so it starts exactly at its start
+ * time, not at the keyframe before it, and line timings stay accurate.
+ * @param path The video file; the extractor ignores the URL it is given.
+ * @returns An extractor for `runDialoguePipeline`.
+ */
+export function createFfmpegExtractor(path: string): SegmentExtractor {
+  return async (_videoUrl, window, signal) => {
+    const data = await run('ffmpeg', [
+      '-v', 'error',
+      '-ss', String(window.start),
+      '-i', path,
+      '-t', String(window.end - window.start),
+      '-c:v', 'libx264', '-preset', 'veryfast', '-b:v', SEGMENT_VIDEO_BITRATE,
+      '-c:a', 'aac', '-b:a', SEGMENT_AUDIO_BITRATE,
+      // A fragmented MP4 can be written to a pipe.
+      '-f', 'mp4', '-movflags', 'frag_keyframe+empty_moov',
+      'pipe:1',
+    ], signal);
+    signal?.throwIfAborted();
+    return new Blob([data], { type: 'video/mp4' });
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Voices a video from the command line: analyzes it, voices the script and
+ * writes the script, subtitles and mixed audio track next to each other.
+ *
+ *   npm run video2sound -- clip.mp4 -g "a tense argument" -v "Speaker 1=Puck" -o out
+ *
+ * Progress goes to stderr and the paths written to stdout, so the output can be
+ * piped. Run with --help for every option.
+ */
+
+import { existsSync, openAsBlob } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { DialogueMode, VoiceCasting } from '../types';
+import {
+  audioBufferToWavBlob,
+  buildSubtitleCues,
+  createLineSynthesizer,
+  createRequestScheduler,
+  DEFAULT_MIX_SETTINGS,
+  DEFAULT_MUSIC_SETTINGS,
+  DEFAULT_TARGET_LANGUAGE,
+  encodeFlac,
+  PREBUILT_VOICES,
+  renderMixToPcm,
+  runDialoguePipeline,
+  toDialogueLine,
+  toSrt,
+  toWebVtt,
+  type PipelineProgress,
+} from '../core';
+import { getNodeSpeechProvider } from '../services/nodeProvider';
+import { createFfmpegExtractor, probeDuration } from './ffmpeg';
+
+const USAGE = `Usage: video2sound <video> [options]
+
+Options:
+  -g, --guidance <text>         What the scene is about, to steer the script
+  -v, --voice <speaker=voice>   Cast a speaker, e.g. "Speaker 1=Puck" (repeatable)
+  -f, --format <wav|flac>       Audio format (default: wav)
+      --bit-depth <16|24|32>    Audio bit depth; FLAC supports 16 and 24 (default: 16)
+  -s, --subtitles <srt|vtt>     Subtitle format (default: srt)
+  -o, --out <dir>               Where to write the files (default: the current directory)
+      --mode <lipread|dub>      Read lips, or transcribe and translate (default: lipread)
+      --language <language>     Language to dub into (default: ${DEFAULT_TARGET_LANGUAGE})
+      --no-effects              Skip sound effects
+      --music                   Score background music
+      --music-guidance <text>   What the music should sound like
+      --max-speedup <factor>    How much lines may be sped up to fit (default: 1.25)
+      --duration <seconds>      The video length, instead of asking ffprobe
+      --provider <gemini|mock>  Backend (default: gemini, which needs GEMINI_API_KEY)
+  -h, --help                    Show this help`;
+
+const AUDIO_FORMATS = ['wav', 'flac'] as const;
+const SUBTITLE_FORMATS = ['srt', 'vtt'] as const;
+
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+};
+
+/**
+ * A problem with the command line itself, reported with the usage text.
+ */
+class UsageError extends Error {}
+
+interface CliOptions {
+  video: string;
+  guidance: string;
+  voices: VoiceCasting;
+  format: (typeof AUDIO_FORMATS)[number];
+  bitDepth: 16 | 24 | 32;
+  subtitles: (typeof SUBTITLE_FORMATS)[number];
+  outDir: string;
+  mode: DialogueMode;
+  language: string;
+  effects: boolean;
+  music: boolean;
+  musicGuidance: string;
+  maxSpeedup: number;
+  duration: number | null;
+  provider: string | undefined;
+}
+
+function pickOne<T extends string>(name: string, value: string, choices: readonly T[]): T {
+  if (!choices.includes(value as T)) throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+  return value as T;
+}
+
+function readPositive(name: string, value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) throw new UsageError(`--${name} must be a positive number`);
+  return number;
+}
+
+/**
+ * Reads `Speaker=Voice` pairs, matching voice names case-insensitively.
+ */
+function parseCasting(pairs: string[]): VoiceCasting {
+  const casting: VoiceCasting = {};
+  for (const pair of pairs) {
+    const separator = pair.lastIndexOf('=');
+    const speaker = pair.slice(0, separator).trim();
+    const voice = PREBUILT_VOICES.find(profile => profile.name.toLowerCase() === pair.slice(separator + 1).trim().toLowerCase());
+    if (separator < 0 || !speaker) throw new UsageError(`--voice expects speaker=voice, got "${pair}"`);
+    if (!voice) throw new UsageError(`Unknown voice in "${pair}". Voices: ${PREBUILT_VOICES.map(profile => profile.name).join(', ')}`);
+    casting[speaker] = voice.name;
+  }
+  return casting;
+}
+
+/**
+ * Parses and validates the command line.
+ * @returns The options, or null when help was asked for.
+ */
+function parseCliArgs(args: string[]): CliOptions | null {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        guidance: { type: 'string', short: 'g', default: '' },
+        voice: { type: 'string', short: 'v', multiple: true, default: [] },
+        format: { type: 'string', short: 'f', default: 'wav' },
+        'bit-depth': { type: 'string', default: '16' },
+        subtitles: { type: 'string', short: 's', default: 'srt' },
+        out: { type: 'string', short: 'o', default: '.' },
+        mode: { type: 'string', default: 'lipread' },
+        language: { type: 'string', default: DEFAULT_TARGET_LANGUAGE },
+        'no-effects': { type: 'boolean', default: false },
+        music: { type: 'boolean', default: false },
+        'music-guidance': { type: 'string', default: '' },
+        'max-speedup': { type: 'string', default: '1.25' },
+        duration: { type: 'string' },
+        provider: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one video path');
+
+  const format = pickOne('format', values.format, AUDIO_FORMATS);
+  const bitDepth = Number(pickOne('bit-depth', values['bit-depth'], format === 'flac' ? ['16', '24'] : ['16', '24', '32'])) as 16 | 24 | 32;
+  const maxSpeedup = readPositive('max-speedup', values['max-speedup'])!;
+  if (maxSpeedup < 1) throw new UsageError('--max-speedup must be at least 1');
+
+  return {
+    video: positionals[0],
+    guidance: values.guidance,
+    voices: parseCasting(values.voice),
+    format,
+    bitDepth,
+    subtitles: pickOne('subtitles', values.subtitles, SUBTITLE_FORMATS),
+    outDir: values.out,
+    mode: pickOne('mode', values.mode, ['lipread', 'dub']),
+    language: values.language,
+    effects: !values['no-effects'],
+    music: values.music || values['music-guidance'] !== '',
+    musicGuidance: values['music-guidance'],
+    maxSpeedup,
+    duration: readPositive('duration', values.duration),
+    provider: values.provider === undefined ? undefined : pickOne('provider', values.provider, ['gemini', 'mock']),
+  };
+}
+
+/**
+ * Prints each step once, and counted steps as their count changes.
+ */
+function createProgressReporter(): (progress: PipelineProgress) => void {
+  let last = '';
+  return ({ step, completed, total }) => {
+    const text = total > 0 ? `${step} (${completed}/${total})` : step;
+    if (step && text !== last) process.stderr.write(`${text}...\n`);
+    last = text;
+  };
+}
+
+async function writeBlob(file: string, blob: Blob): Promise<void> {
+  await writeFile(file, Buffer.from(await blob.arrayBuffer()));
+}
+
+async function main(options: CliOptions, signal: AbortSignal): Promise<string[]> {
+  if (!existsSync(options.video)) throw new UsageError(`No such file: ${options.video}`);
+  const extension = path.extname(options.video).toLowerCase();
+  const type = VIDEO_MIME_TYPES[extension];
+  if (!type) throw new UsageError(`Unsupported video type "${extension}". Use one of ${Object.keys(VIDEO_MIME_TYPES).join(', ')}`);
+
+  const duration = options.duration ?? await probeDuration(options.video);
+  const blob = await openAsBlob(options.video, { type });
+  const file = new File([blob], path.basename(options.video), { type });
+  const provider = getNodeSpeechProvider(options.provider);
+
+  const { checkpoint, mix } = await runDialoguePipeline(file, options.video, duration, {
+    provider,
+    guidance: options.guidance,
+    mode: options.mode,
+    targetLanguage: options.language,
+    synthesize: createLineSynthesizer(provider, createRequestScheduler()),
+    voiceOverrides: options.voices,
+    maxSpeedup: options.maxSpeedup,
+    mixSettings: DEFAULT_MIX_SETTINGS,
+    soundEffectsEnabled: options.effects,
+    disabledCategories: [],
+    musicSettings: { ...DEFAULT_MUSIC_SETTINGS, enabled: options.music, guidance: options.musicGuidance },
+    render: renderMixToPcm,
+    extractSegment: createFfmpegExtractor(options.video),
+    signal,
+    onProgress: createProgressReporter(),
+  });
+
+  if (checkpoint.rejected.length > 0) {
+    console.warn(`${checkpoint.rejected.length} script lines could not be read and were left out.`);
+  }
+  for (const [id, reason] of Object.entries(checkpoint.failures)) {
+    const line = checkpoint.lines.find(candidate => candidate.id === id);
+    console.warn(`Could not voice "${line?.text ?? id}": ${reason}`);
+  }
+  if (checkpoint.lines.length > 0 && checkpoint.lines.every(line => !checkpoint.clips[line.id])) {
+    throw new Error('None of the lines could be voiced.');
+  }
+  if (!mix) throw new Error('No dialogue, sound effects or music were found in the video.');
+
+  await mkdir(options.outDir, { recursive: true });
+  const base = path.join(options.outDir, path.parse(options.video).name);
+  const written = [`${base}.json`, `${base}.${options.subtitles}`, `${base}.${options.format}`];
+
+  // The same shape the app imports, so a script can be reopened and edited there.
+  const script = { lines: checkpoint.lines.map(toDialogueLine), speakers: checkpoint.speakers };
+  await writeFile(written[0], `${JSON.stringify(script, null, 2)}\n`);
+
+  const cues = buildSubtitleCues(checkpoint.lines, checkpoint.clips, mix.fits);
+  const subtitleOptions = { includeSpeaker: true, includeCue: false };
+  await writeFile(written[1], options.subtitles === 'srt' ? toSrt(cues, subtitleOptions) : toWebVtt(cues, subtitleOptions));
+
+  const audio = options.format === 'flac'
+    ? encodeFlac(mix.buffer, options.bitDepth as 16 | 24)
+    : audioBufferToWavBlob(mix.buffer, options.bitDepth);
+  await writeBlob(written[2], audio);
+  return written;
+}
+
+// Share `.env.local` with the app and the API server; variables already set take precedence.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const controller = new AbortController();
+process.once('SIGINT', () => {
+  process.stderr.write('Cancelling...\n');
+  controller.abort();
+  process.once('SIGINT', () => process.exit(130));
+});
+
+try {
+  const options = parseCliArgs(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+  } else {
+    const written = await main(options, controller.signal);
+    for (const file of written) console.log(file);
+  }
+} catch (error) {
+  if (error instanceof UsageError) {
+    console.error(`video2sound: ${error.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else if (error instanceof DOMException && error.name === 'AbortError') {
+    console.error('video2sound: cancelled');
+    process.exitCode = 130;
+  } else {
+    console.error(`video2sound: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
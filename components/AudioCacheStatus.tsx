@@ -0,0 +1,37 @@
+import React from 'react';
+import type { AudioCacheStats } from '../services/audioCache';
+
+interface AudioCacheStatusProps {
+  stats: AudioCacheStats;
+  /** How the most recent synthesis pass was served, or null before the first one. */
+  lastRun: { cached: number; synthesized: number } | null;
+  disabled: boolean;
+  onClear: () => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const AudioCacheStatus: React.FC<AudioCacheStatusProps> = ({ stats, lastRun, disabled, onClear }) => {
+  if (!lastRun && stats.hits === 0 && stats.storedBytes === 0) return null;
+
+  return (
+    <div className="w-full px-4 py-2 bg-gray-700/50 rounded-lg flex flex-wrap items-center justify-between gap-2 text-sm text-gray-300">
+      <p>
+        {lastRun && (
+          <>
+            Last run reused <span className="font-semibold text-white">{lastRun.cached}</span> of {lastRun.cached + lastRun.synthesized} clips.{' '}
+          </>
+        )}
+        <span className="font-semibold text-white">{stats.hits}</span> {stats.hits === 1 ? 'API call' : 'API calls'} saved this session
+        <span className="text-gray-400"> · {formatMegabytes(stats.storedBytes)} cached</span>
+      </p>
+      <button
+        onClick={onClear}
+        disabled={disabled}
+        className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+      >
+        Clear Audio Cache
+      </button>
+    </div>
+  );
+};
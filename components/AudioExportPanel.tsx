@@ -0,0 +1,193 @@
+import React from 'react';
+import type { WavBitDepth } from '../utils/audioUtils';
+import { SAMPLE_RATE_CHOICES, type AudioExportFormat, type AudioExportOptions } from '../utils/audioExport';
+
+interface AudioExportPanelProps {
+  options: AudioExportOptions;
+  progress: number | null;
+  disabled: boolean;
+  opusSupported: boolean;
+  onOptionsChange: (options: AudioExportOptions) => void;
+  onExport: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const WaveIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+    </svg>
+);
+
+const FORMATS: { value: AudioExportFormat; label: string; hint: string }[] = [
+  { value: 'wav', label: 'WAV', hint: 'Uncompressed PCM, the most compatible choice for editors.' },
+  { value: 'flac', label: 'FLAC', hint: 'Lossless and about half the size of WAV.' },
+  { value: 'opus', label: 'Opus', hint: 'Small lossy file for sharing. Encodes in real time.' },
+];
+
+const BIT_DEPTHS: Record<AudioExportFormat, { value: WavBitDepth; label: string }[]> = {
+  wav: [
+    { value: 16, label: '16-bit' },
+    { value: 24, label: '24-bit' },
+    { value: 32, label: '32-bit float' },
+  ],
+  flac: [
+    { value: 16, label: '16-bit' },
+    { value: 24, label: '24-bit' },
+  ],
+  opus: [],
+};
+
+const LOUDNESS_PRESETS = [
+  { value: -14, label: '-14 LUFS (music streaming)' },
+  { value: -16, label: '-16 LUFS (podcasts)' },
+  { value: -23, label: '-23 LUFS (EBU R128 broadcast)' },
+];
+
+export const AudioExportPanel: React.FC<AudioExportPanelProps> = ({ options, progress, disabled, opusSupported, onOptionsChange, onExport, onCancel, onClose }) => {
+  const isExporting = progress !== null;
+  const controlsDisabled = disabled || isExporting;
+  const update = (changes: Partial<AudioExportOptions>) => onOptionsChange({ ...options, ...changes });
+
+  const selectFormat = (format: AudioExportFormat) => {
+    // FLAC has no float samples, so fall back to its highest integer depth.
+    const bitDepth = format === 'flac' && options.bitDepth === 32 ? 24 : options.bitDepth;
+    update({ format, bitDepth });
+  };
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+          <WaveIcon />
+          Export Audio
+        </h3>
+        <button
+          onClick={onClose}
+          disabled={isExporting}
+          aria-label="Close audio export"
+          className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Audio format">
+        {FORMATS.filter(format => format.value !== 'opus' || opusSupported).map(format => (
+          <button
+            key={format.value}
+            role="radio"
+            aria-checked={options.format === format.value}
+            title={format.hint}
+            disabled={controlsDisabled}
+            onClick={() => selectFormat(format.value)}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors disabled:opacity-50 ${
+              options.format === format.value ? 'bg-purple-600/60 border-purple-400 text-white' : 'bg-gray-800/40 border-gray-600 text-gray-300'
+            }`}
+          >
+            {format.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-sm text-gray-300">
+        {options.format === 'opus' ? (
+          <>
+            <label htmlFor="opus-bitrate">Bitrate</label>
+            <div className="flex items-center gap-2">
+              <input
+                id="opus-bitrate"
+                type="range"
+                min={32}
+                max={256}
+                step={16}
+                value={options.opusBitrateKbps}
+                disabled={controlsDisabled}
+                onChange={(e) => update({ opusBitrateKbps: parseInt(e.target.value, 10) })}
+                className="flex-grow accent-purple-500"
+              />
+              <span className="w-20 text-right">{options.opusBitrateKbps} kbit/s</span>
+            </div>
+          </>
+        ) : (
+          <>
+            <label htmlFor="audio-bit-depth">Bit depth</label>
+            <select
+              id="audio-bit-depth"
+              value={options.bitDepth}
+              disabled={controlsDisabled}
+              onChange={(e) => update({ bitDepth: parseInt(e.target.value, 10) as WavBitDepth })}
+              className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 disabled:opacity-50"
+            >
+              {BIT_DEPTHS[options.format].map(depth => (
+                <option key={depth.value} value={depth.value}>{depth.label}</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        <label htmlFor="audio-sample-rate">Sample rate</label>
+        <select
+          id="audio-sample-rate"
+          value={options.sampleRate}
+          disabled={controlsDisabled}
+          onChange={(e) => update({ sampleRate: parseInt(e.target.value, 10) })}
+          className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 disabled:opacity-50"
+        >
+          {SAMPLE_RATE_CHOICES.map(rate => (
+            <option key={rate} value={rate}>{(rate / 1000).toLocaleString()} kHz</option>
+          ))}
+        </select>
+
+        <label htmlFor="audio-normalize">Normalize</label>
+        <div className="flex items-center gap-2">
+          <input
+            id="audio-normalize"
+            type="checkbox"
+            checked={options.normalize}
+            disabled={controlsDisabled}
+            onChange={(e) => update({ normalize: e.target.checked })}
+            className="accent-purple-500"
+          />
+          <select
+            aria-label="Target loudness"
+            value={options.targetLufs}
+            disabled={controlsDisabled || !options.normalize}
+            onChange={(e) => update({ targetLufs: parseFloat(e.target.value) })}
+            className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 disabled:opacity-50"
+          >
+            {LOUDNESS_PRESETS.map(preset => (
+              <option key={preset.value} value={preset.value}>{preset.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isExporting ? (
+        <div className="flex items-center gap-3">
+          <div className="flex-grow h-2 bg-gray-900/60 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <span className="text-sm text-gray-300 w-10 text-right">{Math.round(progress * 100)}%</span>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={onExport}
+          disabled={disabled}
+          className="self-start px-4 py-2 text-sm font-semibold rounded-md bg-green-600 hover:bg-green-700 transition-colors disabled:opacity-50"
+        >
+          Download {FORMATS.find(format => format.value === options.format)?.label}
+        </button>
+      )}
+      <p className="text-xs text-gray-400">
+        The mix is re-rendered at the chosen sample rate. Normalization measures integrated loudness (ITU-R BS.1770) and never lets peaks exceed -1 dBFS.
+      </p>
+    </div>
+  );
+};
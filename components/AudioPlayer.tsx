@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { LineFit, ScriptLine } from '../types';
+import { formatTimestamp, sortLinesByTime } from '../utils/dialogueUtils';
+import { computePeaks, computeSpectrogram, downmixToMono, SPECTROGRAM_FLOOR_DB } from '../utils/waveform';
+
+interface AudioPlayerProps {
+  /** The stitched mix to display. */
+  buffer: AudioBuffer;
+  lines: ScriptLine[];
+  fits: Record<string, LineFit>;
+  isPlaying: boolean;
+  /** Reads the playback position from the video, which is the clock everything follows. */
+  getCurrentTime: () => number;
+  onSeek: (time: number) => void;
+}
+
+type ViewMode = 'waveform' | 'spectrogram';
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const HEIGHT = 128;
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32, 64];
+// Pointer movement (in px) below which a press counts as a click-to-seek rather than a loop selection.
+const DRAG_THRESHOLD = 3;
+const MIN_LOOP_SECONDS = 0.1;
+// Canvas versions of DialogueTimeline's lane colours, so speakers match across both views.
+const SPEAKER_COLORS = ['#a855f7', '#6366f1', '#ec4899', '#14b8a6', '#f59e0b', '#0ea5e9'];
+// Spectrogram colour map from quiet to loud.
+const HEAT_STOPS: [number, number, number][] = [[17, 24, 39], [88, 28, 135], [192, 38, 211], [249, 115, 22], [253, 224, 71]];
+const SPECTROGRAM_CEILING_DB = -20;
+
+const heatColor = (level: number): [number, number, number] => {
+  const position = Math.min(1, Math.max(0, level)) * (HEAT_STOPS.length - 1);
+  const index = Math.min(HEAT_STOPS.length - 2, Math.floor(position));
+  const t = position - index;
+  const [a, b] = [HEAT_STOPS[index], HEAT_STOPS[index + 1]];
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+};
+
+const WaveIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3 12h2l2-6 4 12 4-9 2 3h4" />
+    </svg>
+);
+
+/**
+ * Prepares a canvas for drawing at the screen's pixel density.
+ */
+function setupCanvas(canvas: HTMLCanvasElement, width: number): CanvasRenderingContext2D | null {
+  const ratio = window.devicePixelRatio || 1;
+  if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(HEIGHT * ratio)) {
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(HEIGHT * ratio);
+  }
+  const ctx = canvas.getContext('2d');
+  ctx?.setTransform(ratio, 0, 0, ratio, 0, 0);
+  return ctx;
+}
+
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ buffer, lines, fits, isPlaying, getCurrentTime, onSeek }) => {
+  const [viewMode, setViewMode] = useState<ViewMode>('waveform');
+  const [zoom, setZoom] = useState<number>(1);
+  const [viewStart, setViewStart] = useState<number>(0);
+  const [loop, setLoop] = useState<TimeRange | null>(null);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [width, setWidth] = useState<number>(0);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const baseCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ startX: number; startTime: number; moved: boolean } | null>(null);
+
+  const duration = buffer.duration;
+  const visibleSeconds = duration / zoom;
+  const clampedStart = Math.min(Math.max(0, viewStart), Math.max(0, duration - visibleSeconds));
+  const view: TimeRange = { start: clampedStart, end: clampedStart + visibleSeconds };
+
+  const samples = useMemo(() => downmixToMono(buffer), [buffer]);
+  const sortedLines = useMemo(() => sortLinesByTime(lines), [lines]);
+  const speakers = useMemo(() => Array.from(new Set(sortedLines.map(line => line.speaker))).sort(), [sortedLines]);
+
+  const timeToX = (time: number) => ((time - view.start) / visibleSeconds) * width;
+  const xToTime = (x: number) => Math.min(duration, Math.max(0, view.start + (x / width) * visibleSeconds));
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    // A new mix may be shorter than the loop that was set on the old one.
+    setLoop(previous => (previous && previous.end <= buffer.duration ? previous : null));
+  }, [buffer]);
+
+  useEffect(() => {
+    const canvas = baseCanvasRef.current;
+    if (!canvas || width === 0) return;
+    const ctx = setupCanvas(canvas, width);
+    if (!ctx) return;
+
+    const startSample = view.start * buffer.sampleRate;
+    const endSample = view.end * buffer.sampleRate;
+    ctx.clearRect(0, 0, width, HEIGHT);
+
+    if (viewMode === 'waveform') {
+      const { min, max } = computePeaks(samples, startSample, endSample, width);
+      ctx.fillStyle = '#c084fc';
+      for (let x = 0; x < width; x++) {
+        const top = ((1 - max[x]) / 2) * HEIGHT;
+        const bottom = ((1 - min[x]) / 2) * HEIGHT;
+        ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+      }
+    } else {
+      const spectra = computeSpectrogram(samples, startSample, endSample, width);
+      const bins = spectra[0]?.length ?? 0;
+      const image = ctx.createImageData(width, HEIGHT);
+      for (let x = 0; x < width; x++) {
+        for (let y = 0; y < HEIGHT; y++) {
+          const bin = Math.floor(((HEIGHT - 1 - y) / HEIGHT) * bins);
+          const level = (spectra[x][bin] - SPECTROGRAM_FLOOR_DB) / (SPECTROGRAM_CEILING_DB - SPECTROGRAM_FLOOR_DB);
+          const [r, g, b] = heatColor(level);
+          const offset = (y * width + x) * 4;
+          image.data[offset] = r;
+          image.data[offset + 1] = g;
+          image.data[offset + 2] = b;
+          image.data[offset + 3] = 255;
+        }
+      }
+      // putImageData ignores the canvas transform, so go through a scratch canvas to scale for the pixel density.
+      const scratch = document.createElement('canvas');
+      scratch.width = width;
+      scratch.height = HEIGHT;
+      scratch.getContext('2d')?.putImageData(image, 0, 0);
+      ctx.drawImage(scratch, 0, 0, width, HEIGHT);
+    }
+
+    for (const line of sortedLines) {
+      if (line.time < view.start || line.time > view.end) continue;
+      const color = SPEAKER_COLORS[speakers.indexOf(line.speaker) % SPEAKER_COLORS.length];
+      const x = timeToX(line.time);
+      const fit = fits[line.id];
+      if (fit) {
+        ctx.fillStyle = `${color}33`;
+        ctx.fillRect(x, 0, timeToX(line.time + fit.fittedSeconds) - x, HEIGHT);
+      }
+      ctx.fillStyle = color;
+      ctx.fillRect(x, 0, 2, HEIGHT);
+      ctx.font = '10px sans-serif';
+      ctx.fillText(line.speaker, x + 4, 11);
+    }
+  }, [buffer, samples, viewMode, width, view.start, view.end, sortedLines, speakers, fits]);
+
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
+    if (!canvas || width === 0) return;
+
+    let lastDrawn: number | null = null;
+    const draw = (time: number) => {
+      const ctx = setupCanvas(canvas, width);
+      if (!ctx) return;
+      ctx.clearRect(0, 0, width, HEIGHT);
+      for (const [range, color] of [[loop, 'rgba(34, 197, 94, 0.2)'], [selection, 'rgba(255, 255, 255, 0.15)']] as const) {
+        if (!range) continue;
+        ctx.fillStyle = color;
+        ctx.fillRect(timeToX(range.start), 0, timeToX(range.end) - timeToX(range.start), HEIGHT);
+      }
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(Math.round(timeToX(time)), 0, 1, HEIGHT);
+      lastDrawn = time;
+    };
+
+    // Runs while paused too, so seeks made elsewhere (e.g. from the timeline) move the playhead.
+    let frame = 0;
+    const tick = () => {
+      const time = getCurrentTime();
+      if (isPlaying && loop && time >= loop.end) {
+        onSeek(loop.start);
+      } else if (isPlaying && zoom > 1 && (time < view.start || time > view.end)) {
+        // Page the view along with the playhead.
+        setViewStart(time - visibleSeconds * 0.1);
+      }
+      if (time !== lastDrawn) draw(time);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, width, loop, selection, view.start, view.end, zoom]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    dragRef.current = { startX: e.clientX, startTime: xToTime(x), moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (!drag.moved && Math.abs(e.clientX - drag.startX) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    const time = xToTime(e.clientX - e.currentTarget.getBoundingClientRect().left);
+    setSelection({ start: Math.min(drag.startTime, time), end: Math.max(drag.startTime, time) });
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (!drag.moved) {
+      onSeek(drag.startTime);
+    } else if (selection && selection.end - selection.start >= MIN_LOOP_SECONDS) {
+      setLoop(selection);
+      onSeek(selection.start);
+    }
+    setSelection(null);
+  };
+
+  const changeZoom = (direction: 1 | -1) => {
+    const next = ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, Math.max(0, ZOOM_LEVELS.indexOf(zoom) + direction))];
+    // Keep the playhead in view while zooming.
+    setViewStart(getCurrentTime() - duration / next / 2);
+    setZoom(next);
+  };
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+          <WaveIcon />
+          Mix Overview
+        </h3>
+        <div className="flex items-center gap-2 text-sm">
+          <div className="flex rounded-md overflow-hidden border border-gray-600" role="radiogroup" aria-label="Display">
+            {(['waveform', 'spectrogram'] as const).map(mode => (
+              <button
+                key={mode}
+                role="radio"
+                aria-checked={viewMode === mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-2 py-1 capitalize transition-colors ${viewMode === mode ? 'bg-purple-600/60 text-white' : 'bg-gray-800/40 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => changeZoom(-1)}
+            disabled={zoom === ZOOM_LEVELS[0]}
+            aria-label="Zoom out"
+            className="w-7 h-7 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+          >
+            −
+          </button>
+          <span className="w-8 text-center text-gray-300">{zoom}×</span>
+          <button
+            onClick={() => changeZoom(1)}
+            disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+            aria-label="Zoom in"
+            className="w-7 h-7 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="relative w-full rounded-md overflow-hidden bg-gray-900/60" style={{ height: HEIGHT }}>
+        <canvas ref={baseCanvasRef} className="absolute inset-0 w-full h-full" />
+        <canvas
+          ref={overlayCanvasRef}
+          className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+
+      {zoom > 1 && (
+        <input
+          type="range"
+          aria-label="Scroll"
+          min={0}
+          max={Math.max(0, duration - visibleSeconds)}
+          step={0.01}
+          value={view.start}
+          onChange={(e) => setViewStart(parseFloat(e.target.value))}
+          className="w-full accent-purple-500"
+        />
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+        <span>{formatTimestamp(view.start)} – {formatTimestamp(view.end)}</span>
+        {loop ? (
+          <span className="flex items-center gap-2 text-green-300">
+            Looping {formatTimestamp(loop.start)} – {formatTimestamp(loop.end)}
+            <button onClick={() => setLoop(null)} className="text-gray-300 hover:text-white">Clear loop</button>
+          </span>
+        ) : (
+          <span>Click to seek. Drag across a region to loop it.</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import type { BatchJob, BatchJobStatus, BatchSettings } from '../services/batchQueue';
+import { getSpeakerProfiles, PREBUILT_VOICES } from '../services/voices';
+import { DialogueModePanel } from './DialogueModePanel';
+
+interface BatchPanelProps {
+  jobs: BatchJob[];
+  paused: boolean;
+  settings: BatchSettings;
+  onSettingsChange: (settings: BatchSettings) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: (id?: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onDownloadAll: () => Promise<void>;
+}
+
+const StackIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+    </svg>
+);
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-purple-300',
+  done: 'text-green-400',
+  failed: 'text-red-300',
+  cancelled: 'text-gray-500',
+};
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  jobs,
+  paused,
+  settings,
+  onSettingsChange,
+  onPause,
+  onResume,
+  onCancel,
+  onRetry,
+  onRemove,
+  onDownloadAll,
+}) => {
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
+
+  // Speakers found so far; casting them here applies to the videos still to come.
+  const speakers = useMemo(
+    () => getSpeakerProfiles(jobs.flatMap(job => job.result?.lines ?? [])),
+    [jobs]
+  );
+  const finishedCount = jobs.filter(job => job.status === 'done').length;
+  const hasUnfinished = jobs.some(job => job.status === 'queued' || job.status === 'running');
+
+  const update = (patch: Partial<BatchSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  const handleVoiceChange = (speaker: string, voiceName: string) => {
+    const voiceOverrides = { ...settings.voiceOverrides };
+    if (voiceName) voiceOverrides[speaker] = voiceName;
+    else delete voiceOverrides[speaker];
+    update({ voiceOverrides });
+  };
+
+  const handleDownloadAll = async () => {
+    setIsArchiving(true);
+    setArchiveError(null);
+    try {
+      await onDownloadAll();
+    } catch (err) {
+      console.error(err);
+      setArchiveError('Could not build the archive. Please try again.');
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+          <StackIcon />
+          Batch Queue
+          <span className="text-sm font-normal text-gray-400">{finishedCount} of {jobs.length} done</span>
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={paused ? onResume : onPause}
+            disabled={!hasUnfinished}
+            className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+          >
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          <button
+            onClick={() => onCancel()}
+            disabled={!hasUnfinished}
+            className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+          >
+            Cancel All
+          </button>
+          <button
+            onClick={handleDownloadAll}
+            disabled={finishedCount === 0 || isArchiving}
+            className="px-3 py-1 text-sm font-semibold rounded-md bg-green-600 hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {isArchiving ? 'Packing…' : 'Download All'}
+          </button>
+        </div>
+      </div>
+
+      <ul className="flex flex-col gap-2">
+        {jobs.map(job => (
+          <li key={job.id} className="flex flex-wrap items-center gap-2 p-2 bg-gray-800/40 rounded-md">
+            <div className="flex-grow min-w-[10rem]">
+              <p className="text-sm font-semibold text-gray-200 truncate" title={job.file.name}>{job.file.name}</p>
+              <p className={`text-xs ${STATUS_STYLES[job.status]}`}>
+                {STATUS_LABELS[job.status]}
+                {job.status === 'running' && job.step && ` · ${job.step}`}
+                {job.status === 'running' && job.progress && ` ${job.progress.completed}/${job.progress.total}`}
+                {job.status === 'running' && paused && ' · paused'}
+                {job.status === 'done' && job.result && (
+                  ` · ${job.result.lines.length} lines` +
+                  (job.result.failedLineCount > 0 ? `, ${job.result.failedLineCount} could not be voiced` : '')
+                )}
+              </p>
+              {job.error && <p className="text-xs text-red-300">{job.error}</p>}
+            </div>
+            {(job.status === 'queued' || job.status === 'running') && (
+              <button onClick={() => onCancel(job.id)} className="text-xs text-gray-400 hover:text-purple-300">
+                cancel
+              </button>
+            )}
+            {(job.status === 'failed' || job.status === 'cancelled') && (
+              <button onClick={() => onRetry(job.id)} className="text-xs text-gray-400 hover:text-purple-300">
+                {job.checkpoint ? 'resume' : 'retry'}
+              </button>
+            )}
+            {job.status !== 'running' && (
+              <button onClick={() => onRemove(job.id)} className="text-xs text-gray-400 hover:text-purple-300">
+                remove
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {archiveError && <p className="text-sm text-red-300">{archiveError}</p>}
+
+      <p className="text-sm text-gray-400">
+        Every video uses the settings below. Changes apply to videos that have not started yet.
+      </p>
+      <input
+        type="text"
+        placeholder="Guidance for every video, e.g. 'casual chat between friends'"
+        value={settings.guidance}
+        onChange={(e) => update({ guidance: e.target.value })}
+        className="w-full bg-gray-900/40 border border-gray-600 text-gray-300 py-2 px-3 rounded-md leading-tight focus:outline-none focus:bg-gray-700/50 focus:border-purple-500 placeholder-gray-500"
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.soundEffectsEnabled}
+          onChange={(e) => update({ soundEffectsEnabled: e.target.checked })}
+          className="accent-purple-500"
+        />
+        Detect and add sound effects
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.musicSettings.enabled}
+          onChange={(e) => update({ musicSettings: { ...settings.musicSettings, enabled: e.target.checked } })}
+          className="accent-purple-500"
+        />
+        Score background music
+      </label>
+      {settings.musicSettings.enabled && (
+        <input
+          type="text"
+          placeholder="Music for every video, e.g. 'warm acoustic, 90 bpm'"
+          value={settings.musicSettings.guidance}
+          onChange={(e) => update({ musicSettings: { ...settings.musicSettings, guidance: e.target.value } })}
+          className="w-full bg-gray-900/40 border border-gray-600 text-gray-300 py-2 px-3 rounded-md leading-tight focus:outline-none focus:bg-gray-700/50 focus:border-purple-500 placeholder-gray-500"
+        />
+      )}
+      <DialogueModePanel
+        mode={settings.mode}
+        targetLanguage={settings.targetLanguage}
+        disabled={false}
+        onModeChange={(mode) => update({ mode })}
+        onTargetLanguageChange={(targetLanguage) => update({ targetLanguage })}
+      />
+
+      {speakers.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <p className="text-sm text-gray-300">Shared casting</p>
+          {speakers.map(profile => (
+            <div key={profile.speaker} className="flex items-center gap-2 text-sm">
+              <span className="flex-grow text-gray-300 truncate">{profile.speaker}</span>
+              <select
+                value={settings.voiceOverrides[profile.speaker] ?? ''}
+                onChange={(e) => handleVoiceChange(profile.speaker, e.target.value)}
+                className="bg-gray-900/40 border border-gray-600 text-gray-300 py-1 px-2 rounded-md text-sm focus:outline-none focus:border-purple-500"
+                aria-label={`Voice for ${profile.speaker}`}
+              >
+                <option value="">Suggested for each video</option>
+                {PREBUILT_VOICES.map(voice => (
+                  <option key={voice.name} value={voice.name}>{voice.name} — {voice.style} ({voice.gender})</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
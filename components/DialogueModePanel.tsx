@@ -0,0 +1,73 @@
+import React from 'react';
+import type { DialogueMode } from '../types';
+import { TARGET_LANGUAGES } from '../services/dubbing';
+
+interface DialogueModePanelProps {
+  mode: DialogueMode;
+  targetLanguage: string;
+  disabled: boolean;
+  onModeChange: (mode: DialogueMode) => void;
+  onTargetLanguageChange: (language: string) => void;
+}
+
+const GlobeIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" />
+    </svg>
+);
+
+const MODES: { value: DialogueMode; label: string; hint: string }[] = [
+  { value: 'lipread', label: 'Lip-read silent footage', hint: 'Invent dialogue that matches the mouth movements.' },
+  { value: 'dub', label: 'Dub existing speech', hint: 'Transcribe what is said, translate it and re-voice it.' },
+];
+
+export const DialogueModePanel: React.FC<DialogueModePanelProps> = ({ mode, targetLanguage, disabled, onModeChange, onTargetLanguageChange }) => {
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+        <GlobeIcon />
+        Dialogue Source
+      </h3>
+
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Dialogue source">
+        {MODES.map(option => (
+          <button
+            key={option.value}
+            role="radio"
+            aria-checked={mode === option.value}
+            title={option.hint}
+            disabled={disabled}
+            onClick={() => onModeChange(option.value)}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors disabled:opacity-50 ${
+              mode === option.value ? 'bg-purple-600/60 border-purple-400 text-white' : 'bg-gray-800/40 border-gray-600 text-gray-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'dub' && (
+        <>
+          <div className="flex items-center gap-3 text-sm text-gray-300">
+            <label htmlFor="target-language">Translate into</label>
+            <select
+              id="target-language"
+              value={targetLanguage}
+              disabled={disabled}
+              onChange={(e) => onTargetLanguageChange(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 disabled:opacity-50"
+            >
+              {TARGET_LANGUAGES.map(language => (
+                <option key={language} value={language}>{language}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-400">
+            The original speech is transcribed with each speaker told apart, then translated to roughly the same length. Choose whether the original audio is ducked or replaced under Export Video; playback here follows the same setting.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { LineFit, ScriptLine } from '../types';
+import { createLineId, formatTimestamp, sortLinesByTime } from '../utils/dialogueUtils';
+
+interface DialogueTimelineProps {
+  lines: ScriptLine[];
+  duration: number;
+  staleLineIds: Set<string>;
+  fits: Record<string, LineFit>;
+  maxSpeedup: number;
+  hasPendingChanges: boolean;
+  disabled: boolean;
+  getCurrentTime: () => number;
+  onLinesChange: (lines: ScriptLine[]) => void;
+  onSeek: (time: number) => void;
+  onApply: () => void;
+  onMaxSpeedupChange: (value: number) => void;
+}
+
+const LANE_COLORS = ['bg-purple-500', 'bg-indigo-500', 'bg-pink-500', 'bg-teal-500', 'bg-amber-500', 'bg-sky-500'];
+
+// Pointer movement (in px) below which a press on a line block counts as a click.
+const DRAG_THRESHOLD = 3;
+
+const TrashIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+);
+
+export const DialogueTimeline: React.FC<DialogueTimelineProps> = ({
+  lines,
+  duration,
+  staleLineIds,
+  fits,
+  maxSpeedup,
+  hasPendingChanges,
+  disabled,
+  getCurrentTime,
+  onLinesChange,
+  onSeek,
+  onApply,
+  onMaxSpeedupChange,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ id: string; startX: number; startTime: number; moved: boolean } | null>(null);
+
+  const sortedLines = useMemo(() => sortLinesByTime(lines), [lines]);
+  const speakers = useMemo(() => Array.from(new Set(sortedLines.map(line => line.speaker))).sort(), [sortedLines]);
+  const timelineDuration = Math.max(duration, ...lines.map(line => line.time + 1), 1);
+
+  const updateLine = (id: string, changes: Partial<ScriptLine>) => {
+    onLinesChange(lines.map(line => (line.id === id ? { ...line, ...changes } : line)));
+  };
+
+  const handleSelect = (line: ScriptLine) => {
+    setSelectedId(line.id);
+    onSeek(line.time);
+  };
+
+  const handleDelete = (id: string) => {
+    onLinesChange(lines.filter(line => line.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleAdd = () => {
+    const template = lines.find(line => line.id === selectedId) ?? sortedLines[sortedLines.length - 1];
+    const newLine: ScriptLine = {
+      id: createLineId(),
+      time: Math.round(Math.min(getCurrentTime(), timelineDuration) * 1000) / 1000,
+      speaker: template?.speaker ?? 'Speaker 1',
+      age: template?.age ?? 'Adult',
+      gender: template?.gender ?? 'Female',
+      performanceCue: 'neutral',
+      text: '',
+    };
+    onLinesChange([...lines, newLine]);
+    setSelectedId(newLine.id);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, line: ScriptLine) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { id: line.id, startX: e.clientX, startTime: line.time, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const track = trackRef.current;
+    if (!drag || !track) return;
+    const dx = e.clientX - drag.startX;
+    if (!drag.moved && Math.abs(dx) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    const seconds = drag.startTime + (dx / track.clientWidth) * timelineDuration;
+    const clamped = Math.min(Math.max(seconds, 0), timelineDuration);
+    updateLine(drag.id, { time: Math.round(clamped * 1000) / 1000 });
+  };
+
+  const handlePointerUp = (line: ScriptLine) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) {
+      handleSelect(line);
+    } else if (drag) {
+      setSelectedId(drag.id);
+    }
+  };
+
+  const describeFit = (fit: LineFit | undefined): { label: string; className: string } | null => {
+    if (!fit) return null;
+    if (fit.trimmedSeconds > 0) {
+      return { label: `${fit.speedFactor.toFixed(2)}× faster, trimmed ${fit.trimmedSeconds.toFixed(2)}s`, className: 'text-red-300' };
+    }
+    if (fit.speedFactor > 1) {
+      return { label: `${fit.speedFactor.toFixed(2)}× faster to fit`, className: 'text-amber-300' };
+    }
+    return { label: `fits (${fit.fittedSeconds.toFixed(2)}s of ${fit.windowSeconds.toFixed(2)}s)`, className: 'text-gray-400' };
+  };
+
+  const inputClass = 'bg-gray-900/40 border border-gray-600 text-gray-300 py-1 px-2 rounded-md text-sm focus:outline-none focus:border-purple-500 disabled:opacity-50';
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-purple-300">Dialogue Timeline</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={handleAdd}
+            disabled={disabled}
+            className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+          >
+            + Add Line
+          </button>
+          <button
+            onClick={onApply}
+            disabled={disabled || !hasPendingChanges}
+            className="px-3 py-1 text-sm font-semibold rounded-md bg-purple-600 hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {staleLineIds.size > 0 ? `Re-synthesize ${staleLineIds.size} Changed` : 'Apply Timing'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 text-sm text-gray-300">
+        <label htmlFor="max-speedup" title="How much a line may be sped up to fit its lip-movement window before it is trimmed">
+          Max speed-up
+        </label>
+        <input
+          id="max-speedup"
+          type="range"
+          min={1}
+          max={2}
+          step={0.05}
+          value={maxSpeedup}
+          disabled={disabled}
+          onChange={(e) => onMaxSpeedupChange(parseFloat(e.target.value))}
+          className="flex-grow accent-purple-500"
+        />
+        <span className="w-12 text-right font-mono">{maxSpeedup.toFixed(2)}×</span>
+      </div>
+
+      <div ref={trackRef} className="relative w-full bg-gray-900/50 rounded-md select-none" style={{ height: `${Math.max(speakers.length, 1) * 28 + 8}px` }}>
+        {sortedLines.map(line => {
+          const lane = speakers.indexOf(line.speaker);
+          const isStale = staleLineIds.has(line.id);
+          return (
+            <div
+              key={line.id}
+              title={`${formatTimestamp(line.time)} ${line.speaker}: ${line.text}`}
+              onPointerDown={(e) => handlePointerDown(e, line)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => handlePointerUp(line)}
+              className={`absolute h-6 px-2 min-w-[1.5rem] truncate rounded text-xs leading-6 text-white cursor-grab active:cursor-grabbing ${LANE_COLORS[lane % LANE_COLORS.length]} ${selectedId === line.id ? 'ring-2 ring-white' : ''} ${isStale ? 'opacity-60 border border-dashed border-white' : ''}`}
+              style={{
+                left: `${(line.time / timelineDuration) * 100}%`,
+                top: `${lane * 28 + 4}px`,
+                width: fits[line.id] ? `${(fits[line.id].fittedSeconds / timelineDuration) * 100}%` : undefined,
+                maxWidth: fits[line.id] ? undefined : '40%',
+              }}
+            >
+              {line.text || '…'}
+            </div>
+          );
+        })}
+      </div>
+
+      <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto pr-1">
+        {sortedLines.map(line => {
+          const fit = describeFit(fits[line.id]);
+          return (
+            <li
+              key={line.id}
+              onClick={() => setSelectedId(line.id)}
+              className={`p-2 rounded-md border ${selectedId === line.id ? 'border-purple-400 bg-gray-800/80' : 'border-transparent bg-gray-800/40'}`}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => handleSelect(line)}
+                  className="text-xs font-mono text-purple-300 hover:text-purple-200"
+                  title="Seek video to this line"
+                >
+                  {formatTimestamp(line.time)}
+                </button>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  value={line.time}
+                  disabled={disabled}
+                  onChange={(e) => updateLine(line.id, { time: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className={`${inputClass} w-24`}
+                  aria-label="Start time in seconds"
+                />
+                <input
+                  value={line.speaker}
+                  disabled={disabled}
+                  onChange={(e) => updateLine(line.id, { speaker: e.target.value })}
+                  className={`${inputClass} w-28`}
+                  aria-label="Speaker"
+                />
+                <input
+                  value={line.age}
+                  disabled={disabled}
+                  onChange={(e) => updateLine(line.id, { age: e.target.value })}
+                  className={`${inputClass} w-24`}
+                  aria-label="Age"
+                />
+                <input
+                  value={line.gender}
+                  disabled={disabled}
+                  onChange={(e) => updateLine(line.id, { gender: e.target.value })}
+                  className={`${inputClass} w-24`}
+                  aria-label="Gender"
+                />
+                {staleLineIds.has(line.id)
+                  ? <span className="text-xs text-amber-300">needs audio</span>
+                  : fit && <span className={`text-xs ${fit.className}`}>{fit.label}</span>}
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(line.id); }}
+                  disabled={disabled}
+                  className="ml-auto p-1 text-gray-400 hover:text-red-400 disabled:opacity-50"
+                  aria-label="Delete line"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+              <div className="mt-2 flex flex-col sm:flex-row gap-2">
+                <input
+                  value={line.performanceCue}
+                  disabled={disabled}
+                  onChange={(e) => updateLine(line.id, { performanceCue: e.target.value })}
+                  placeholder="performance cue"
+                  className={`${inputClass} sm:w-40`}
+                  aria-label="Performance cue"
+                />
+                <input
+                  value={line.text}
+                  disabled={disabled}
+                  onChange={(e) => updateLine(line.id, { text: e.target.value })}
+                  placeholder="dialogue"
+                  className={`${inputClass} flex-grow`}
+                  aria-label="Dialogue text"
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
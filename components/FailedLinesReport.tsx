@@ -0,0 +1,43 @@
+import React from 'react';
+import type { ScriptLine } from '../types';
+import { formatTimestamp } from '../utils/dialogueUtils';
+
+interface FailedLinesReportProps {
+  lines: ScriptLine[];
+  /** Why each line failed, keyed by line id. */
+  reasons: Record<string, string>;
+  disabled: boolean;
+  onRetry: () => void;
+}
+
+export const FailedLinesReport: React.FC<FailedLinesReportProps> = ({ lines, reasons, disabled, onRetry }) => {
+  const failed = lines.filter(line => reasons[line.id]);
+  if (failed.length === 0) return null;
+
+  return (
+    <div className="w-full p-4 bg-red-900/30 border border-red-700 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-red-300">
+          {failed.length} {failed.length === 1 ? 'line' : 'lines'} could not be voiced
+        </h3>
+        <button
+          onClick={onRetry}
+          disabled={disabled}
+          className="px-3 py-1 text-sm font-semibold rounded-md bg-red-600 hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          Retry Failed Lines
+        </button>
+      </div>
+      <ul className="flex flex-col gap-1 max-h-40 overflow-y-auto text-xs">
+        {failed.map(line => (
+          <li key={line.id} className="text-gray-300">
+            <span className="font-mono text-red-200">{formatTimestamp(line.time)}</span>{' '}
+            <span className="font-semibold">{line.speaker}:</span> {line.text}{' '}
+            <span className="text-red-300">({reasons[line.id]})</span>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs text-gray-400">The rest of the mix was kept; these lines are silent until they are retried.</p>
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import React, { useCallback, useState } from 'react';
 
 interface FileUploaderProps {
-  onFileSelect: (file: File) => void;
+  /** Called with every file picked or dropped; more than one starts a batch. */
+  onFilesSelect: (files: File[]) => void;
 }
 
 const UploadIcon = () => (
@@ -11,13 +12,15 @@ const UploadIcon = () => (
 );
 
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
+export const FileUploader: React.FC<FileUploaderProps> = ({ onFilesSelect }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      onFileSelect(event.target.files[0]);
+    if (event.target.files && event.target.files.length > 0) {
+      onFilesSelect(Array.from(event.target.files));
     }
+    // Let the same files be picked again after a batch is cleared.
+    event.target.value = '';
   };
 
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
@@ -41,10 +44,10 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onFileSelect(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      onFilesSelect(Array.from(e.dataTransfer.files));
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
 
 
   return (
@@ -63,8 +66,9 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
             <span className="font-semibold text-purple-300">Click to upload</span> or drag and drop
           </p>
           <p className="text-xs text-gray-500">MP4, MOV, WEBM or other video formats</p>
+          <p className="text-xs text-gray-500">Select several videos to voice them as a batch</p>
         </div>
-        <input id="dropzone-file" type="file" className="hidden" accept="video/*" onChange={handleFileChange} />
+        <input id="dropzone-file" type="file" className="hidden" accept="video/*" multiple onChange={handleFileChange} />
       </label>
     </div>
   );
@@ -2,13 +2,29 @@ import React from 'react';
 
 interface LoaderProps {
   message: string;
+  /** Fraction of the current step done, when it can be counted. */
+  progress?: number;
+  onCancel?: () => void;
 }
 
-export const Loader: React.FC<LoaderProps> = ({ message }) => {
+export const Loader: React.FC<LoaderProps> = ({ message, progress, onCancel }) => {
   return (
     <div className="flex flex-col items-center justify-center p-6 bg-gray-700/50 rounded-lg">
       <div className="w-10 h-10 border-4 border-purple-400 border-t-transparent border-solid rounded-full animate-spin"></div>
       <p className="mt-4 text-lg text-gray-300">{message}</p>
+      {progress !== undefined && (
+        <div className="mt-3 w-full max-w-xs h-2 bg-gray-800 rounded-full overflow-hidden">
+          <div className="h-full bg-purple-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+        </div>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-4 px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import type { BusSettings, MixSettings } from '../types';
+
+interface MixerPanelProps {
+  settings: MixSettings;
+  hasPendingChanges: boolean;
+  disabled: boolean;
+  onSettingsChange: (settings: MixSettings) => void;
+  onApply: () => void;
+}
+
+const SlidersIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+    </svg>
+);
+
+const formatDb = (db: number) => `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+const formatPan = (pan: number) => (Math.abs(pan) < 0.01 ? 'C' : `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`);
+
+export const MixerPanel: React.FC<MixerPanelProps> = ({ settings, hasPendingChanges, disabled, onSettingsChange, onApply }) => {
+  const [expandedBus, setExpandedBus] = useState<string | null>(null);
+
+  const updateBus = (name: string, changes: Partial<BusSettings>) => {
+    onSettingsChange({
+      ...settings,
+      buses: { ...settings.buses, [name]: { ...settings.buses[name], ...changes } },
+    });
+  };
+
+  const sliderClass = 'flex-grow accent-purple-500';
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+          <SlidersIcon />
+          Mixer
+        </h3>
+        <button
+          onClick={onApply}
+          disabled={disabled || !hasPendingChanges}
+          className="px-3 py-1 text-sm font-semibold rounded-md bg-purple-600 hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          Update Mix
+        </button>
+      </div>
+
+      <ul className="flex flex-col gap-2">
+        {Object.entries(settings.buses).map(([name, bus]: [string, BusSettings]) => (
+          <li key={name} className="p-2 bg-gray-800/40 rounded-md flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+              <span className="w-24 font-semibold text-gray-200 truncate" title={name}>{name}</span>
+              <input
+                type="range"
+                min={-40}
+                max={6}
+                step={0.5}
+                value={bus.gainDb}
+                disabled={disabled}
+                onChange={(e) => updateBus(name, { gainDb: parseFloat(e.target.value) })}
+                className={sliderClass}
+                aria-label={`${name} level`}
+              />
+              <span className="w-16 text-right font-mono text-xs">{formatDb(bus.gainDb)}</span>
+              <input
+                type="range"
+                min={-1}
+                max={1}
+                step={0.05}
+                value={bus.pan}
+                disabled={disabled}
+                onChange={(e) => updateBus(name, { pan: parseFloat(e.target.value) })}
+                className="w-20 accent-purple-500"
+                aria-label={`${name} pan`}
+              />
+              <span className="w-8 text-right font-mono text-xs">{formatPan(bus.pan)}</span>
+              <button
+                onClick={() => updateBus(name, { muted: !bus.muted })}
+                disabled={disabled}
+                className={`px-2 py-0.5 text-xs font-bold rounded ${bus.muted ? 'bg-red-600 text-white' : 'bg-gray-600 text-gray-300'} disabled:opacity-50`}
+              >
+                M
+              </button>
+              <button
+                onClick={() => setExpandedBus(expandedBus === name ? null : name)}
+                className="text-xs text-gray-400 hover:text-purple-300"
+              >
+                {expandedBus === name ? 'less' : 'EQ / Comp'}
+              </button>
+            </div>
+
+            {expandedBus === name && (
+              <div className="grid grid-cols-[auto_1fr_auto] items-center gap-x-3 gap-y-1 text-xs text-gray-300 pl-2">
+                <label className="col-span-3 flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={bus.eq.enabled}
+                    disabled={disabled}
+                    onChange={(e) => updateBus(name, { eq: { ...bus.eq, enabled: e.target.checked } })}
+                    className="accent-purple-500"
+                  />
+                  Equalizer
+                </label>
+                {(['lowDb', 'midDb', 'highDb'] as const).map(band => (
+                  <React.Fragment key={band}>
+                    <span>{band === 'lowDb' ? 'Low' : band === 'midDb' ? 'Mid' : 'High'}</span>
+                    <input
+                      type="range"
+                      min={-12}
+                      max={12}
+                      step={0.5}
+                      value={bus.eq[band]}
+                      disabled={disabled || !bus.eq.enabled}
+                      onChange={(e) => updateBus(name, { eq: { ...bus.eq, [band]: parseFloat(e.target.value) } })}
+                      className={sliderClass}
+                    />
+                    <span className="font-mono">{formatDb(bus.eq[band])}</span>
+                  </React.Fragment>
+                ))}
+                <label className="col-span-3 flex items-center gap-2 mt-1">
+                  <input
+                    type="checkbox"
+                    checked={bus.compressor.enabled}
+                    disabled={disabled}
+                    onChange={(e) => updateBus(name, { compressor: { ...bus.compressor, enabled: e.target.checked } })}
+                    className="accent-purple-500"
+                  />
+                  Compressor
+                </label>
+                <span>Threshold</span>
+                <input
+                  type="range"
+                  min={-48}
+                  max={0}
+                  step={1}
+                  value={bus.compressor.thresholdDb}
+                  disabled={disabled || !bus.compressor.enabled}
+                  onChange={(e) => updateBus(name, { compressor: { ...bus.compressor, thresholdDb: parseFloat(e.target.value) } })}
+                  className={sliderClass}
+                />
+                <span className="font-mono">{formatDb(bus.compressor.thresholdDb)}</span>
+                <span>Ratio</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={12}
+                  step={0.5}
+                  value={bus.compressor.ratio}
+                  disabled={disabled || !bus.compressor.enabled}
+                  onChange={(e) => updateBus(name, { compressor: { ...bus.compressor, ratio: parseFloat(e.target.value) } })}
+                  className={sliderClass}
+                />
+                <span className="font-mono">{bus.compressor.ratio.toFixed(1)}:1</span>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300 border-t border-gray-600 pt-3">
+        <span className="w-24 font-semibold text-gray-200">Master</span>
+        <input
+          type="range"
+          min={-24}
+          max={6}
+          step={0.5}
+          value={settings.masterGainDb}
+          disabled={disabled}
+          onChange={(e) => onSettingsChange({ ...settings, masterGainDb: parseFloat(e.target.value) })}
+          className={sliderClass}
+          aria-label="Master level"
+        />
+        <span className="w-16 text-right font-mono text-xs">{formatDb(settings.masterGainDb)}</span>
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={settings.limiterEnabled}
+            disabled={disabled}
+            onChange={(e) => onSettingsChange({ ...settings, limiterEnabled: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Limiter
+        </label>
+      </div>
+    </div>
+  );
+};
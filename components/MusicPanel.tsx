@@ -0,0 +1,191 @@
+import React from 'react';
+import type { MusicCue, MusicMood, MusicPlan, MusicSettings } from '../types';
+import { MAX_TEMPO, MIN_TEMPO, MUSIC_MOODS, parseTempo, resolveTempo } from '../services/musicScore';
+import { formatTimestamp } from '../utils/dialogueUtils';
+
+interface MusicPanelProps {
+  settings: MusicSettings;
+  plan: MusicPlan | null;
+  hasPendingChanges: boolean;
+  disabled: boolean;
+  onSettingsChange: (settings: MusicSettings) => void;
+  onPlanChange: (plan: MusicPlan) => void;
+  /** Runs the scoring pass again with the current guidance. */
+  onScore: () => void;
+  onApply: () => void;
+}
+
+const MusicNoteIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+    </svg>
+);
+
+export const MusicPanel: React.FC<MusicPanelProps> = ({
+  settings,
+  plan,
+  hasPendingChanges,
+  disabled,
+  onSettingsChange,
+  onPlanChange,
+  onScore,
+  onApply,
+}) => {
+  const update = (patch: Partial<MusicSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  const updateCue = (id: string, patch: Partial<MusicCue>) => {
+    if (!plan) return;
+    onPlanChange({ ...plan, cues: plan.cues.map(cue => (cue.id === id ? { ...cue, ...patch } : cue)) });
+  };
+
+  const removeCue = (id: string) => {
+    if (!plan) return;
+    onPlanChange({ ...plan, cues: plan.cues.filter(cue => cue.id !== id) });
+  };
+
+  const tempoFromGuidance = parseTempo(settings.guidance);
+  const tempo = plan ? resolveTempo(plan, settings) : settings.tempo ?? tempoFromGuidance;
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+          <MusicNoteIcon />
+          Music Score
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            disabled={disabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Add music
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <input
+            type="text"
+            placeholder="e.g., 'slow and hopeful, 80 bpm', 'playful pizzicato'"
+            value={settings.guidance}
+            onChange={(e) => update({ guidance: e.target.value })}
+            disabled={disabled}
+            className="w-full bg-gray-900/40 border border-gray-600 text-gray-300 py-2 px-3 rounded-md leading-tight focus:outline-none focus:bg-gray-700/50 focus:border-purple-500 placeholder-gray-500"
+          />
+
+          <div className="flex items-center gap-3 text-sm text-gray-300">
+            <label className="flex items-center gap-2 w-32 shrink-0">
+              <input
+                type="checkbox"
+                checked={settings.tempo === null}
+                disabled={disabled}
+                onChange={(e) => update({ tempo: e.target.checked ? null : tempo ?? 96 })}
+                className="accent-purple-500"
+              />
+              Auto tempo
+            </label>
+            <input
+              type="range"
+              min={MIN_TEMPO}
+              max={MAX_TEMPO}
+              step={1}
+              value={tempo ?? 96}
+              disabled={disabled || settings.tempo === null}
+              onChange={(e) => update({ tempo: parseInt(e.target.value, 10) })}
+              className="flex-grow accent-purple-500 disabled:opacity-50"
+              aria-label="Tempo"
+            />
+            <span className="w-24 text-right font-mono text-xs text-gray-400">
+              {tempo !== null ? `${tempo} bpm` : 'from video'}
+            </span>
+          </div>
+
+          <div className="flex items-center gap-3 text-sm text-gray-300">
+            <span className="w-32 shrink-0">Duck under speech</span>
+            <input
+              type="range"
+              min={0}
+              max={24}
+              step={1}
+              value={settings.duckingDb}
+              disabled={disabled}
+              onChange={(e) => update({ duckingDb: parseInt(e.target.value, 10) })}
+              className="flex-grow accent-purple-500"
+              aria-label="Ducking amount"
+            />
+            <span className="w-24 text-right font-mono text-xs text-gray-400">
+              {settings.duckingDb === 0 ? 'off' : `-${settings.duckingDb} dB`}
+            </span>
+          </div>
+
+          {plan && plan.cues.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto flex flex-col gap-1">
+              {plan.cues.map(cue => (
+                <li key={cue.id} className="flex items-center gap-2 text-xs text-gray-300">
+                  <span className="font-mono text-purple-300 w-14">{formatTimestamp(cue.time)}</span>
+                  <select
+                    value={cue.mood}
+                    disabled={disabled}
+                    onChange={(e) => updateCue(cue.id, { mood: e.target.value as MusicMood })}
+                    className="bg-gray-900/40 border border-gray-600 text-gray-300 py-0.5 px-2 rounded-md text-xs focus:outline-none focus:border-purple-500"
+                    aria-label={`Mood at ${formatTimestamp(cue.time)}`}
+                  >
+                    {MUSIC_MOODS.map(mood => (
+                      <option key={mood.id} value={mood.id} title={mood.description}>{mood.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={cue.intensity}
+                    disabled={disabled}
+                    onChange={(e) => updateCue(cue.id, { intensity: parseFloat(e.target.value) })}
+                    className="flex-grow accent-purple-500"
+                    aria-label={`Intensity at ${formatTimestamp(cue.time)}`}
+                  />
+                  <button
+                    onClick={() => removeCue(cue.id)}
+                    disabled={disabled || plan.cues.length === 1}
+                    className="text-gray-400 hover:text-purple-300 disabled:opacity-50"
+                    title="Remove cue; the previous mood carries on"
+                  >
+                    remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-gray-400">
+              {plan ? 'Set the music level in the mixer.' : 'The score is planned when the video is analyzed.'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={onScore}
+                disabled={disabled}
+                className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+              >
+                {plan ? 'Rescore' : 'Score Now'}
+              </button>
+              {plan && (
+                <button
+                  onClick={onApply}
+                  disabled={disabled || !hasPendingChanges}
+                  className="px-3 py-1 text-sm font-semibold rounded-md bg-purple-600 hover:bg-purple-700 transition-colors disabled:opacity-50"
+                >
+                  Update Mix
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { RejectedLine } from '../utils/scriptParser';
+
+interface ParseReportProps {
+  rejected: RejectedLine[];
+  onDismiss: () => void;
+}
+
+export const ParseReport: React.FC<ParseReportProps> = ({ rejected, onDismiss }) => {
+  if (rejected.length === 0) return null;
+
+  return (
+    <div className="w-full p-4 bg-amber-900/30 border border-amber-700 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-amber-300">
+          {rejected.length} script {rejected.length === 1 ? 'line was' : 'lines were'} rejected
+        </h3>
+        <button onClick={onDismiss} className="text-xs text-amber-200 hover:text-white">Dismiss</button>
+      </div>
+      <ul className="flex flex-col gap-2 max-h-40 overflow-y-auto text-xs">
+        {rejected.map(item => (
+          <li key={`${item.index}-${item.raw}`} className="flex flex-col gap-0.5">
+            <span className="text-amber-200">#{item.index}: {item.reason}</span>
+            <code className="text-gray-400 break-all">{item.raw}</code>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs text-gray-400">Add any missing lines by hand in the timeline below.</p>
+    </div>
+  );
+};
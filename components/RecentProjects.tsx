@@ -0,0 +1,69 @@
+import React from 'react';
+import { PROJECT_ARCHIVE_EXTENSION, type ProjectSummary } from '../services/projectStore';
+
+interface RecentProjectsProps {
+  projects: ProjectSummary[];
+  disabled: boolean;
+  onOpen: (projectId: string) => void;
+  onDelete: (projectId: string) => void;
+  onImport: (file: File) => void;
+}
+
+const FolderIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+    </svg>
+);
+
+export const RecentProjects: React.FC<RecentProjectsProps> = ({ projects, disabled, onOpen, onDelete, onImport }) => {
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    // Allow importing the same file twice in a row.
+    event.target.value = '';
+  };
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+          <FolderIcon />
+          Recent Projects
+        </h3>
+        <label className={`px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors cursor-pointer ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+          Import Project
+          <input type="file" className="hidden" accept={`${PROJECT_ARCHIVE_EXTENSION},.zip,application/zip`} onChange={handleImport} disabled={disabled} />
+        </label>
+      </div>
+
+      {projects.length === 0 ? (
+        <p className="text-sm text-gray-400">Projects are saved automatically in this browser and will show up here.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {projects.map(project => (
+            <li key={project.id} className="flex items-center gap-3 p-2 bg-gray-800/40 rounded-md text-sm">
+              <button
+                onClick={() => onOpen(project.id)}
+                disabled={disabled}
+                className="flex-grow text-left truncate text-gray-200 hover:text-purple-300 disabled:opacity-50"
+                title={`Open ${project.name}`}
+              >
+                {project.name}
+              </button>
+              <span className="text-xs text-gray-400 whitespace-nowrap">
+                {project.lineCount} {project.lineCount === 1 ? 'line' : 'lines'} · {new Date(project.updatedAt).toLocaleString()}
+              </span>
+              <button
+                onClick={() => onDelete(project.id)}
+                disabled={disabled}
+                className="text-xs text-gray-400 hover:text-red-400 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
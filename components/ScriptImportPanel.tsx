@@ -0,0 +1,52 @@
+import React from 'react';
+import { SCRIPT_IMPORT_ACCEPT } from '../utils/scriptImport';
+
+interface ScriptImportPanelProps {
+  inferTraits: boolean;
+  disabled: boolean;
+  onInferTraitsChange: (inferTraits: boolean) => void;
+  onImport: (file: File) => void;
+}
+
+const DocumentIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+);
+
+export const ScriptImportPanel: React.FC<ScriptImportPanelProps> = ({ inferTraits, disabled, onInferTraitsChange, onImport }) => {
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    // Allow importing the same file twice in a row.
+    event.target.value = '';
+  };
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+          <DocumentIcon />
+          Already Have the Dialogue?
+        </h3>
+        <label className={`px-3 py-1 text-sm font-semibold rounded-md bg-purple-600 hover:bg-purple-700 transition-colors cursor-pointer ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+          Import Script
+          <input type="file" className="hidden" accept={SCRIPT_IMPORT_ACCEPT} onChange={handleImport} disabled={disabled} />
+        </label>
+      </div>
+      <p className="text-sm text-gray-400">
+        Voice an SRT or WebVTT subtitle file, or a script in this app's format, instead of lip-reading the video.
+      </p>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={inferTraits}
+          disabled={disabled}
+          onChange={(e) => onInferTraitsChange(e.target.checked)}
+          className="accent-purple-500"
+        />
+        Let the AI work out speakers, ages and delivery (otherwise neutral defaults are used)
+      </label>
+    </div>
+  );
+};
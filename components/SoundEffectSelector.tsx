@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import type { SoundCategory, SoundEvent } from '../types';
+import { SOUND_CATEGORIES } from '../services/soundEffects';
+import { formatTimestamp } from '../utils/dialogueUtils';
+
+interface SoundEffectSelectorProps {
+  analysisEnabled: boolean;
+  events: SoundEvent[];
+  disabledCategories: SoundCategory[];
+  hasPendingChanges: boolean;
+  disabled: boolean;
+  onAnalysisEnabledChange: (enabled: boolean) => void;
+  onToggleCategory: (category: SoundCategory) => void;
+  onApply: () => void;
+}
+
+const SpeakerWaveIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+    </svg>
+);
+
+export const SoundEffectSelector: React.FC<SoundEffectSelectorProps> = ({
+  analysisEnabled,
+  events,
+  disabledCategories,
+  hasPendingChanges,
+  disabled,
+  onAnalysisEnabledChange,
+  onToggleCategory,
+  onApply,
+}) => {
+  const counts = useMemo(() => {
+    const result: Partial<Record<SoundCategory, number>> = {};
+    for (const event of events) result[event.category] = (result[event.category] ?? 0) + 1;
+    return result;
+  }, [events]);
+
+  const groups = [
+    { title: 'Foley', categories: SOUND_CATEGORIES.filter(category => category.kind === 'sfx') },
+    { title: 'Ambience', categories: SOUND_CATEGORIES.filter(category => category.kind === 'ambience') },
+  ];
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+          <SpeakerWaveIcon />
+          Sound Effects & Ambience
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={analysisEnabled}
+            disabled={disabled}
+            onChange={(e) => onAnalysisEnabledChange(e.target.checked)}
+            className="accent-purple-500"
+          />
+          Detect effects
+        </label>
+      </div>
+
+      {analysisEnabled && groups.map(group => (
+        <div key={group.title}>
+          <p className="text-xs uppercase tracking-wide text-gray-400 mb-1">{group.title}</p>
+          <div className="flex flex-wrap gap-2">
+            {group.categories.map(category => {
+              const count = counts[category.id] ?? 0;
+              const isOn = !disabledCategories.includes(category.id);
+              return (
+                <button
+                  key={category.id}
+                  onClick={() => onToggleCategory(category.id)}
+                  disabled={disabled}
+                  title={category.description}
+                  className={`px-3 py-1 text-xs rounded-full border transition-colors disabled:opacity-50 ${
+                    isOn ? 'bg-purple-600/60 border-purple-400 text-white' : 'bg-gray-800/40 border-gray-600 text-gray-400'
+                  } ${count === 0 ? 'opacity-60' : ''}`}
+                >
+                  {category.label}{count > 0 ? ` · ${count}` : ''}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {analysisEnabled && events.length > 0 && (
+        <>
+          <ul className="max-h-32 overflow-y-auto text-xs text-gray-300 flex flex-col gap-1">
+            {events.map(event => (
+              <li key={event.id} className={disabledCategories.includes(event.category) ? 'opacity-40 line-through' : ''}>
+                <span className="font-mono text-purple-300">{formatTimestamp(event.time)}</span>{' '}
+                <span className="text-gray-400">[{event.category}, {event.duration.toFixed(1)}s]</span>{' '}
+                {event.description}
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-gray-400">Set the effects level in the mixer.</p>
+            <button
+              onClick={onApply}
+              disabled={disabled || !hasPendingChanges}
+              className="px-3 py-1 text-sm font-semibold rounded-md bg-purple-600 hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              Update Mix
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import type { SubtitleOptions } from '../utils/subtitleUtils';
+
+interface SubtitlePanelProps {
+  options: SubtitleOptions;
+  showCaptions: boolean;
+  disabled: boolean;
+  onOptionsChange: (options: SubtitleOptions) => void;
+  onShowCaptionsChange: (show: boolean) => void;
+  onDownload: (format: 'srt' | 'vtt') => void;
+}
+
+const CaptionIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
+    </svg>
+);
+
+export const SubtitlePanel: React.FC<SubtitlePanelProps> = ({ options, showCaptions, disabled, onOptionsChange, onShowCaptionsChange, onDownload }) => {
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+        <CaptionIcon />
+        Subtitles
+      </h3>
+      <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={showCaptions}
+            disabled={disabled}
+            onChange={(e) => onShowCaptionsChange(e.target.checked)}
+            className="accent-purple-500"
+          />
+          Show captions in player
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.includeSpeaker}
+            disabled={disabled}
+            onChange={(e) => onOptionsChange({ ...options, includeSpeaker: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Speaker labels
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.includeCue}
+            disabled={disabled}
+            onChange={(e) => onOptionsChange({ ...options, includeCue: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Performance cues
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onDownload('srt')}
+          disabled={disabled}
+          className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+        >
+          Download .srt
+        </button>
+        <button
+          onClick={() => onDownload('vtt')}
+          disabled={disabled}
+          className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+        >
+          Download .vtt
+        </button>
+      </div>
+    </div>
+  );
+};
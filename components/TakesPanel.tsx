@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ScriptLine, ScriptTake } from '../types';
+import { formatTimestamp } from '../utils/dialogueUtils';
+import { diffScripts, type ScriptDiffRow, type WordChange } from '../utils/scriptDiff';
+import type { TakePick } from '../utils/scriptTakes';
+
+interface TakesPanelProps {
+  /** Oldest first. */
+  takes: ScriptTake[];
+  activeTakeId: string | null;
+  /** The take playing against the video instead of the current mix, if any. */
+  previewTakeId: string | null;
+  disabled: boolean;
+  onOpen: (takeId: string) => void;
+  onDelete: (takeId: string) => void;
+  /** Plays a take's mix with the video, or the current mix again when null. */
+  onPreview: (takeId: string | null) => void;
+  /** Makes a new take out of the chosen lines. */
+  onAssemble: (picks: TakePick[]) => void;
+}
+
+type Side = 'a' | 'b';
+
+const LayersIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+    </svg>
+);
+
+const WORD_CLASSES: Record<WordChange['kind'], string> = {
+  same: '',
+  removed: 'bg-red-900/60 text-red-200 line-through',
+  added: 'bg-green-900/60 text-green-200',
+};
+
+/**
+ * Shows one side of a row: the line with the other take's changes marked word by word.
+ */
+const LineCell: React.FC<{ row: ScriptDiffRow; side: Side; picked: boolean; disabled: boolean; onPick: () => void }> = ({
+  row,
+  side,
+  picked,
+  disabled,
+  onPick,
+}) => {
+  const line: ScriptLine | null = row[side];
+  if (!line) return <div className="p-2 rounded-md border border-dashed border-gray-700" />;
+  const other = side === 'a' ? row.b : row.a;
+  const hidden: WordChange['kind'] = side === 'a' ? 'added' : 'removed';
+
+  return (
+    <button
+      onClick={onPick}
+      disabled={disabled}
+      aria-pressed={picked}
+      className={`p-2 rounded-md text-left text-xs border transition-colors disabled:opacity-50 ${
+        picked ? 'border-purple-500 bg-purple-900/30' : 'border-gray-700 bg-gray-800/50 hover:border-gray-500'
+      }`}
+    >
+      <span className="font-mono text-gray-400">{formatTimestamp(line.time)}</span>{' '}
+      <span className={`font-semibold ${other && other.speaker !== line.speaker ? 'text-yellow-300' : ''}`}>{line.speaker}</span>
+      {line.performanceCue && (
+        <span className={other && other.performanceCue !== line.performanceCue ? 'text-yellow-300' : 'text-gray-400'}> [{line.performanceCue}]</span>
+      )}
+      :{' '}
+      {row.kind === 'changed'
+        ? row.words.filter(word => word.kind !== hidden).map((word, index) => (
+            <span key={index} className={WORD_CLASSES[word.kind]}>{word.text} </span>
+          ))
+        : line.text}
+    </button>
+  );
+};
+
+/**
+ * Lines two takes up side by side and lets lines be picked from either.
+ */
+const TakeComparison: React.FC<{ a: ScriptTake; b: ScriptTake; disabled: boolean; onAssemble: (picks: TakePick[]) => void }> = ({
+  a,
+  b,
+  disabled,
+  onAssemble,
+}) => {
+  const rows = useMemo(() => diffScripts(a.lines, b.lines), [a.lines, b.lines]);
+  const defaultPicks = () => rows.map<Side | null>(row => (row.a ? 'a' : null));
+  const [picks, setPicks] = useState<(Side | null)[]>(defaultPicks);
+  const [onlyDifferences, setOnlyDifferences] = useState<boolean>(true);
+
+  // An edit to either take realigns the rows, so earlier picks no longer line up.
+  useEffect(() => setPicks(defaultPicks()), [rows]);
+
+  const counts = {
+    changed: rows.filter(row => row.kind === 'changed').length,
+    removed: rows.filter(row => row.kind === 'removed').length,
+    added: rows.filter(row => row.kind === 'added').length,
+  };
+  const pickAll = (side: Side) => setPicks(rows.map(row => (row[side] ? side : null)));
+  const toggle = (index: number, side: Side) =>
+    setPicks(previous => previous.map((pick, i) => (i === index ? (pick === side ? null : side) : pick)));
+
+  const handleAssemble = () => {
+    const chosen = rows.flatMap((row, index): TakePick[] => {
+      const side = picks[index];
+      const line = side ? row[side] : null;
+      return side && line ? [{ take: side === 'a' ? a : b, line }] : [];
+    });
+    onAssemble(chosen);
+  };
+
+  const pickedCount = picks.filter(Boolean).length;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400">
+        <span>
+          {counts.changed + counts.removed + counts.added === 0
+            ? 'The two takes have the same script.'
+            : `${counts.changed} changed · ${counts.removed} only in take ${a.number} · ${counts.added} only in take ${b.number}`}
+        </span>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(e) => setOnlyDifferences(e.target.checked)}
+            className="accent-purple-500"
+          />
+          Only differences
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1 max-h-72 overflow-y-auto">
+        <div className="text-xs font-semibold text-gray-300">A · Take {a.number}</div>
+        <div className="text-xs font-semibold text-gray-300">B · Take {b.number}</div>
+        {rows.map((row, index) => (onlyDifferences && row.kind === 'same' ? null : (
+          <React.Fragment key={`${row.a?.id ?? ''}:${row.b?.id ?? ''}`}>
+            <LineCell row={row} side="a" picked={picks[index] === 'a'} disabled={disabled} onPick={() => toggle(index, 'a')} />
+            <LineCell row={row} side="b" picked={picks[index] === 'b'} disabled={disabled} onPick={() => toggle(index, 'b')} />
+          </React.Fragment>
+        )))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => pickAll('a')}
+          disabled={disabled}
+          className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+        >
+          All A
+        </button>
+        <button
+          onClick={() => pickAll('b')}
+          disabled={disabled}
+          className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+        >
+          All B
+        </button>
+        <button
+          onClick={handleAssemble}
+          disabled={disabled || pickedCount === 0}
+          className="ml-auto px-3 py-1 text-sm font-semibold rounded-md bg-purple-600 hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          Assemble New Take ({pickedCount} {pickedCount === 1 ? 'line' : 'lines'})
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        Click a line to pick it; click again to leave it out. Picked lines keep the audio their take voiced them with.
+      </p>
+    </div>
+  );
+};
+
+export const TakesPanel: React.FC<TakesPanelProps> = ({
+  takes,
+  activeTakeId,
+  previewTakeId,
+  disabled,
+  onOpen,
+  onDelete,
+  onPreview,
+  onAssemble,
+}) => {
+  const [aId, setAId] = useState<string | null>(null);
+  const [bId, setBId] = useState<string | null>(null);
+  if (takes.length < 2) return null;
+
+  // Until chosen, compare the two newest takes.
+  const a = takes.find(take => take.id === aId) ?? takes[takes.length - 2];
+  const b = takes.find(take => take.id === bId) ?? takes[takes.length - 1];
+  const listening = previewTakeId ?? activeTakeId;
+
+  const takeSelect = (label: string, value: ScriptTake, onChange: (id: string) => void) => (
+    <label className="flex items-center gap-2">
+      {label}
+      <select
+        value={value.id}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-300"
+      >
+        {takes.map(take => (
+          <option key={take.id} value={take.id}>Take {take.number}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const listenButton = (label: string, takeId: string | null) => {
+    const active = takeId === null ? previewTakeId === null : listening === takeId;
+    return (
+      <button
+        onClick={() => onPreview(takeId)}
+        disabled={disabled}
+        aria-pressed={active}
+        className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors disabled:opacity-50 ${
+          active ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-600 hover:bg-gray-500'
+        }`}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+        <LayersIcon />
+        Takes
+      </h3>
+
+      <ul className="flex flex-col gap-1 max-h-40 overflow-y-auto text-sm">
+        {[...takes].reverse().map(take => (
+          <li key={take.id} className="flex items-center gap-2 text-gray-300">
+            <span className="font-semibold shrink-0">Take {take.number}</span>
+            <span className="truncate text-xs text-gray-400" title={take.guidance || undefined}>
+              {take.label} · {new Date(take.createdAt).toLocaleTimeString()} · {take.lines.length} lines
+              {take.guidance && ` · “${take.guidance}”`}
+            </span>
+            <span className="ml-auto flex gap-1 shrink-0">
+              {take.id === activeTakeId ? (
+                <span className="px-2 py-0.5 text-xs rounded-md bg-purple-900/60 text-purple-200">Editing</span>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onOpen(take.id)}
+                    disabled={disabled}
+                    className="px-2 py-0.5 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => onDelete(take.id)}
+                    disabled={disabled}
+                    aria-label={`Delete take ${take.number}`}
+                    className="px-2 py-0.5 text-xs font-semibold rounded-md bg-gray-600 hover:bg-red-600 transition-colors disabled:opacity-50"
+                  >
+                    ✕
+                  </button>
+                </>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        {takeSelect('A', a, setAId)}
+        {takeSelect('B', b, setBId)}
+        <span className="flex items-center gap-1 ml-auto">
+          Listen:
+          {listenButton('Current', null)}
+          {listenButton('A', a.id)}
+          {listenButton('B', b.id)}
+        </span>
+      </div>
+      <p className="text-xs text-gray-400">
+        Play the video to hear the chosen take; switching keeps the playback position.
+      </p>
+
+      {a.id === b.id ? (
+        <p className="text-xs text-gray-400">Choose two different takes to compare them.</p>
+      ) : (
+        <TakeComparison key={`${a.id}:${b.id}`} a={a} b={b} disabled={disabled} onAssemble={onAssemble} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React from 'react';
+import type { OriginalAudioMode, VideoExportOptions } from '../utils/videoExport';
+
+interface VideoExportPanelProps {
+  options: VideoExportOptions;
+  progress: number | null;
+  disabled: boolean;
+  onOptionsChange: (options: VideoExportOptions) => void;
+  onExport: () => void;
+  onCancel: () => void;
+}
+
+const FilmIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" />
+    </svg>
+);
+
+const MODES: { value: OriginalAudioMode; label: string; hint: string }[] = [
+  { value: 'replace', label: 'Replace', hint: 'Drop the original audio entirely.' },
+  { value: 'duck', label: 'Duck', hint: 'Keep the original audio, lowered while dialogue plays.' },
+  { value: 'mix', label: 'Mix', hint: 'Keep the original audio at a fixed level.' },
+];
+
+export const VideoExportPanel: React.FC<VideoExportPanelProps> = ({ options, progress, disabled, onOptionsChange, onExport, onCancel }) => {
+  const isExporting = progress !== null;
+  const update = (changes: Partial<VideoExportOptions>) => onOptionsChange({ ...options, ...changes });
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg flex flex-col gap-3">
+      <h3 className="font-semibold text-purple-300 flex items-center gap-2">
+        <FilmIcon />
+        Export Video
+      </h3>
+
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Original audio">
+        {MODES.map(mode => (
+          <button
+            key={mode.value}
+            role="radio"
+            aria-checked={options.originalAudioMode === mode.value}
+            title={mode.hint}
+            disabled={disabled || isExporting}
+            onClick={() => update({ originalAudioMode: mode.value })}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors disabled:opacity-50 ${
+              options.originalAudioMode === mode.value ? 'bg-purple-600/60 border-purple-400 text-white' : 'bg-gray-800/40 border-gray-600 text-gray-300'
+            }`}
+          >
+            {mode.label} original audio
+          </button>
+        ))}
+      </div>
+
+      {options.originalAudioMode !== 'replace' && (
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-sm text-gray-300">
+          <label htmlFor="original-volume">Original level</label>
+          <input
+            id="original-volume"
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={options.originalVolume}
+            disabled={disabled || isExporting}
+            onChange={(e) => update({ originalVolume: parseFloat(e.target.value) })}
+            className="accent-purple-500"
+          />
+          {options.originalAudioMode === 'duck' && (
+            <>
+              <label htmlFor="ducked-volume">Under dialogue</label>
+              <input
+                id="ducked-volume"
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={options.duckedVolume}
+                disabled={disabled || isExporting}
+                onChange={(e) => update({ duckedVolume: parseFloat(e.target.value) })}
+                className="accent-purple-500"
+              />
+            </>
+          )}
+        </div>
+      )}
+
+      {isExporting ? (
+        <div className="flex items-center gap-3">
+          <div className="flex-grow h-2 bg-gray-900/60 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <span className="text-sm text-gray-300 w-10 text-right">{Math.round(progress * 100)}%</span>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={onExport}
+          disabled={disabled}
+          className="self-start px-4 py-2 text-sm font-semibold rounded-md bg-green-600 hover:bg-green-700 transition-colors disabled:opacity-50"
+        >
+          Export Video with Dialogue
+        </button>
+      )}
+      <p className="text-xs text-gray-400">Export records the video in real time, so it takes as long as the clip.</p>
+    </div>
+  );
+};
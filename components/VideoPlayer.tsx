@@ -1,18 +1,94 @@
-import React, { forwardRef } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { ScriptLine, SpeakerAppearance } from '../types';
+import { getVisibleSpeakers } from '../utils/speakerLabels';
 
 interface VideoPlayerProps {
   src: string;
+  captionsUrl?: string | null;
+  /** Where each speaker appears; boxes are drawn over the video while they are on screen. */
+  speakers?: SpeakerAppearance[];
+  lines?: ScriptLine[];
 }
 
-export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(({ src }, ref) => {
+/**
+ * Where the picture sits inside the element once `object-contain` has letterboxed it.
+ */
+function getContentRect(video: HTMLVideoElement): { left: number; top: number; width: number; height: number } | null {
+  if (!video.videoWidth || !video.videoHeight || !video.clientWidth || !video.clientHeight) return null;
+  const scale = Math.min(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  return { left: (video.clientWidth - width) / 2, top: (video.clientHeight - height) / 2, width, height };
+}
+
+export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(({ src, captionsUrl, speakers = [], lines = [] }, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const trackRef = useRef<HTMLTrackElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [contentRect, setContentRect] = useState<ReturnType<typeof getContentRect>>(null);
+
+  useImperativeHandle(ref, () => videoRef.current!, []);
+
+  useEffect(() => {
+    // `default` is only honoured when the video first loads, so show swapped-in tracks explicitly.
+    if (trackRef.current) trackRef.current.track.mode = 'showing';
+  }, [captionsUrl]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || speakers.length === 0) return;
+
+    const updateTime = () => setCurrentTime(video.currentTime);
+    const updateRect = () => setContentRect(getContentRect(video));
+    const observer = new ResizeObserver(updateRect);
+    observer.observe(video);
+    video.addEventListener('timeupdate', updateTime);
+    video.addEventListener('seeked', updateTime);
+    video.addEventListener('loadedmetadata', updateRect);
+    updateTime();
+    updateRect();
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('timeupdate', updateTime);
+      video.removeEventListener('seeked', updateTime);
+      video.removeEventListener('loadedmetadata', updateRect);
+    };
+  }, [src, speakers.length]);
+
+  const visible = contentRect ? getVisibleSpeakers(speakers, lines, currentTime) : [];
+
   return (
-    <video
-      ref={ref}
-      className="w-full h-full object-contain"
-      src={src}
-      playsInline
-    >
-      Your browser does not support the video tag.
-    </video>
+    <div className="relative w-full h-full">
+      <video
+        ref={videoRef}
+        className="w-full h-full object-contain"
+        src={src}
+        playsInline
+      >
+        {captionsUrl && (
+          <track ref={trackRef} key={captionsUrl} kind="captions" src={captionsUrl} label="Dialogue" srcLang="en" default />
+        )}
+        Your browser does not support the video tag.
+      </video>
+      {contentRect && visible.map(({ speaker, box, talking }) => (
+        <div
+          key={speaker}
+          className={`absolute pointer-events-none border-2 rounded-sm transition-colors ${talking ? 'border-purple-400' : 'border-gray-300/60'}`}
+          style={{
+            left: contentRect.left + box.x * contentRect.width,
+            top: contentRect.top + box.y * contentRect.height,
+            width: box.width * contentRect.width,
+            height: box.height * contentRect.height,
+          }}
+        >
+          {/* Keep the name inside the frame when the box touches its top edge. */}
+          <span
+            className={`absolute left-0 ${box.y * contentRect.height < 24 ? 'top-0' : '-top-6'} px-1.5 py-0.5 text-xs font-semibold rounded whitespace-nowrap ${talking ? 'bg-purple-600 text-white' : 'bg-gray-800/80 text-gray-200'}`}
+          >
+            {speaker}
+          </span>
+        </div>
+      ))}
+    </div>
   );
-});
\ No newline at end of file
+});
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import type { SpeakerAppearance, VoiceCasting } from '../types';
+import { PREBUILT_VOICES, suggestVoice, type SpeakerProfile } from '../services/voices';
+
+interface VoiceSelectorProps {
+  speakers: SpeakerProfile[];
+  casting: VoiceCasting;
+  overrides: VoiceCasting;
+  disabled: boolean;
+  onVoiceChange: (speaker: string, voiceName: string | null) => void;
+  onAudition: (speaker: SpeakerProfile, voiceName: string) => Promise<void>;
+  /** Where each speaker was seen, so the user can jump to them. */
+  appearances: SpeakerAppearance[];
+  /** Renames a speaker, or merges it into another when `to` is an existing label. */
+  onRename: (from: string, to: string) => void;
+  onLocate: (time: number) => void;
+}
+
+const MicrophoneIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+    </svg>
+);
+
+const femaleVoices = PREBUILT_VOICES.filter(voice => voice.gender === 'Female');
+const maleVoices = PREBUILT_VOICES.filter(voice => voice.gender === 'Male');
+
+export const VoiceSelector: React.FC<VoiceSelectorProps> = ({
+  speakers,
+  casting,
+  overrides,
+  disabled,
+  onVoiceChange,
+  onAudition,
+  appearances,
+  onRename,
+  onLocate,
+}) => {
+  const [auditioning, setAuditioning] = useState<string | null>(null);
+  const [auditionError, setAuditionError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ speaker: string; name: string } | null>(null);
+
+  const commitRename = () => {
+    if (renaming) onRename(renaming.speaker, renaming.name);
+    setRenaming(null);
+  };
+
+  const handleAudition = async (profile: SpeakerProfile) => {
+    setAuditioning(profile.speaker);
+    setAuditionError(null);
+    try {
+      await onAudition(profile, casting[profile.speaker]);
+    } catch (err) {
+      console.error(err);
+      setAuditionError(`Could not audition ${casting[profile.speaker]}. Please try again.`);
+    } finally {
+      setAuditioning(null);
+    }
+  };
+
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="w-full p-4 bg-gray-700/50 rounded-lg">
+      <h3 className="font-semibold text-purple-300 mb-3 flex items-center gap-2">
+        <MicrophoneIcon />
+        Voice Casting
+      </h3>
+      <ul className="flex flex-col gap-2">
+        {speakers.map(profile => {
+          const voiceName = casting[profile.speaker];
+          const isSuggested = !overrides[profile.speaker];
+          const appearance = appearances.find(item => item.speaker === profile.speaker);
+          return (
+            <li key={profile.speaker} className="flex flex-wrap items-center gap-2 p-2 bg-gray-800/40 rounded-md">
+              <div className="flex-grow min-w-[8rem]">
+                {renaming?.speaker === profile.speaker ? (
+                  <input
+                    type="text"
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ speaker: profile.speaker, name: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    className="w-full bg-gray-900/40 border border-gray-600 text-gray-200 py-0.5 px-2 rounded-md text-sm font-semibold focus:outline-none focus:border-purple-500"
+                    aria-label={`New name for ${profile.speaker}`}
+                  />
+                ) : (
+                  <button
+                    onClick={() => setRenaming({ speaker: profile.speaker, name: profile.speaker })}
+                    disabled={disabled}
+                    className="text-sm font-semibold text-gray-200 hover:text-purple-300 disabled:hover:text-gray-200"
+                    title="Rename speaker"
+                  >
+                    {profile.speaker}
+                  </button>
+                )}
+                <p className="text-xs text-gray-400">
+                  {profile.age}, {profile.gender} · {profile.lineCount} {profile.lineCount === 1 ? 'line' : 'lines'}
+                  {appearance && (
+                    <>
+                      {' · '}
+                      <button onClick={() => onLocate(appearance.time)} className="hover:text-purple-300">
+                        show on video
+                      </button>
+                    </>
+                  )}
+                </p>
+              </div>
+              {speakers.length > 1 && (
+                <select
+                  value=""
+                  disabled={disabled}
+                  onChange={(e) => e.target.value && onRename(profile.speaker, e.target.value)}
+                  className="bg-gray-900/40 border border-gray-600 text-gray-300 py-1 px-2 rounded-md text-sm focus:outline-none focus:border-purple-500 disabled:opacity-50"
+                  aria-label={`Merge ${profile.speaker} into another speaker`}
+                >
+                  <option value="">Merge into…</option>
+                  {speakers.filter(other => other.speaker !== profile.speaker).map(other => (
+                    <option key={other.speaker} value={other.speaker}>{other.speaker}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={voiceName}
+                disabled={disabled}
+                onChange={(e) => onVoiceChange(profile.speaker, e.target.value)}
+                className="bg-gray-900/40 border border-gray-600 text-gray-300 py-1 px-2 rounded-md text-sm focus:outline-none focus:border-purple-500 disabled:opacity-50"
+                aria-label={`Voice for ${profile.speaker}`}
+              >
+                <optgroup label="Female">
+                  {femaleVoices.map(voice => (
+                    <option key={voice.name} value={voice.name}>{voice.name} — {voice.style}</option>
+                  ))}
+                </optgroup>
+                <optgroup label="Male">
+                  {maleVoices.map(voice => (
+                    <option key={voice.name} value={voice.name}>{voice.name} — {voice.style}</option>
+                  ))}
+                </optgroup>
+              </select>
+              {isSuggested ? (
+                <span className="text-xs text-purple-300">suggested</span>
+              ) : (
+                <button
+                  onClick={() => onVoiceChange(profile.speaker, null)}
+                  disabled={disabled}
+                  className="text-xs text-gray-400 hover:text-purple-300 disabled:opacity-50"
+                  title={`Use suggested voice (${suggestVoice(profile.age, profile.gender)})`}
+                >
+                  reset
+                </button>
+              )}
+              <button
+                onClick={() => handleAudition(profile)}
+                disabled={disabled || auditioning !== null}
+                className="px-3 py-1 text-sm font-semibold rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50"
+              >
+                {auditioning === profile.speaker ? 'Playing…' : '▶ Audition'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {auditionError && <p className="mt-2 text-sm text-red-300">{auditionError}</p>}
+      <p className="mt-2 text-xs text-gray-400">
+        Click a name to rename the speaker. Renaming to an existing name, or merging, combines the two into one person.
+      </p>
+    </div>
+  );
+};
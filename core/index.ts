@@ -0,0 +1,71 @@
+/**
+ * The parse, synthesize and stitch logic behind the app, with no React or DOM
+ * in the way, for scripts and the `video2sound` CLI. Everything here runs in
+ * Node as well as the browser, given a Node-side renderer (`renderMixToPcm`)
+ * and segment extractor; `renderMix` and the default extractor need a browser.
+ */
+
+export type {
+  DialogueLine,
+  DialogueMode,
+  LineFit,
+  MixSettings,
+  MusicPlan,
+  MusicSettings,
+  ScriptLine,
+  SoundEvent,
+  SpeakerAppearance,
+  SynthesizedClip,
+  VoiceCasting,
+} from '../types';
+
+// Pipeline
+export {
+  createLineSynthesizer,
+  mixDialogue,
+  runDialoguePipeline,
+  synthesizeClips,
+  voiceAndMix,
+  type DialogueMix,
+  type LineSynthesizer,
+  type PipelineCheckpoint,
+  type PipelineOptions,
+  type PipelineProgress,
+  type PipelineResult,
+  type VoiceAndMixOptions,
+} from '../services/dialoguePipeline';
+export { analyzeVideo, needsSegmenting, type SegmentExtractor, type VideoAnalysis } from '../services/videoAnalysis';
+export { DEFAULT_TARGET_LANGUAGE, translateScript } from '../services/dubbing';
+export { createRequestScheduler, type RequestScheduler } from '../services/requestScheduler';
+
+// Providers
+export type { SpeechProvider } from '../services/speechProvider';
+export { mockProvider } from '../services/mockProvider';
+export * from '../services/errors';
+
+// Parsing
+export { parseScript, formatScriptLine, type RejectedLine, type ScriptParseResult } from '../utils/scriptParser';
+export { importScript, applyInferredTraits, type ScriptImportResult } from '../utils/scriptImport';
+export { toDialogueLine, toScriptLines } from '../utils/dialogueUtils';
+
+// Casting
+export { DEFAULT_VOICE, PREBUILT_VOICES, resolveCasting, suggestVoice } from '../services/voices';
+
+// Audio
+export {
+  audioBufferToWavBlob,
+  CLIP_SAMPLE_RATE,
+  decode,
+  DEFAULT_MIX_SETTINGS,
+  pcm16ToFloat32,
+  renderMix,
+  type MixRenderer,
+  type PcmAudio,
+  type WavBitDepth,
+} from '../utils/audioUtils';
+export { createPcmBuffer, renderMixToPcm, type PcmBuffer } from '../utils/mixRenderer';
+export { encodeFlac, type FlacBitDepth } from '../utils/flacEncoder';
+export { DEFAULT_MUSIC_SETTINGS } from '../services/musicScore';
+
+// Subtitles
+export { buildSubtitleCues, toSrt, toWebVtt, type SubtitleCue, type SubtitleOptions } from '../utils/subtitleUtils';
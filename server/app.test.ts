@@ -0,0 +1,187 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { DialogueLine } from '../types';
+import { geminiProvider } from '../services/geminiService';
+import { parseScript } from '../utils/scriptParser';
+import { createApp } from './app';
+import { createRateLimiter } from './rateLimit';
+import { createStubModel } from './stubModel';
+import { createUploadStore } from './uploads';
+
+const line: DialogueLine = {
+  time: 1.5,
+  speaker: 'Speaker 1',
+  age: 'Adult',
+  gender: 'Female',
+  performanceCue: 'calmly',
+  text: 'Hello there.',
+};
+
+const RELAXED = { burst: 100, perMinute: 100 };
+
+let tmpDir: string;
+let stub: Server;
+let server: Server;
+let baseUrl: string;
+
+async function listen(target: Server): Promise<string> {
+  await new Promise<void>(resolve => target.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+}
+
+function close(target: Server | undefined): Promise<void> {
+  return new Promise(resolve => (target ? target.close(() => resolve()) : resolve()));
+}
+
+/**
+ * Calls the server as the given user; each test uses its own so rate limits don't leak between them.
+ */
+function request(user: string, urlPath: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${baseUrl}${urlPath}`, { ...init, headers: { 'x-user': user, ...init.headers } });
+}
+
+function postJson(user: string, urlPath: string, body: unknown): Promise<Response> {
+  return request(user, urlPath, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+}
+
+function patchUpload(user: string, id: string, offset: number, bytes: Uint8Array): Promise<Response> {
+  return request(user, `/api/uploads/${id}`, { method: 'PATCH', headers: { 'Upload-Offset': String(offset) }, body: bytes });
+}
+
+async function createUpload(user: string, size: number): Promise<string> {
+  const response = await postJson(user, '/api/uploads', { size, mimeType: 'video/mp4' });
+  expect(response.status).toBe(201);
+  return ((await response.json()) as { id: string }).id;
+}
+
+beforeAll(async () => {
+  tmpDir = await mkdtemp(path.join(os.tmpdir(), 'video-to-sound-test-'));
+  const staticDir = path.join(tmpDir, 'dist');
+  await mkdir(staticDir);
+  await writeFile(path.join(staticDir, 'index.html'), '<!doctype html><title>app</title>');
+  await writeFile(path.join(tmpDir, 'secret.txt'), 'secret');
+
+  stub = createServer(createStubModel());
+  // The Gemini client reads these when it is first used.
+  process.env.GEMINI_API_KEY = 'stub';
+  process.env.GEMINI_BASE_URL = await listen(stub);
+
+  server = createServer(createApp({
+    provider: geminiProvider,
+    uploads: createUploadStore({ dir: path.join(tmpDir, 'uploads'), maxBytes: 1024 * 1024, ttlMs: 60000 }),
+    limits: {
+      upload: createRateLimiter({ burst: 3, perMinute: 1 }),
+      chunk: createRateLimiter(RELAXED),
+      script: createRateLimiter(RELAXED),
+      tts: createRateLimiter(RELAXED),
+    },
+    userHeader: 'x-user',
+    logger: () => {},
+    staticDir,
+  }));
+  baseUrl = await listen(server);
+});
+
+afterAll(async () => {
+  await close(server);
+  await close(stub);
+  if (tmpDir) await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('POST /api/script', () => {
+  it('writes a dialogue script for an uploaded video', async () => {
+    const id = await createUpload('script', 4);
+    expect((await patchUpload('script', id, 0, new Uint8Array([1, 2, 3, 4]))).status).toBe(204);
+
+    const response = await postJson('script', '/api/script', { task: 'dialogue', guidance: '', uploadId: id });
+    expect(response.status).toBe(200);
+    const { text } = (await response.json()) as { text: string };
+    expect(parseScript(text).lines.length).toBeGreaterThan(0);
+  });
+
+  it('translates lines', async () => {
+    const response = await postJson('script', '/api/script', { task: 'translate', guidance: '', lines: [line], targetLanguage: 'French' });
+    expect(response.status).toBe(200);
+    const { text } = (await response.json()) as { text: string };
+    expect(JSON.parse(text)).toEqual([{ index: 0, text: expect.stringContaining('Hello there.') }]);
+  });
+
+  it('rejects an unfinished upload and an unknown task', async () => {
+    const id = await createUpload('script', 4);
+    expect((await postJson('script', '/api/script', { task: 'dialogue', uploadId: id })).status).toBe(409);
+    expect((await postJson('script', '/api/script', { task: 'poetry', lines: [line] })).status).toBe(400);
+  });
+});
+
+describe('POST /api/tts', () => {
+  it('voices a line', async () => {
+    const response = await postJson('tts', '/api/tts', { line });
+    expect(response.status).toBe(200);
+    const { audio } = (await response.json()) as { audio: string };
+    expect(Buffer.from(audio, 'base64').length).toBeGreaterThan(0);
+  });
+
+  it('rejects an unknown voice', async () => {
+    expect((await postJson('tts', '/api/tts', { line, voiceName: 'Nobody' })).status).toBe(400);
+  });
+});
+
+describe('resumable uploads', () => {
+  it('reports the offset and refuses chunks that do not continue from it', async () => {
+    const id = await createUpload('resume', 10);
+    const first = await patchUpload('resume', id, 0, new Uint8Array(4));
+    expect(first.status).toBe(204);
+    expect(first.headers.get('upload-offset')).toBe('4');
+
+    // A resent chunk no longer lines up with what has arrived.
+    const repeated = await patchUpload('resume', id, 0, new Uint8Array(4));
+    expect(repeated.status).toBe(409);
+
+    const head = await request('resume', `/api/uploads/${id}`, { method: 'HEAD' });
+    expect(head.status).toBe(200);
+    expect(head.headers.get('upload-offset')).toBe('4');
+    expect(head.headers.get('upload-length')).toBe('10');
+
+    const rest = await patchUpload('resume', id, 4, new Uint8Array(6));
+    expect(rest.headers.get('upload-offset')).toBe('10');
+  });
+
+  it('hides uploads from other users', async () => {
+    const id = await createUpload('owner', 4);
+    expect((await request('someone-else', `/api/uploads/${id}`, { method: 'HEAD' })).status).toBe(404);
+  });
+});
+
+describe('rate limits', () => {
+  it('answers 429 once a user has spent their allowance, without affecting others', async () => {
+    for (let i = 0; i < 3; i++) await createUpload('busy', 4);
+
+    const limited = await postJson('busy', '/api/uploads', { size: 4, mimeType: 'video/mp4' });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(((await limited.json()) as { error: { kind: string } }).error.kind).toBe('RateLimitError');
+
+    await createUpload('idle', 4);
+  });
+});
+
+describe('static files', () => {
+  it('serves the app for its own routes', async () => {
+    const response = await request('static', '/projects/42');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<title>app</title>');
+  });
+
+  it.each(['/..%2fsecret.txt', '/%2e%2e%2fsecret.txt'])('does not serve %s from outside the build', async (urlPath) => {
+    const response = await request('static', urlPath);
+    expect(await response.text()).not.toContain('secret');
+  });
+
+  it('answers 400 to a malformed path', async () => {
+    expect((await request('static', '/%E0%A4%A')).status).toBe(400);
+  });
+});
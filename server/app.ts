@@ -0,0 +1,243 @@
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import path from 'node:path';
+import type { DialogueLine } from '../types';
+import type { SpeechProvider } from '../services/speechProvider';
+import type { ScriptRequest, ScriptTask } from '../services/serverProvider';
+import { PREBUILT_VOICES } from '../services/voices';
+import { HttpError, readJson, sendError, sendJson } from './http';
+import type { RequestLogger } from './logger';
+import type { RateLimiter } from './rateLimit';
+import type { UploadStore } from './uploads';
+
+export interface AppOptions {
+  /** The backend that does the work; Gemini in production, the mock offline. */
+  provider: SpeechProvider;
+  uploads: UploadStore;
+  /** `chunk` covers the requests that resume and continue an upload, several per video. */
+  limits: Record<'upload' | 'chunk' | 'script' | 'tts', RateLimiter>;
+  /**
+   * A header set by an authenticating proxy in front of this server that names
+   * the user. Without it, or when it is missing, users are told apart by address.
+   */
+  userHeader: string | null;
+  logger: RequestLogger;
+  /** The built app (`dist`) to serve alongside the API, if any. */
+  staticDir: string | null;
+}
+
+const VIDEO_TASKS = {
+  dialogue: 'generateDialogueScript',
+  transcribe: 'transcribeSpeech',
+  effects: 'generateSoundEventScript',
+  music: 'generateMusicCueSheet',
+} as const satisfies Partial<Record<ScriptTask, keyof SpeechProvider>>;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+/**
+ * State shared between a route and the request log.
+ */
+interface RequestContext {
+  user: string;
+  signal: AbortSignal;
+  detail?: string;
+}
+
+function getUser(req: IncomingMessage, userHeader: string | null): string {
+  const value = userHeader ? req.headers[userHeader.toLowerCase()] : undefined;
+  const user = (Array.isArray(value) ? value[0] : value)?.trim();
+  return user ? `user:${user}` : `ip:${req.socket.remoteAddress ?? 'unknown'}`;
+}
+
+function checkLimit(limiter: RateLimiter, user: string): void {
+  const decision = limiter.take(user);
+  if (!decision.allowed) {
+    throw new HttpError(429, 'Too many requests', 'RateLimitError', Math.ceil(decision.retryAfterSeconds));
+  }
+}
+
+function isDialogueLine(value: unknown): value is DialogueLine {
+  const line = value as Partial<DialogueLine> | null;
+  return typeof line === 'object' && line !== null
+    && typeof line.time === 'number' && typeof line.speaker === 'string' && typeof line.text === 'string';
+}
+
+function readLines(body: Partial<ScriptRequest>): DialogueLine[] {
+  if (!Array.isArray(body.lines) || body.lines.length === 0 || !body.lines.every(isDialogueLine)) {
+    throw new HttpError(400, 'Expected a non-empty list of lines', 'InvalidInputError');
+  }
+  return body.lines;
+}
+
+function readUploadOffset(req: IncomingMessage): number {
+  const offset = Number(req.headers['upload-offset']);
+  if (!Number.isInteger(offset) || offset < 0) throw new HttpError(400, 'Missing or invalid Upload-Offset header', 'InvalidInputError');
+  return offset;
+}
+
+/**
+ * Serves a file from the built app, falling back to `index.html` so the app
+ * handles its own routes.
+ * @returns Whether a file was sent.
+ */
+async function serveStatic(res: ServerResponse, staticDir: string, urlPath: string): Promise<boolean> {
+  const root = path.resolve(staticDir);
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch {
+    throw new HttpError(400, 'Malformed path', 'InvalidInputError');
+  }
+  for (const candidate of [decoded, '/index.html']) {
+    const filePath = path.resolve(root, `.${candidate}`);
+    if (!filePath.startsWith(root + path.sep)) continue;
+    const info = await stat(filePath).catch(() => null);
+    if (!info?.isFile()) continue;
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream',
+      'Content-Length': info.size,
+    });
+    createReadStream(filePath).pipe(res);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Creates the request handler for the API proxy. The browser uploads videos in
+ * resumable chunks, then asks for scripts and speech by upload id; the API key
+ * stays here. Every request is rate limited per user and logged.
+ *
+ * Routes:
+ * - `POST /api/uploads` `{ size, mimeType }` → `{ id, offset }`
+ * - `HEAD /api/uploads/:id` → `Upload-Offset` header
+ * - `PATCH /api/uploads/:id` with `Upload-Offset` and the next bytes → `Upload-Offset` header
+ * - `POST /api/script` `{ task, guidance, uploadId?, lines?, targetLanguage? }` → `{ text }`
+ * - `POST /api/tts` `{ line, voiceName? }` → `{ audio }`
+ * - `GET /api/health` → `{ provider }`
+ * @param options The backend, stores, limits and logging.
+ * @returns A handler for `http.createServer`.
+ */
+export function createApp(options: AppOptions): RequestListener {
+  const { provider, uploads, limits } = options;
+
+  const route = async (req: IncomingMessage, res: ServerResponse, url: URL, context: RequestContext): Promise<void> => {
+    const { user, signal } = context;
+    const uploadMatch = url.pathname.match(/^\/api\/uploads\/([\w-]+)$/);
+
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+      sendJson(res, 200, { provider: provider.name });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/uploads') {
+      checkLimit(limits.upload, user);
+      const body = await readJson<{ size?: number; mimeType?: string }>(req);
+      const upload = await uploads.create(user, Number(body.size), String(body.mimeType ?? ''));
+      context.detail = upload.id;
+      sendJson(res, 201, { id: upload.id, offset: upload.offset });
+      return;
+    }
+
+    if (uploadMatch && req.method === 'HEAD') {
+      checkLimit(limits.chunk, user);
+      const upload = uploads.get(user, uploadMatch[1]);
+      res.writeHead(200, { 'Upload-Offset': String(upload.offset), 'Upload-Length': String(upload.size), 'Cache-Control': 'no-store' });
+      res.end();
+      return;
+    }
+
+    if (uploadMatch && req.method === 'PATCH') {
+      checkLimit(limits.chunk, user);
+      context.detail = uploadMatch[1];
+      const offset = await uploads.append(user, uploadMatch[1], readUploadOffset(req), req);
+      res.writeHead(204, { 'Upload-Offset': String(offset) });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/script') {
+      checkLimit(limits.script, user);
+      const body = await readJson<Partial<ScriptRequest>>(req);
+      const guidance = typeof body.guidance === 'string' ? body.guidance : '';
+      context.detail = body.task;
+
+      let text: string;
+      if (body.task && body.task in VIDEO_TASKS) {
+        if (typeof body.uploadId !== 'string') throw new HttpError(400, 'Missing uploadId', 'InvalidInputError');
+        const video = await uploads.open(user, body.uploadId);
+        text = await provider[VIDEO_TASKS[body.task as keyof typeof VIDEO_TASKS]](video, guidance, signal);
+      } else if (body.task === 'translate') {
+        if (typeof body.targetLanguage !== 'string' || body.targetLanguage.trim() === '') {
+          throw new HttpError(400, 'Missing targetLanguage', 'InvalidInputError');
+        }
+        text = await provider.translateLines(readLines(body), body.targetLanguage, guidance, signal);
+      } else if (body.task === 'traits') {
+        text = await provider.inferSpeakerTraits(readLines(body), guidance, signal);
+      } else {
+        throw new HttpError(400, `Unknown task: ${String(body.task)}`, 'InvalidInputError');
+      }
+      sendJson(res, 200, { text });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/tts') {
+      checkLimit(limits.tts, user);
+      const body = await readJson<{ line?: unknown; voiceName?: unknown }>(req);
+      if (!isDialogueLine(body.line)) throw new HttpError(400, 'Expected a line', 'InvalidInputError');
+      if (body.voiceName !== undefined && !PREBUILT_VOICES.some(voice => voice.name === body.voiceName)) {
+        throw new HttpError(400, `Unknown voice: ${String(body.voiceName)}`, 'InvalidInputError');
+      }
+      const audio = await provider.generateAudioForDialogueLine(body.line, body.voiceName as string | undefined, signal);
+      sendJson(res, 200, { audio });
+      return;
+    }
+
+    if (url.pathname.startsWith('/api/')) {
+      throw new HttpError(404, 'Not found');
+    }
+    if (options.staticDir && (req.method === 'GET' || req.method === 'HEAD') && await serveStatic(res, options.staticDir, url.pathname)) {
+      return;
+    }
+    throw new HttpError(404, 'Not found');
+  };
+
+  return (req, res) => {
+    const startedAt = Date.now();
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const controller = new AbortController();
+    const context: RequestContext = { user: getUser(req, options.userHeader), signal: controller.signal };
+    let error: unknown;
+
+    // A browser that gives up (or cancels) closes the connection; stop the model call too.
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort(new DOMException('The client closed the connection', 'AbortError'));
+      options.logger({
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        status: res.writableFinished ? res.statusCode : 499,
+        durationMs: Date.now() - startedAt,
+        user: context.user,
+        bytesIn: Number(req.headers['content-length'] ?? 0),
+        detail: context.detail,
+        error: res.statusCode >= 500 && error !== undefined ? String(error instanceof Error ? error.message : error) : undefined,
+      });
+    });
+
+    route(req, res, url, context).catch((caught: unknown) => {
+      if (controller.signal.aborted) return;
+      error = caught;
+      sendError(res, caught);
+    });
+  };
+}
@@ -0,0 +1,101 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  classifyProviderError,
+  EmptyResponseError,
+  InvalidInputError,
+  NetworkError,
+  RateLimitError,
+  SafetyBlockedError,
+  ServerError,
+  type ProviderError,
+} from '../services/errors';
+import type { ErrorBody } from '../services/serverProvider';
+
+// Scripts travel as JSON; anything bigger than this is not a script.
+const MAX_JSON_BYTES = 2 * 1024 * 1024;
+
+/**
+ * A failure that maps directly onto an HTTP response. `kind` is what the
+ * browser sees as the error's type.
+ */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly kind = 'ProviderError', readonly retryAfterSeconds: number | null = null) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Reads a request body as JSON, rejecting bodies that are too large or malformed.
+ * @param req The incoming request.
+ * @param maxBytes The largest body accepted.
+ * @returns The parsed body.
+ */
+export async function readJson<T>(req: IncomingMessage, maxBytes = MAX_JSON_BYTES): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body is too large', 'InvalidInputError');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T;
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON', 'InvalidInputError');
+  }
+}
+
+/**
+ * Sends a JSON response.
+ * @param res The response.
+ * @param status The HTTP status.
+ * @param body The value to serialize.
+ * @param headers Extra headers to send.
+ */
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  const data = JSON.stringify(body);
+  res.writeHead(status, {
+    ...headers,
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(data),
+  });
+  res.end(data);
+}
+
+/**
+ * Picks the status a provider failure is reported with. Failures of the model
+ * behind the proxy are gateway errors, so the browser retries them like before.
+ */
+function getProviderStatus(error: ProviderError): number {
+  if (error instanceof RateLimitError) return 429;
+  if (error instanceof InvalidInputError) return 400;
+  if (error instanceof SafetyBlockedError) return 422;
+  if (error instanceof NetworkError || error instanceof ServerError || error instanceof EmptyResponseError) return 502;
+  return 500;
+}
+
+/**
+ * Reports a failure as `{ error: { kind, message, retryAfterSeconds } }`, which
+ * the browser turns back into the matching provider error.
+ * @param res The response.
+ * @param error The value that was thrown.
+ * @returns The status that was sent.
+ */
+export function sendError(res: ServerResponse, error: unknown): number {
+  const failure = error instanceof HttpError ? error : classifyProviderError(error);
+  const status = failure instanceof HttpError ? failure.status : getProviderStatus(failure);
+  const kind = failure instanceof HttpError ? failure.kind : failure.name;
+  const retryAfterSeconds = failure instanceof HttpError || failure instanceof RateLimitError ? failure.retryAfterSeconds : null;
+  // Unexpected failures may carry internals; only typed ones are described to the browser.
+  const message = status === 500 && !(failure instanceof HttpError) ? 'Internal server error' : failure.message;
+
+  const body: ErrorBody = { error: { kind, message, retryAfterSeconds } };
+  const headers: Record<string, string> = retryAfterSeconds !== null ? { 'Retry-After': String(Math.ceil(retryAfterSeconds)) } : {};
+  if (res.headersSent) {
+    res.destroy();
+  } else {
+    sendJson(res, status, body, headers);
+  }
+  return status;
+}
@@ -0,0 +1,63 @@
+import { existsSync } from 'node:fs';
+import { createServer } from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { getNodeSpeechProvider } from '../services/nodeProvider';
+import { INLINE_VIDEO_LIMIT_BYTES } from '../services/videoAnalysis';
+import { createApp } from './app';
+import { createRequestLogger } from './logger';
+import { createRateLimiter } from './rateLimit';
+import { createUploadStore } from './uploads';
+
+const MB = 1024 * 1024;
+
+// Share `.env.local` with the Vite dev server; variables already set take precedence.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const port = readNumber('PORT', 8787);
+const staticDir = process.env.STATIC_DIR ?? (existsSync('dist/index.html') ? 'dist' : null);
+
+const uploads = createUploadStore({
+  dir: process.env.UPLOAD_DIR ?? path.join(os.tmpdir(), 'video-to-sound-uploads'),
+  // Videos are sent to Gemini inline, so nothing larger could be analyzed; the browser segments bigger videos first.
+  maxBytes: Math.min(readNumber('MAX_UPLOAD_MB', INLINE_VIDEO_LIMIT_BYTES / MB) * MB, INLINE_VIDEO_LIMIT_BYTES),
+  ttlMs: readNumber('UPLOAD_TTL_MINUTES', 60) * 60000,
+});
+
+const app = createApp({
+  // Gemini, which needs a key; `SPEECH_PROVIDER=mock` runs the server offline.
+  provider: getNodeSpeechProvider(),
+  uploads,
+  limits: {
+    upload: createRateLimiter({ burst: 10, perMinute: readNumber('UPLOAD_RATE_LIMIT', 10) }),
+    chunk: createRateLimiter({ burst: 20, perMinute: readNumber('CHUNK_RATE_LIMIT', 60) }),
+    script: createRateLimiter({ burst: 20, perMinute: readNumber('SCRIPT_RATE_LIMIT', 20) }),
+    tts: createRateLimiter({ burst: 60, perMinute: readNumber('TTS_RATE_LIMIT', 120) }),
+  },
+  userHeader: process.env.USER_HEADER ?? null,
+  logger: createRequestLogger(),
+  staticDir,
+});
+
+const server = createServer(app);
+const sweeper = setInterval(() => void uploads.sweep(), 60000);
+
+server.listen(port, () => {
+  console.log(`API server listening on http://localhost:${port}${staticDir ? `, serving ${staticDir}` : ''}`);
+});
+
+async function shutdown(): Promise<void> {
+  clearInterval(sweeper);
+  server.close();
+  server.closeAllConnections();
+  await uploads.clear();
+  process.exit(0);
+}
+
+process.once('SIGINT', () => void shutdown());
+process.once('SIGTERM', () => void shutdown());
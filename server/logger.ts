@@ -0,0 +1,25 @@
+export interface RequestLogEntry {
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  user: string;
+  /** Bytes received in the request body. */
+  bytesIn: number;
+  /** The script pass or upload the request was about, when there is one. */
+  detail?: string;
+  /** Why the request failed, for statuses of 500 and above. */
+  error?: string;
+}
+
+export type RequestLogger = (entry: RequestLogEntry) => void;
+
+/**
+ * Creates a logger that writes one JSON object per request, ready for any log
+ * collector. Video contents, scripts and keys are never logged.
+ * @param write Where lines go; standard output by default.
+ * @returns The logger.
+ */
+export function createRequestLogger(write: (line: string) => void = line => process.stdout.write(`${line}\n`)): RequestLogger {
+  return (entry) => write(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+}
@@ -0,0 +1,61 @@
+export interface RateLimit {
+  /** How many requests may be made in a burst. */
+  burst: number;
+  /** How many requests are allowed per minute once the burst is spent. */
+  perMinute: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** How long until the next request would be allowed, when this one is not. */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  /** Takes one request's worth of allowance from a user. */
+  take(key: string, now?: number): RateLimitDecision;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Above this many tracked users, idle ones (whose allowance is full again) are forgotten.
+const MAX_TRACKED_KEYS = 10000;
+
+/**
+ * Creates a per-user token bucket: every user starts with `burst` requests,
+ * which refill steadily at `perMinute`.
+ * @param limit The burst size and sustained rate.
+ * @returns The limiter.
+ */
+export function createRateLimiter(limit: RateLimit): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = limit.perMinute / 60000;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  return {
+    take(key, now = Date.now()) {
+      if (buckets.size > MAX_TRACKED_KEYS) {
+        for (const [other, bucket] of buckets) {
+          refill(bucket, now);
+          if (bucket.tokens >= limit.burst) buckets.delete(other);
+        }
+      }
+
+      const bucket = buckets.get(key) ?? { tokens: limit.burst, updatedAt: now };
+      buckets.set(key, bucket);
+      refill(bucket, now);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+      return { allowed: false, retryAfterSeconds: (1 - bucket.tokens) / refillPerMs / 1000 };
+    },
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Runs the stub model (`npm run server:stub`), for testing the server without a
+ * key or network. Point the server at it with
+ * `GEMINI_BASE_URL=http://localhost:8788 GEMINI_API_KEY=stub`.
+ *
+ * `STUB_FAIL_EVERY=n` makes every nth request fail with a quota error, and
+ * `STUB_LATENCY_MS` delays every answer, to exercise retries and cancellation.
+ */
+
+import { createServer } from 'node:http';
+import { createStubModel } from './stubModel';
+
+const port = Number(process.env.STUB_PORT ?? 8788);
+
+const server = createServer(createStubModel({
+  failEvery: Number(process.env.STUB_FAIL_EVERY ?? 0),
+  latencyMs: Number(process.env.STUB_LATENCY_MS ?? 0),
+  log: console.log,
+}));
+
+server.listen(port, () => {
+  console.log(`Stub model listening on http://localhost:${port}`);
+});
+
+process.once('SIGINT', () => server.close());
+process.once('SIGTERM', () => server.close());
@@ -0,0 +1,102 @@
+import type { RequestListener } from 'node:http';
+import type { DialogueLine } from '../types';
+import { mockProvider } from '../services/mockProvider';
+import { readJson, sendError, sendJson } from './http';
+
+interface Part {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+}
+
+interface GenerateContentBody {
+  contents?: Array<{ parts?: Part[] }>;
+  generationConfig?: {
+    responseSchema?: { type?: string; properties?: Record<string, unknown> };
+  };
+}
+
+export interface StubModelOptions {
+  /** Makes every nth request fail with a quota error; 0 never fails. */
+  failEvery?: number;
+  /** Delays every answer, to exercise cancellation. */
+  latencyMs?: number;
+  /** Told about every request, e.g. `console.log`. */
+  log?: (message: string) => void;
+}
+
+// Videos arrive inline as base64.
+const MAX_REQUEST_BYTES = 64 * 1024 * 1024;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Recovers the numbered lines the translation and speaker prompts list, e.g.
+ * `3. (1.2s) Speaker 1 [sadly]: Hello`.
+ */
+function readNumberedLines(prompt: string): DialogueLine[] {
+  return [...prompt.matchAll(/^(\d+)\.\s+(?:\([\d.]+s\)\s+|\[[\d.]+\]\s+)?([^:[\n]+?)(?:\s+\[[^\]]*\])?:\s+(.*)$/gm)].map(match => ({
+    time: Number(match[1]),
+    speaker: match[2].trim(),
+    age: 'Adult',
+    gender: 'Female',
+    performanceCue: '',
+    text: match[3],
+  }));
+}
+
+async function answer(model: string, body: GenerateContentBody): Promise<Part> {
+  const parts = body.contents?.flatMap(content => content.parts ?? []) ?? [];
+  const prompt = parts.map(part => part.text ?? '').join('\n');
+  const video = parts.find(part => part.inlineData)?.inlineData;
+  const schema = body.generationConfig?.responseSchema;
+  const blob = new Blob([], { type: video?.mimeType });
+
+  if (model.includes('tts')) {
+    const line: DialogueLine = { time: 0, speaker: 'Stub', age: 'Adult', gender: 'Female', performanceCue: '', text: prompt.split('\n').pop() ?? prompt };
+    return { inlineData: { mimeType: 'audio/L16;codec=pcm;rate=24000', data: await mockProvider.generateAudioForDialogueLine(line) } };
+  }
+  if (video) {
+    if (!schema) return { text: await mockProvider.generateSoundEventScript(blob, '') };
+    if (schema.properties && 'cues' in schema.properties) return { text: await mockProvider.generateMusicCueSheet(blob, '') };
+    return { text: await mockProvider.generateDialogueScript(blob, '') };
+  }
+  const lines = readNumberedLines(prompt);
+  if (schema?.type === 'ARRAY') return { text: await mockProvider.translateLines(lines, 'stub', '') };
+  return { text: await mockProvider.inferSpeakerTraits(lines, '') };
+}
+
+/**
+ * Creates a stand-in for the Gemini API's `generateContent` endpoint, for testing
+ * the server without a key or network. It answers each request with the offline
+ * mock's fixtures, picking the pass from what was asked.
+ * @param options Failures and latency to simulate.
+ * @returns A handler for `http.createServer`.
+ */
+export function createStubModel(options: StubModelOptions = {}): RequestListener {
+  const { failEvery = 0, latencyMs = 0, log } = options;
+  let requestCount = 0;
+
+  return async (req, res) => {
+    const match = req.url?.match(/\/models\/([^/:?]+):generateContent/);
+    if (req.method !== 'POST' || !match) {
+      sendJson(res, 404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+      return;
+    }
+
+    requestCount += 1;
+    log?.(`stub: ${match[1]} request ${requestCount}`);
+    try {
+      const body = await readJson<GenerateContentBody>(req, MAX_REQUEST_BYTES);
+      if (latencyMs > 0) await sleep(latencyMs);
+      if (failEvery > 0 && requestCount % failEvery === 0) {
+        sendJson(res, 429, { error: { code: 429, message: 'Resource has been exhausted (e.g. check quota). Please retry in 1s.', status: 'RESOURCE_EXHAUSTED' } });
+        return;
+      }
+      sendJson(res, 200, {
+        candidates: [{ content: { role: 'model', parts: [await answer(match[1], body)] }, finishReason: 'STOP' }],
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
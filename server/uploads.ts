@@ -0,0 +1,133 @@
+import { randomUUID } from 'node:crypto';
+import { createWriteStream, openAsBlob } from 'node:fs';
+import { mkdir, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { HttpError } from './http';
+
+export interface Upload {
+  id: string;
+  /** The total size the client announced, in bytes. */
+  size: number;
+  mimeType: string;
+  /** How many bytes have arrived so far. */
+  offset: number;
+  /** Who started the upload; only they can add to or use it. */
+  owner: string;
+  updatedAt: number;
+}
+
+export interface UploadStoreOptions {
+  dir: string;
+  maxBytes: number;
+  /** How long an upload is kept after it was last touched. */
+  ttlMs: number;
+}
+
+export interface UploadStore {
+  /** Registers a new upload; the bytes follow through `append`. */
+  create(owner: string, size: number, mimeType: string): Promise<Upload>;
+  get(owner: string, id: string): Upload;
+  /**
+   * Streams the next part of an upload to disk. `offset` must match what has
+   * arrived so far; after a broken connection the client asks for the offset
+   * and resends from there.
+   * @returns The upload's new offset.
+   */
+  append(owner: string, id: string, offset: number, body: Readable): Promise<number>;
+  /** Opens a finished upload as a Blob, read from disk lazily. */
+  open(owner: string, id: string): Promise<Blob>;
+  /** Deletes uploads that have not been touched within the TTL. */
+  sweep(now?: number): Promise<void>;
+  /** Deletes every upload. */
+  clear(): Promise<void>;
+}
+
+const isMediaType = (mimeType: string) => /^(video|audio)\/[\w.+-]+$/.test(mimeType);
+
+const notFound = () => new HttpError(404, 'Upload not found', 'UploadNotFoundError');
+
+/**
+ * Creates a store that keeps partial and finished video uploads in a directory.
+ * Uploads are resumable: bytes are appended in order and the offset survives a
+ * dropped connection. Everything lives on disk, so large videos never sit in memory.
+ * @param options Where to keep uploads, how big they may be and how long they live.
+ * @returns The store.
+ */
+export function createUploadStore(options: UploadStoreOptions): UploadStore {
+  const uploads = new Map<string, Upload>();
+  const writing = new Set<string>();
+  const filePath = (id: string) => path.join(options.dir, id);
+
+  const get = (owner: string, id: string): Upload => {
+    const upload = uploads.get(id);
+    // Someone else's upload is reported as missing rather than forbidden, so ids can't be probed.
+    if (!upload || upload.owner !== owner) throw notFound();
+    return upload;
+  };
+
+  const remove = async (id: string) => {
+    uploads.delete(id);
+    await rm(filePath(id), { force: true });
+  };
+
+  return {
+    async create(owner, size, mimeType) {
+      if (!Number.isInteger(size) || size <= 0) throw new HttpError(400, 'Upload size must be a positive number of bytes', 'InvalidInputError');
+      if (size > options.maxBytes) throw new HttpError(413, `Videos may be at most ${Math.floor(options.maxBytes / (1024 * 1024))} MB`, 'InvalidInputError');
+      if (!isMediaType(mimeType)) throw new HttpError(415, `Unsupported media type: ${mimeType || 'none'}`, 'InvalidInputError');
+
+      await mkdir(options.dir, { recursive: true });
+      const upload: Upload = { id: randomUUID(), size, mimeType, offset: 0, owner, updatedAt: Date.now() };
+      uploads.set(upload.id, upload);
+      return { ...upload };
+    },
+
+    get: (owner, id) => ({ ...get(owner, id) }),
+
+    async append(owner, id, offset, body) {
+      const upload = get(owner, id);
+      if (writing.has(id)) throw new HttpError(409, 'Another part of this upload is still arriving', 'ProviderError');
+      if (offset !== upload.offset) throw new HttpError(409, `Expected offset ${upload.offset}`, 'ProviderError');
+
+      writing.add(id);
+      let received = 0;
+      try {
+        await pipeline(
+          body,
+          async function* (source: AsyncIterable<Buffer>) {
+            for await (const chunk of source) {
+              received += chunk.length;
+              if (upload.offset + received > upload.size) throw new HttpError(413, 'Upload is larger than announced', 'InvalidInputError');
+              yield chunk;
+            }
+          },
+          createWriteStream(filePath(id), { flags: 'a' })
+        );
+      } finally {
+        // Trust the file rather than the count: a broken connection may have left part of a chunk.
+        upload.offset = await stat(filePath(id)).then(info => info.size, () => 0);
+        upload.updatedAt = Date.now();
+        writing.delete(id);
+      }
+      return upload.offset;
+    },
+
+    async open(owner, id) {
+      const upload = get(owner, id);
+      if (upload.offset < upload.size) throw new HttpError(409, 'Upload is not finished', 'ProviderError');
+      upload.updatedAt = Date.now();
+      return openAsBlob(filePath(id), { type: upload.mimeType });
+    },
+
+    async sweep(now = Date.now()) {
+      const expired = [...uploads.values()].filter(upload => !writing.has(upload.id) && now - upload.updatedAt > options.ttlMs);
+      await Promise.all(expired.map(upload => remove(upload.id)));
+    },
+
+    async clear() {
+      await Promise.all([...uploads.keys()].map(remove));
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import type { DialogueLine } from '../types';
+import { buildTtsPrompt } from './voices';
+import { openDatabase, requestToPromise, withTransaction } from '../utils/idb';
+
+const DB_NAME = 'video-to-dialogue-audio-cache';
+const DB_VERSION = 1;
+const CLIPS_STORE = 'clips';
+
+// Bump to invalidate every stored clip, e.g. if the audio format changes.
+const CACHE_FORMAT_VERSION = 1;
+
+export interface AudioCacheOptions {
+  /** How much decoded PCM to keep in memory. */
+  memoryLimitBytes: number;
+  /** How much decoded PCM to keep in IndexedDB across sessions. */
+  persistentLimitBytes: number;
+}
+
+export const DEFAULT_AUDIO_CACHE_OPTIONS: AudioCacheOptions = {
+  memoryLimitBytes: 32 * 1024 * 1024,
+  persistentLimitBytes: 256 * 1024 * 1024,
+};
+
+export interface AudioCacheStats {
+  /** Lookups answered from memory or IndexedDB, i.e. TTS calls saved. */
+  hits: number;
+  misses: number;
+  /** Size of the clips in IndexedDB, or of those in memory if IndexedDB is unavailable. */
+  storedBytes: number;
+}
+
+export interface AudioCache {
+  /** Looks up a clip, refreshing its place in the eviction order. */
+  get(key: string): Promise<Uint8Array | null>;
+  /** Stores a clip, evicting the least recently used ones if over a limit. */
+  put(key: string, audio: Uint8Array): Promise<void>;
+  /** Removes every stored clip. */
+  clear(): Promise<void>;
+  getStats(): AudioCacheStats;
+}
+
+interface StoredClip {
+  key: string;
+  audio: Uint8Array;
+  lastUsed: number;
+}
+
+/**
+ * Computes the cache key for a line: a SHA-256 of everything that determines
+ * the synthesized audio, namely the backend, the TTS prompt and the voice.
+ * Timing and speaker labels are left out, so moving or relabeling a line still
+ * hits the cache.
+ * @param providerName The speech backend that would synthesize the line.
+ * @param line The line to synthesize.
+ * @param voiceName The voice cast for the line's speaker.
+ * @returns The key as a hex string, or null if hashing is unavailable (insecure origins).
+ */
+export async function getAudioCacheKey(providerName: string, line: DialogueLine, voiceName: string): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const input = JSON.stringify([CACHE_FORMAT_VERSION, providerName, buildTtsPrompt(line), voiceName]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Creates a two-level cache of decoded TTS clips: a small in-memory LRU in front
+ * of a larger IndexedDB store that survives reloads. Both levels evict the least
+ * recently used clips once over their size limit. If IndexedDB cannot be opened
+ * the cache keeps working from memory alone.
+ * @param options Overrides for the default size limits.
+ * @returns The cache.
+ */
+export function createAudioCache(options: Partial<AudioCacheOptions> = {}): AudioCache {
+  const settings: AudioCacheOptions = { ...DEFAULT_AUDIO_CACHE_OPTIONS, ...options };
+  // Map iteration follows insertion order, so re-inserting on use keeps the oldest entry first.
+  const memory = new Map<string, Uint8Array>();
+  let memoryBytes = 0;
+  let persistentBytes: number | null = null;
+  let hits = 0;
+  let misses = 0;
+  let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+  const remember = (key: string, audio: Uint8Array) => {
+    const existing = memory.get(key);
+    if (existing) {
+      memory.delete(key);
+      memoryBytes -= existing.byteLength;
+    }
+    memory.set(key, audio);
+    memoryBytes += audio.byteLength;
+    for (const [oldestKey, oldest] of memory) {
+      if (memoryBytes <= settings.memoryLimitBytes || oldestKey === key) break;
+      memory.delete(oldestKey);
+      memoryBytes -= oldest.byteLength;
+    }
+  };
+
+  const measureStore = (db: IDBDatabase) => withTransaction(db, CLIPS_STORE, 'readonly', transaction => new Promise<number>((resolve, reject) => {
+    let total = 0;
+    const request = transaction.objectStore(CLIPS_STORE).openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(total);
+        return;
+      }
+      total += (cursor.value as StoredClip).audio.byteLength;
+      cursor.continue();
+    };
+  }));
+
+  const evictFromStore = (db: IDBDatabase) => withTransaction(db, CLIPS_STORE, 'readwrite', transaction => new Promise<void>((resolve, reject) => {
+    const request = transaction.objectStore(CLIPS_STORE).index('lastUsed').openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || persistentBytes === null || persistentBytes <= settings.persistentLimitBytes) {
+        resolve();
+        return;
+      }
+      persistentBytes -= (cursor.value as StoredClip).audio.byteLength;
+      cursor.delete();
+      cursor.continue();
+    };
+  }));
+
+  const getDatabase = (): Promise<IDBDatabase | null> => {
+    if (!databasePromise) {
+      databasePromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(CLIPS_STORE)) {
+          db.createObjectStore(CLIPS_STORE, { keyPath: 'key' }).createIndex('lastUsed', 'lastUsed');
+        }
+      }).then(async db => {
+        persistentBytes = await measureStore(db);
+        return db;
+      }).catch(error => {
+        console.warn('Audio cache is running in memory only.', error);
+        return null;
+      });
+    }
+    return databasePromise;
+  };
+
+  return {
+    async get(key) {
+      const inMemory = memory.get(key);
+      if (inMemory) {
+        remember(key, inMemory);
+        hits++;
+        return inMemory;
+      }
+
+      const db = await getDatabase();
+      if (db) {
+        try {
+          const stored = await withTransaction(db, CLIPS_STORE, 'readwrite', async transaction => {
+            const store = transaction.objectStore(CLIPS_STORE);
+            const clip = await requestToPromise<StoredClip | undefined>(store.get(key));
+            if (clip) store.put({ ...clip, lastUsed: Date.now() });
+            return clip;
+          });
+          if (stored) {
+            remember(key, stored.audio);
+            hits++;
+            return stored.audio;
+          }
+        } catch (error) {
+          console.warn('Could not read from the audio cache.', error);
+        }
+      }
+
+      misses++;
+      return null;
+    },
+
+    async put(key, audio) {
+      remember(key, audio);
+      const db = await getDatabase();
+      if (!db) return;
+      try {
+        const previous = await withTransaction(db, CLIPS_STORE, 'readwrite', async transaction => {
+          const store = transaction.objectStore(CLIPS_STORE);
+          const existing = await requestToPromise<StoredClip | undefined>(store.get(key));
+          store.put({ key, audio, lastUsed: Date.now() } satisfies StoredClip);
+          return existing;
+        });
+        persistentBytes = (persistentBytes ?? 0) + audio.byteLength - (previous?.audio.byteLength ?? 0);
+        if (persistentBytes > settings.persistentLimitBytes) await evictFromStore(db);
+      } catch (error) {
+        // A full or unavailable store only costs future cache hits, never the clip itself.
+        console.warn('Could not write to the audio cache.', error);
+      }
+    },
+
+    async clear() {
+      memory.clear();
+      memoryBytes = 0;
+      hits = 0;
+      misses = 0;
+      const db = await getDatabase();
+      if (!db) return;
+      await withTransaction(db, CLIPS_STORE, 'readwrite', transaction => {
+        transaction.objectStore(CLIPS_STORE).clear();
+      });
+      persistentBytes = 0;
+    },
+
+    getStats() {
+      return { hits, misses, storedBytes: persistentBytes ?? memoryBytes };
+    },
+  };
+}
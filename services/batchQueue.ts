@@ -0,0 +1,317 @@
+import type { DialogueMode, LoadingStep, MixSettings, MusicSettings, ScriptLine, VoiceCasting } from '../types';
+import type { SpeechProvider } from './speechProvider';
+import { runDialoguePipeline, type LineSynthesizer, type PipelineCheckpoint } from './dialoguePipeline';
+import { DEFAULT_TARGET_LANGUAGE } from './dubbing';
+import { describeProviderError, EmptyResponseError } from './errors';
+import { DEFAULT_MUSIC_SETTINGS } from './musicScore';
+import { audioBufferToWavBlob, DEFAULT_MIX_SETTINGS, renderMix } from '../utils/audioUtils';
+import { getBaseName } from '../utils/fileUtils';
+import { formatScriptLine } from '../utils/scriptParser';
+import { waitForEvent } from '../utils/videoExport';
+import { createZip, type ZipEntry } from '../utils/zipUtils';
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchResult {
+  lines: ScriptLine[];
+  /** The mixed dialogue, effects and music track as a WAV file. */
+  audio: Blob;
+  /** Lines that could not be voiced and are missing from the track. */
+  failedLineCount: number;
+  rejectedLineCount: number;
+}
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: BatchJobStatus;
+  step: LoadingStep;
+  /** Items of the current step done so far, when the step can be counted. */
+  progress?: { completed: number; total: number };
+  error?: string;
+  result?: BatchResult;
+  /** Work kept from a failed or cancelled run; a retry resumes from here. */
+  checkpoint?: PipelineCheckpoint;
+}
+
+/**
+ * Settings every job in the queue shares. A job reads them when it starts, so
+ * changes apply to the videos that have not been processed yet.
+ */
+export interface BatchSettings {
+  guidance: string;
+  mode: DialogueMode;
+  targetLanguage: string;
+  /** Voices picked by speaker name, used wherever that speaker turns up. */
+  voiceOverrides: VoiceCasting;
+  soundEffectsEnabled: boolean;
+  maxSpeedup: number;
+  mixSettings: MixSettings;
+  musicSettings: MusicSettings;
+}
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = {
+  guidance: '',
+  mode: 'lipread',
+  targetLanguage: DEFAULT_TARGET_LANGUAGE,
+  voiceOverrides: {},
+  soundEffectsEnabled: true,
+  maxSpeedup: 1.25,
+  mixSettings: DEFAULT_MIX_SETTINGS,
+  musicSettings: DEFAULT_MUSIC_SETTINGS,
+};
+
+export interface BatchQueue {
+  add(files: File[]): void;
+  /** Holds the queue at the next stage boundary; the running job resumes where it stopped. */
+  pause(): void;
+  resume(): void;
+  /**
+   * Cancels one job, or every unfinished job when no id is given. A running job
+   * stops at the next stage boundary.
+   */
+  cancel(id?: string): void;
+  /** Puts a failed or cancelled job back in the queue, resuming from its last finished stage. */
+  retry(id: string): void;
+  remove(id: string): void;
+  setSettings(settings: BatchSettings): void;
+  isPaused(): boolean;
+  getJobs(): BatchJob[];
+  /** Subscribes to any change in the jobs or the paused state. Returns a function that unsubscribes. */
+  subscribe(listener: (jobs: BatchJob[]) => void): () => void;
+}
+
+export interface BatchQueueOptions {
+  provider: SpeechProvider;
+  synthesize: LineSynthesizer;
+  settings: BatchSettings;
+}
+
+let nextJobId = 0;
+
+/**
+ * Reads a video's duration without mounting it.
+ */
+async function getVideoFileDuration(videoUrl: string): Promise<number> {
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  video.src = videoUrl;
+  try {
+    if (video.readyState < 1) {
+      await Promise.race([
+        waitForEvent(video, 'loadedmetadata'),
+        waitForEvent(video, 'error').then(() => {
+          throw new Error('The video could not be read.');
+        }),
+      ]);
+    }
+    if (!isFinite(video.duration)) throw new Error('Could not determine the video duration.');
+    return video.duration;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+/**
+ * Creates a queue that voices videos one after another with shared settings.
+ * Jobs run one at a time; within a job, line synthesis still fans out through
+ * the synthesizer's own scheduler. Failures are recorded on the job and the
+ * queue moves on.
+ * @param options The backend, the line synthesizer and the initial settings.
+ * @returns The queue.
+ */
+export function createBatchQueue(options: BatchQueueOptions): BatchQueue {
+  const listeners = new Set<(jobs: BatchJob[]) => void>();
+  let jobs: BatchJob[] = [];
+  let settings = options.settings;
+  let paused = false;
+  let running = false;
+  let current: { id: string; controller: AbortController } | null = null;
+  let resumeWaiters: Array<() => void> = [];
+
+  const update = (id: string, patch: Partial<BatchJob>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+    listeners.forEach(listener => listener(jobs));
+  };
+
+  const notify = () => listeners.forEach(listener => listener(jobs));
+
+  /**
+   * Called before each stage: throws if the job was cancelled and waits while the queue is paused.
+   */
+  const waitWhilePaused = async (signal: AbortSignal) => {
+    signal.throwIfAborted();
+    while (paused) {
+      await new Promise<void>(resolve => resumeWaiters.push(resolve));
+      signal.throwIfAborted();
+    }
+  };
+
+  const processJob = async (job: BatchJob, signal: AbortSignal): Promise<BatchResult> => {
+    const jobSettings = settings;
+    const videoUrl = URL.createObjectURL(job.file);
+    try {
+      const duration = await getVideoFileDuration(videoUrl);
+      const { checkpoint, mix } = await runDialoguePipeline(job.file, videoUrl, duration, {
+        provider: options.provider,
+        synthesize: options.synthesize,
+        guidance: jobSettings.guidance,
+        mode: jobSettings.mode,
+        targetLanguage: jobSettings.targetLanguage,
+        voiceOverrides: jobSettings.voiceOverrides,
+        maxSpeedup: jobSettings.maxSpeedup,
+        mixSettings: jobSettings.mixSettings,
+        soundEffectsEnabled: jobSettings.soundEffectsEnabled,
+        disabledCategories: [],
+        musicSettings: jobSettings.musicSettings,
+        render: renderMix,
+        signal,
+        beforeStage: () => waitWhilePaused(signal),
+        onProgress: progress => update(job.id, {
+          step: progress.step,
+          progress: progress.total > 0 ? { completed: progress.completed, total: progress.total } : undefined,
+        }),
+        onCheckpoint: next => update(job.id, { checkpoint: next }),
+      }, job.checkpoint);
+
+      if (!mix) {
+        throw new EmptyResponseError(
+          checkpoint.lines.length > 0
+            ? 'no audio could be generated for any line'
+            : jobSettings.mode === 'dub' ? 'no speech was heard in the video' : 'no dialogue was detected in the video'
+        );
+      }
+      return {
+        lines: checkpoint.lines,
+        audio: audioBufferToWavBlob(mix.buffer),
+        failedLineCount: Object.keys(checkpoint.failures).length,
+        rejectedLineCount: checkpoint.rejected.length,
+      };
+    } finally {
+      URL.revokeObjectURL(videoUrl);
+    }
+  };
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (let job = jobs.find(j => j.status === 'queued'); job; job = jobs.find(j => j.status === 'queued')) {
+        const controller = new AbortController();
+        current = { id: job.id, controller };
+        try {
+          await waitWhilePaused(controller.signal);
+          update(job.id, { status: 'running', step: '', error: undefined });
+          const result = await processJob(job, controller.signal);
+          update(job.id, { status: 'done', step: '', progress: undefined, result, checkpoint: undefined });
+        } catch (err) {
+          if (controller.signal.aborted) {
+            update(job.id, { status: 'cancelled', step: '', progress: undefined });
+          } else {
+            console.error(`Batch job for "${job.file.name}" failed.`, err);
+            update(job.id, { status: 'failed', step: '', progress: undefined, error: describeProviderError(err) });
+          }
+        }
+        current = null;
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const setPaused = (value: boolean) => {
+    paused = value;
+    if (!paused) {
+      resumeWaiters.forEach(resolve => resolve());
+      resumeWaiters = [];
+    }
+    notify();
+  };
+
+  return {
+    add(files) {
+      jobs = [...jobs, ...files.map(file => ({ id: `job-${++nextJobId}`, file, status: 'queued' as const, step: '' as const }))];
+      notify();
+      run();
+    },
+
+    pause() {
+      setPaused(true);
+    },
+
+    resume() {
+      setPaused(false);
+    },
+
+    cancel(id) {
+      for (const job of jobs) {
+        if (id !== undefined && job.id !== id) continue;
+        if (job.status === 'queued') update(job.id, { status: 'cancelled' });
+      }
+      if (current && (id === undefined || current.id === id)) {
+        current.controller.abort();
+        // Wake a paused job so it can see the cancellation.
+        resumeWaiters.forEach(resolve => resolve());
+        resumeWaiters = [];
+      }
+    },
+
+    retry(id) {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+      update(id, { status: 'queued', error: undefined, result: undefined });
+      run();
+    },
+
+    remove(id) {
+      if (current?.id === id) return;
+      jobs = jobs.filter(job => job.id !== id);
+      notify();
+    },
+
+    setSettings(next) {
+      settings = next;
+    },
+
+    isPaused() {
+      return paused;
+    },
+
+    getJobs() {
+      return jobs;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Packs the track and script of every finished job into one archive, with a
+ * folder per video. Videos that share a name get a numeric suffix.
+ * @param jobs The jobs to include; only finished ones are packed.
+ * @returns The ZIP archive.
+ */
+export async function buildBatchArchive(jobs: BatchJob[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const used = new Set<string>();
+  for (const job of jobs) {
+    if (job.status !== 'done' || !job.result) continue;
+    const baseName = getBaseName(job.file.name);
+    let folder = baseName;
+    for (let n = 2; used.has(folder); n++) folder = `${baseName}-${n}`;
+    used.add(folder);
+
+    const script = job.result.lines.map(formatScriptLine).join('\n');
+    entries.push(
+      { name: `${folder}/${baseName}-dialogue.wav`, data: new Uint8Array(await job.result.audio.arrayBuffer()) },
+      { name: `${folder}/${baseName}-script.txt`, data: encoder.encode(script) },
+      { name: `${folder}/${baseName}-script.json`, data: encoder.encode(JSON.stringify(job.result.lines, null, 2)) }
+    );
+  }
+  return createZip(entries);
+}
@@ -0,0 +1,497 @@
+import type {
+  DialogueLine,
+  DialogueMode,
+  LineFit,
+  LoadingStep,
+  MixSettings,
+  MusicPlan,
+  MusicSettings,
+  ScriptLine,
+  SoundCategory,
+  SoundEvent,
+  SpeakerAppearance,
+  SynthesizedClip,
+  VoiceCasting,
+} from '../types';
+import type { SpeechProvider } from './speechProvider';
+import { getAudioCacheKey, type AudioCache } from './audioCache';
+import { classifyProviderError } from './errors';
+import { translateScript } from './dubbing';
+import { renderScore, resolveTempo } from './musicScore';
+import type { RequestScheduler } from './requestScheduler';
+import { renderSoundEvent } from './soundEffects';
+import { analyzeVideo, type SegmentExtractor } from './videoAnalysis';
+import { resolveCasting } from './voices';
+import {
+  applyDucking,
+  CLIP_SAMPLE_RATE,
+  decode,
+  EFFECTS_BUS,
+  MUSIC_BUS,
+  pcm16ToFloat32,
+  resolveMixSettings,
+  type MixRenderer,
+  type MixTrack,
+  type PcmAudio,
+} from '../utils/audioUtils';
+import { computeLineWindows, isClipStale, toDialogueLine, toScriptLines } from '../utils/dialogueUtils';
+import type { RejectedLine } from '../utils/scriptParser';
+import { fitClipToWindow } from '../utils/timeStretch';
+
+/**
+ * Voices one line. Implementations are expected to cache and rate-limit.
+ */
+export type LineSynthesizer = (
+  line: DialogueLine,
+  voiceName: string,
+  signal?: AbortSignal
+) => Promise<{ audioData: Uint8Array; fromCache: boolean }>;
+
+export type PipelineStage = 'analysis' | 'translation' | 'synthesis' | 'mix';
+
+const STAGE_ORDER: PipelineStage[] = ['analysis', 'translation', 'synthesis', 'mix'];
+
+/**
+ * What a run has produced so far. Passing it back to `runDialoguePipeline`
+ * resumes after `stage` instead of starting over.
+ */
+export interface PipelineCheckpoint {
+  /** The last stage that finished. */
+  stage: Exclude<PipelineStage, 'mix'>;
+  /** The raw analysis output. */
+  script: string;
+  lines: ScriptLine[];
+  rejected: RejectedLine[];
+  events: SoundEvent[];
+  /** The planned score, or null when music was not analyzed. */
+  music: MusicPlan | null;
+  /** Where each speaker appears on screen. */
+  speakers: SpeakerAppearance[];
+  /** Voiced lines, by line id; empty until synthesis has finished. */
+  clips: Record<string, SynthesizedClip>;
+  /** Lines that could not be voiced, by line id. */
+  failures: Record<string, string>;
+  cachedCount: number;
+  synthesizedCount: number;
+}
+
+export interface PipelineProgress {
+  step: LoadingStep;
+  /** Items of the current step finished so far (segments, or lines). */
+  completed: number;
+  /** Items in the current step, or 0 when the step isn't counted. */
+  total: number;
+}
+
+/**
+ * What voicing and mixing a script needs besides the script itself.
+ */
+export interface VoiceAndMixOptions<B extends PcmAudio = AudioBuffer> extends DialogueMixOptions<B> {
+  synthesize: LineSynthesizer;
+  /** Voices picked by hand, by speaker; everyone else gets a suggestion. */
+  voiceOverrides: VoiceCasting;
+  signal?: AbortSignal;
+  onProgress?: (progress: PipelineProgress) => void;
+}
+
+export interface PipelineOptions<B extends PcmAudio = AudioBuffer> extends VoiceAndMixOptions<B> {
+  provider: SpeechProvider;
+  guidance: string;
+  mode: DialogueMode;
+  targetLanguage: string;
+  /** Cuts segments out of long videos; recorded in the browser by default. */
+  extractSegment?: SegmentExtractor;
+  /** Called after each stage with everything produced so far. */
+  onCheckpoint?: (checkpoint: PipelineCheckpoint) => void;
+  /** Awaited before each stage starts, e.g. to hold a paused queue. */
+  beforeStage?: (stage: PipelineStage) => Promise<void>;
+}
+
+export interface PipelineResult<B extends PcmAudio = AudioBuffer> {
+  checkpoint: PipelineCheckpoint;
+  /** The rendered track, or null when the analysis found nothing to voice. */
+  mix: DialogueMix<B> | null;
+}
+
+export interface ClipSynthesis {
+  /** Audio for every line that has some, reused or new. */
+  clips: Record<string, SynthesizedClip>;
+  /** Error messages for lines that could not be voiced, by line id. */
+  failures: Record<string, string>;
+  cachedCount: number;
+  synthesizedCount: number;
+  /** The first synthesis error, if any, for reporting when nothing could be voiced. */
+  firstError?: unknown;
+}
+
+export interface DialogueMixOptions<B extends PcmAudio = AudioBuffer> {
+  maxSpeedup: number;
+  mixSettings: MixSettings;
+  soundEffectsEnabled: boolean;
+  disabledCategories: SoundCategory[];
+  musicSettings: MusicSettings;
+  /** Renders the mix: `renderMix` in the browser, `renderMixToPcm` in Node. */
+  render: MixRenderer<B>;
+}
+
+export interface DialogueMix<B extends PcmAudio = AudioBuffer> {
+  fits: Record<string, LineFit>;
+  tracks: MixTrack[];
+  /** The mixer settings resolved for this scene's buses. */
+  settings: MixSettings;
+  buffer: B;
+}
+
+export interface VoiceAndMixResult<B extends PcmAudio = AudioBuffer> {
+  synthesis: ClipSynthesis;
+  /** The rendered track, or null when no line could be voiced. */
+  mix: DialogueMix<B> | null;
+}
+
+// Speech closer together than this is ducked under as one stretch, so the music doesn't pump between lines.
+const DUCKING_JOIN_SECONDS = 0.8;
+
+/**
+ * Lists the mixer buses a scene needs: one per speaker, plus effects and music if there are any.
+ */
+export function getBusNames(lines: ScriptLine[], events: SoundEvent[], hasMusic = false): string[] {
+  const speakers = Array.from(new Set(lines.map(line => line.speaker))).sort();
+  return [...speakers, ...(events.length > 0 ? [EFFECTS_BUS] : []), ...(hasMusic ? [MUSIC_BUS] : [])];
+}
+
+/**
+ * Whether a scene's score should be played, given its plan and the music settings.
+ */
+export function isMusicActive(music: MusicPlan | null, settings: MusicSettings): music is MusicPlan {
+  return settings.enabled && music !== null && music.cues.length > 0;
+}
+
+/**
+ * Finds the stretches where fitted dialogue is playing, for ducking the music under.
+ */
+function getSpeechRegions(tracks: MixTrack[]): { start: number; end: number }[] {
+  const regions: { start: number; end: number }[] = [];
+  for (const track of [...tracks].sort((a, b) => a.time - b.time)) {
+    const end = track.time + track.samples.length / CLIP_SAMPLE_RATE;
+    const last = regions[regions.length - 1];
+    if (last && track.time - last.end <= DUCKING_JOIN_SECONDS) {
+      last.end = Math.max(last.end, end);
+    } else {
+      regions.push({ start: track.time, end });
+    }
+  }
+  return regions;
+}
+
+/**
+ * Creates the line synthesizer the pipeline uses: requests go through the
+ * scheduler, which limits concurrency and retries transient failures, and when
+ * a cache is given, lines voiced before with the same prompt and voice are
+ * served from it.
+ * @param provider The backend to voice lines with.
+ * @param scheduler The queue TTS requests wait in.
+ * @param cache Where voiced lines are kept between runs, if anywhere.
+ * @returns The synthesizer.
+ */
+export function createLineSynthesizer(
+  provider: SpeechProvider,
+  scheduler: RequestScheduler,
+  cache?: Pick<AudioCache, 'get' | 'put'>
+): LineSynthesizer {
+  return async (line, voiceName, signal) => {
+    const key = cache ? await getAudioCacheKey(provider.name, line, voiceName) : null;
+    const cached = key ? await cache!.get(key) : null;
+    if (cached) return { audioData: cached, fromCache: true };
+
+    const audioData = decode(await scheduler.schedule(
+      () => provider.generateAudioForDialogueLine(line, voiceName, signal),
+      undefined,
+      signal
+    ));
+    if (key) await cache!.put(key, audioData);
+    return { audioData, fromCache: false };
+  };
+}
+
+/**
+ * Voices every line whose clip is missing or out of date. Lines whose audio is
+ * still valid are reused as-is, so editing one line only costs one TTS call.
+ * A line that fails is recorded in `failures` rather than failing the batch.
+ * @param lines The script.
+ * @param existingClips Clips from an earlier run, by line id.
+ * @param casting The voice for every speaker.
+ * @param synthesize Voices a single line.
+ * @param onProgress Called as each line finishes, with the count so far and the number of lines to voice.
+ * @param signal Optional signal to cancel the synthesis.
+ * @returns The clips and what happened to each line.
+ */
+export async function synthesizeClips(
+  lines: ScriptLine[],
+  existingClips: Record<string, SynthesizedClip>,
+  casting: VoiceCasting,
+  synthesize: LineSynthesizer,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<ClipSynthesis> {
+  const isStale = (line: ScriptLine) => isClipStale(line, existingClips[line.id], casting[line.speaker]);
+  const staleLines = lines.filter(line => isStale(line) && line.text.trim() !== '');
+  let completed = 0;
+  onProgress?.(0, staleLines.length);
+  const results = await Promise.allSettled(staleLines.map(async line => {
+    try {
+      return await synthesize(line, casting[line.speaker], signal);
+    } finally {
+      onProgress?.(++completed, staleLines.length);
+    }
+  }));
+  // Lines that finished before a cancellation are in the audio cache, so a rerun gets them back for free.
+  signal?.throwIfAborted();
+
+  const clips: Record<string, SynthesizedClip> = {};
+  for (const line of lines) {
+    if (existingClips[line.id] && !isStale(line)) clips[line.id] = existingClips[line.id];
+  }
+  const failures: Record<string, string> = {};
+  let cachedCount = 0;
+  let firstError: unknown;
+  results.forEach((result, index) => {
+    const line = staleLines[index];
+    if (result.status === 'fulfilled') {
+      clips[line.id] = { source: toDialogueLine(line), voiceName: casting[line.speaker], audioData: result.value.audioData };
+      if (result.value.fromCache) cachedCount++;
+    } else {
+      console.error(`Could not generate audio for line: "${line.text}"`, result.reason);
+      failures[line.id] = classifyProviderError(result.reason).message;
+      firstError ??= result.reason;
+    }
+  });
+
+  return {
+    clips,
+    failures,
+    cachedCount,
+    synthesizedCount: staleLines.length - cachedCount - Object.keys(failures).length,
+    firstError,
+  };
+}
+
+/**
+ * Fits each clip to its lip-movement window, renders the sound events from
+ * enabled categories and the music score beneath the dialogue, and mixes
+ * everything into one track. The music is ducked wherever someone speaks.
+ * @param lines The script.
+ * @param clips The voiced lines; lines without a clip are left out.
+ * @param events Detected sound events.
+ * @param music The planned score, if any.
+ * @param duration The video length in seconds.
+ * @param options Timing and mixer settings.
+ * @returns The fitted timing of each line and the rendered mix.
+ */
+export async function mixDialogue<B extends PcmAudio>(
+  lines: ScriptLine[],
+  clips: Record<string, SynthesizedClip>,
+  events: SoundEvent[],
+  music: MusicPlan | null,
+  duration: number,
+  options: DialogueMixOptions<B>
+): Promise<DialogueMix<B>> {
+  const windows = computeLineWindows(lines, duration);
+  const fits: Record<string, LineFit> = {};
+  const tracks: MixTrack[] = [];
+  for (const line of lines) {
+    const clip = clips[line.id];
+    if (!clip) continue;
+    const samples = pcm16ToFloat32(clip.audioData);
+    const fit = fitClipToWindow(samples, CLIP_SAMPLE_RATE, windows[line.id], options.maxSpeedup);
+    fits[line.id] = {
+      windowSeconds: windows[line.id],
+      clipSeconds: samples.length / CLIP_SAMPLE_RATE,
+      fittedSeconds: fit.samples.length / CLIP_SAMPLE_RATE,
+      speedFactor: fit.speedFactor,
+      trimmedSeconds: fit.trimmedSeconds,
+    };
+    tracks.push({ bus: line.speaker, time: line.time, samples: fit.samples });
+  }
+
+  const speech = getSpeechRegions(tracks);
+  const activeEvents = (options.soundEffectsEnabled ? events : []).filter(event => !options.disabledCategories.includes(event.category));
+  for (const event of activeEvents) {
+    tracks.push({ bus: EFFECTS_BUS, time: event.time, samples: renderSoundEvent(event) });
+  }
+
+  const hasMusic = isMusicActive(music, options.musicSettings);
+  if (hasMusic) {
+    const score = renderScore(music, resolveTempo(music, options.musicSettings), duration);
+    tracks.push({ bus: MUSIC_BUS, time: 0, samples: applyDucking(score, CLIP_SAMPLE_RATE, speech, options.musicSettings.duckingDb) });
+  }
+
+  const settings = resolveMixSettings(getBusNames(lines, activeEvents, hasMusic), options.mixSettings);
+  const buffer = await options.render(tracks, settings, duration);
+  return { fits, tracks, settings, buffer };
+}
+
+/**
+ * Voices a script that is already in hand, e.g. after edits or an import, and
+ * mixes it with the scene's sound events and score. Lines whose audio is still
+ * valid are reused, so editing one line only costs one TTS call.
+ * @param lines The script.
+ * @param existingClips Clips from an earlier run, by line id.
+ * @param events Detected sound events.
+ * @param music The planned score, if any.
+ * @param duration The video length in seconds.
+ * @param options Synthesis, casting, timing and mixer settings.
+ * @returns What happened to each line, and the mix unless no line could be voiced.
+ */
+export async function voiceAndMix<B extends PcmAudio>(
+  lines: ScriptLine[],
+  existingClips: Record<string, SynthesizedClip>,
+  events: SoundEvent[],
+  music: MusicPlan | null,
+  duration: number,
+  options: VoiceAndMixOptions<B>
+): Promise<VoiceAndMixResult<B>> {
+  const synthesis = await synthesizeClips(
+    lines,
+    existingClips,
+    resolveCasting(lines, options.voiceOverrides),
+    options.synthesize,
+    (completed, total) => options.onProgress?.({ step: 'Generating Dialogue Audio', completed, total }),
+    options.signal
+  );
+  if (lines.length > 0 && !lines.some(line => synthesis.clips[line.id])) {
+    return { synthesis, mix: null };
+  }
+
+  options.onProgress?.({ step: 'Synchronizing Dialogue', completed: 0, total: 0 });
+  const mix = await mixDialogue(lines, synthesis.clips, events, music, duration, options);
+  options.signal?.throwIfAborted();
+  return { synthesis, mix };
+}
+
+/**
+ * Takes a video from analysis to a finished track in explicit stages:
+ * analysis, translation (dubbing only), synthesis and mix. After each stage the
+ * work so far is reported through `onCheckpoint`; passing that checkpoint back
+ * in skips every stage up to and including the one it records, so a failure
+ * while mixing keeps the script and the voiced lines. Cancelling through
+ * `signal` rejects with an `AbortError` at the next request or stage boundary.
+ * @param file The video file.
+ * @param videoUrl An object URL for the same file (or whatever `extractSegment` reads), used to cut segments.
+ * @param duration The video length in seconds.
+ * @param options The backend, settings, progress reporting and cancellation.
+ * @param resumeFrom A checkpoint from an earlier run of the same video.
+ * @returns The final checkpoint and the rendered track.
+ */
+export async function runDialoguePipeline<B extends PcmAudio>(
+  file: File,
+  videoUrl: string,
+  duration: number,
+  options: PipelineOptions<B>,
+  resumeFrom?: PipelineCheckpoint
+): Promise<PipelineResult<B>> {
+  const { signal } = options;
+  let checkpoint = resumeFrom;
+  const isDone = (stage: PipelineStage) =>
+    checkpoint !== undefined && STAGE_ORDER.indexOf(checkpoint.stage) >= STAGE_ORDER.indexOf(stage);
+  const startStage = async (stage: PipelineStage) => {
+    signal?.throwIfAborted();
+    await options.beforeStage?.(stage);
+    signal?.throwIfAborted();
+  };
+  const complete = (next: PipelineCheckpoint) => {
+    checkpoint = next;
+    options.onCheckpoint?.(next);
+    return next;
+  };
+
+  if (!isDone('analysis')) {
+    await startStage('analysis');
+    const dialogueStep: LoadingStep = options.mode === 'dub' ? 'Transcribing Speech' : 'Analyzing Lip Movements';
+    options.onProgress?.({ step: dialogueStep, completed: 0, total: 0 });
+    const analysis = await analyzeVideo(options.provider, file, videoUrl, duration, {
+      guidance: options.guidance,
+      mode: options.mode,
+      detectEffects: options.soundEffectsEnabled,
+      music: options.musicSettings.enabled ? { guidance: options.musicSettings.guidance } : undefined,
+      extractSegment: options.extractSegment,
+      signal,
+      onProgress: progress => options.onProgress?.({
+        step: progress.stage === 'effects' ? 'Detecting Sound Effects' : progress.stage === 'music' ? 'Scoring Music' : dialogueStep,
+        completed: progress.segment,
+        total: progress.segmentCount > 1 ? progress.segmentCount : 0,
+      }),
+    });
+    complete({
+      stage: 'analysis',
+      script: analysis.script,
+      lines: toScriptLines(analysis.parseResult.lines),
+      rejected: analysis.parseResult.rejected,
+      events: analysis.events,
+      music: analysis.music,
+      speakers: analysis.parseResult.speakers,
+      clips: {},
+      failures: {},
+      cachedCount: 0,
+      synthesizedCount: 0,
+    });
+  }
+
+  if (!isDone('translation')) {
+    const current = checkpoint!;
+    if (options.mode === 'dub' && current.lines.length > 0) {
+      await startStage('translation');
+      const total = current.lines.length;
+      options.onProgress?.({ step: 'Translating Dialogue', completed: 0, total });
+      const translation = await translateScript(
+        options.provider,
+        current.lines,
+        options.targetLanguage,
+        options.guidance,
+        fraction => options.onProgress?.({ step: 'Translating Dialogue', completed: Math.round(fraction * total), total }),
+        signal
+      );
+      if (translation.untranslated.length > 0) {
+        console.warn(`${translation.untranslated.length} lines were not translated and keep their original text.`);
+      }
+      // translateScript keeps each line's fields, ids included.
+      complete({ ...current, stage: 'translation', lines: translation.lines as ScriptLine[] });
+    } else {
+      complete({ ...current, stage: 'translation' });
+    }
+  }
+
+  const translated = checkpoint!;
+  if (translated.lines.length === 0 && translated.events.length === 0 && !isMusicActive(translated.music, options.musicSettings)) {
+    return { checkpoint: translated, mix: null };
+  }
+
+  if (!isDone('synthesis')) {
+    await startStage('synthesis');
+    const synthesis = await synthesizeClips(
+      translated.lines,
+      translated.clips,
+      resolveCasting(translated.lines, options.voiceOverrides),
+      options.synthesize,
+      (completed, total) => options.onProgress?.({ step: 'Generating Dialogue Audio', completed, total }),
+      signal
+    );
+    if (translated.lines.length > 0 && !translated.lines.some(line => synthesis.clips[line.id])) {
+      if (synthesis.firstError) throw synthesis.firstError;
+      return { checkpoint: translated, mix: null };
+    }
+    complete({
+      ...translated,
+      stage: 'synthesis',
+      clips: synthesis.clips,
+      failures: synthesis.failures,
+      cachedCount: synthesis.cachedCount,
+      synthesizedCount: synthesis.synthesizedCount,
+    });
+  }
+
+  const voiced = checkpoint!;
+  await startStage('mix');
+  options.onProgress?.({ step: 'Synchronizing Dialogue', completed: 0, total: 0 });
+  const mix = await mixDialogue(voiced.lines, voiced.clips, voiced.events, voiced.music, duration, options);
+  return { checkpoint: voiced, mix };
+}
@@ -0,0 +1,102 @@
+import type { DialogueLine } from '../types';
+import type { SpeechProvider } from './speechProvider';
+
+export const TARGET_LANGUAGES = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Italian',
+  'Portuguese',
+  'Dutch',
+  'Polish',
+  'Russian',
+  'Turkish',
+  'Arabic',
+  'Hindi',
+  'Japanese',
+  'Korean',
+  'Mandarin Chinese',
+];
+
+export const DEFAULT_TARGET_LANGUAGE = 'Spanish';
+
+// Enough context for consistent wording without making one response too long to trust.
+const TRANSLATION_BATCH_SIZE = 40;
+
+export interface TranslationResult {
+  lines: DialogueLine[];
+  /** Indexes of lines the model gave no translation for; they keep their original text. */
+  untranslated: number[];
+}
+
+/**
+ * Reads a translation response and puts each translation on its line.
+ * @param lines The lines that were sent, in order.
+ * @param response The model's JSON: `[{ index, text }]`.
+ * @returns The lines with translated text, and which ones were missing.
+ * @throws SyntaxError if the response is not JSON.
+ */
+export function applyTranslations(lines: DialogueLine[], response: string): TranslationResult {
+  const data: unknown = JSON.parse(response.trim().replace(/^```(?:json)?\s*|\s*```$/gi, ''));
+  const translations = new Map<number, string>();
+  for (const entry of Array.isArray(data) ? data : []) {
+    if (Number.isInteger(entry?.index) && typeof entry?.text === 'string' && entry.text.trim() !== '') {
+      translations.set(entry.index, entry.text.trim());
+    }
+  }
+
+  const untranslated: number[] = [];
+  const translated = lines.map((line, index) => {
+    const text = translations.get(index);
+    if (text === undefined) {
+      untranslated.push(index);
+      return line;
+    }
+    return { ...line, text };
+  });
+  return { lines: translated, untranslated };
+}
+
+/**
+ * Translates a transcript for dubbing, in batches so long videos don't produce
+ * one oversized response. Lines a batch skipped are asked for once more on
+ * their own before giving up and keeping the original words.
+ * @param provider The backend to translate with.
+ * @param lines The transcript, in timeline order.
+ * @param targetLanguage The language to dub into.
+ * @param guidance Optional user-provided guidance for tone and context.
+ * @param onProgress Called with the fraction of lines translated so far.
+ * @param signal Optional signal to cancel the translation.
+ * @returns The translated lines, with times, speakers and cues unchanged.
+ */
+export async function translateScript(
+  provider: SpeechProvider,
+  lines: DialogueLine[],
+  targetLanguage: string,
+  guidance: string,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<TranslationResult> {
+  const translated: DialogueLine[] = [];
+  const untranslated: number[] = [];
+
+  for (let start = 0; start < lines.length; start += TRANSLATION_BATCH_SIZE) {
+    const batch = lines.slice(start, start + TRANSLATION_BATCH_SIZE);
+    const result = applyTranslations(batch, await provider.translateLines(batch, targetLanguage, guidance, signal));
+
+    if (result.untranslated.length > 0) {
+      const missing = result.untranslated.map(index => batch[index]);
+      const retry = applyTranslations(missing, await provider.translateLines(missing, targetLanguage, guidance, signal));
+      retry.lines.forEach((line, i) => {
+        result.lines[result.untranslated[i]] = line;
+      });
+      untranslated.push(...retry.untranslated.map(i => start + result.untranslated[i]));
+    }
+
+    translated.push(...result.lines);
+    onProgress?.(Math.min(1, (start + batch.length) / lines.length));
+  }
+
+  return { lines: translated, untranslated };
+}
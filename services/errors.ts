@@ -0,0 +1,116 @@
+/**
+ * Base class for failures reported by a speech provider. `retryable` tells the
+ * request scheduler whether sending the same request again could succeed.
+ */
+export class ProviderError extends Error {
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The backend rejected the request because a quota or rate limit was hit. */
+export class RateLimitError extends ProviderError {
+  override readonly retryable = true;
+
+  /**
+   * @param retryAfterSeconds How long the backend asked us to wait, if it said.
+   */
+  constructor(message: string, readonly retryAfterSeconds: number | null, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+/** The request never reached the backend. */
+export class NetworkError extends ProviderError {
+  override readonly retryable = true;
+}
+
+/** The backend failed or was temporarily unavailable. */
+export class ServerError extends ProviderError {
+  override readonly retryable = true;
+}
+
+/** The backend answered but returned no usable content. */
+export class EmptyResponseError extends ProviderError {
+  override readonly retryable = true;
+}
+
+/** The request itself was malformed, e.g. an unsupported video format. */
+export class InvalidInputError extends ProviderError {}
+
+/** The content was blocked by the backend's safety filters. */
+export class SafetyBlockedError extends ProviderError {}
+
+/**
+ * Pulls a retry hint out of an error message. Gemini reports it either as a
+ * `"retryDelay": "23s"` field or as prose like "Please retry in 23.4s".
+ * @param message The raw error message.
+ * @returns The suggested wait in seconds, or null if there is none.
+ */
+export function parseRetryDelay(message: string): number | null {
+  const match = message.match(/retryDelay\\?"?\s*:\s*\\?"(\d+(?:\.\d+)?)s/i) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Maps an arbitrary thrown value onto a typed provider error. Errors that are
+ * already typed pass through unchanged; the original is kept as the `cause`.
+ * @param error The value that was thrown.
+ * @returns The classified error.
+ */
+export function classifyProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const lowerCaseMessage = message.toLowerCase();
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+  const options = { cause: error };
+
+  if (status === 429 || lowerCaseMessage.includes('quota') || lowerCaseMessage.includes('resource_exhausted') || lowerCaseMessage.includes('429')) {
+    return new RateLimitError('Rate limit exceeded', parseRetryDelay(message), options);
+  }
+  if (lowerCaseMessage.includes('failed to fetch') || lowerCaseMessage.includes('fetch failed') || lowerCaseMessage.includes('networkerror') || lowerCaseMessage.includes('network request failed')) {
+    return new NetworkError('Network error', options);
+  }
+  if (lowerCaseMessage.includes('safety') || lowerCaseMessage.includes('blocked')) {
+    return new SafetyBlockedError('Blocked by safety filters', options);
+  }
+  if (status === 400 || (lowerCaseMessage.includes('invalid') && (lowerCaseMessage.includes('argument') || lowerCaseMessage.includes('format') || lowerCaseMessage.includes('unsupported')))) {
+    return new InvalidInputError('Invalid request', options);
+  }
+  if ((status !== null && status >= 500) || lowerCaseMessage.includes('500') || lowerCaseMessage.includes('503') || lowerCaseMessage.includes('server error')) {
+    return new ServerError('Server error', options);
+  }
+  return new ProviderError(message, options);
+}
+
+/**
+ * Turns an error into a message suitable for showing to the user.
+ * @param error The value that was thrown.
+ * @returns A human-readable explanation with a suggested next step.
+ */
+export function describeProviderError(error: unknown): string {
+  const providerError = classifyProviderError(error);
+  if (providerError instanceof RateLimitError) {
+    return 'API rate limit exceeded. Please wait a moment before trying again.';
+  }
+  if (providerError instanceof NetworkError) {
+    return 'Network error. Please check your internet connection and try again.';
+  }
+  if (providerError instanceof InvalidInputError) {
+    return 'The uploaded video file appears to be invalid or in an unsupported format. Please try a different video.';
+  }
+  if (providerError instanceof SafetyBlockedError) {
+    return 'The content could not be processed due to safety policies. Please try a different video.';
+  }
+  if (providerError instanceof ServerError) {
+    return 'A server error occurred. The AI model seems to be unavailable. Please try again in a few moments.';
+  }
+  if (providerError instanceof EmptyResponseError) {
+    return `The AI returned an empty response: ${providerError.message}. Please try again.`;
+  }
+  return `An unexpected error occurred: ${providerError.message}. Please try again.`;
+}
@@ -1,30 +1,127 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { FinishReason, GoogleGenAI, Modality, Type, type GenerateContentParameters, type GenerateContentResponse } from "@google/genai";
+import type { DialogueLine } from "../types";
+import type { SpeechProvider } from "./speechProvider";
+import { buildTtsPrompt, DEFAULT_VOICE } from "./voices";
+import { SOUND_CATEGORIES } from "./soundEffects";
+import { MAX_TEMPO, MIN_TEMPO, MUSIC_MOODS } from "./musicScore";
+import { classifyProviderError, EmptyResponseError, SafetyBlockedError } from "./errors";
+import { encode } from "../utils/audioUtils";
 
-const API_KEY = process.env.API_KEY;
+let client: GoogleGenAI | null = null;
 
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+// Read on the server only; the key is never bundled into the browser build.
+const getApiKey = () => process.env.GEMINI_API_KEY ?? process.env.API_KEY;
+
+/**
+ * Returns the shared Gemini client, creating it on first use so that importing
+ * this module never requires an API key.
+ */
+function getClient(): GoogleGenAI {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY environment variable not set");
+  }
+  if (!client) {
+    // GEMINI_BASE_URL lets the server be pointed at a local stub model for testing.
+    const baseUrl = process.env.GEMINI_BASE_URL;
+    client = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+  }
+  return client;
+}
+
+/**
+ * Whether an API key was configured for the Gemini backend.
+ */
+export function isGeminiConfigured(): boolean {
+  return Boolean(getApiKey());
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/**
+ * Calls the model, translating SDK and network failures into typed provider
+ * errors and rejecting responses that were cut off by the safety filters. A
+ * request cancelled through `config.abortSignal` rejects with the signal's reason.
+ * @param params The request.
+ * @returns The model response.
+ */
+async function generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+  let response: GenerateContentResponse;
+  try {
+    response = await getClient().models.generateContent(params);
+  } catch (error) {
+    // A cancelled request is not a provider failure and must not be retried.
+    params.config?.abortSignal?.throwIfAborted();
+    throw classifyProviderError(error);
+  }
 
-export interface DialogueLine {
-  time: number;
-  speaker: string;
-  age: string;
-  gender: string;
-  performanceCue: string;
-  text: string;
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason || response.candidates?.[0]?.finishReason === FinishReason.SAFETY) {
+    throw new SafetyBlockedError(`Blocked by safety filters${blockReason ? ` (${blockReason})` : ''}`);
+  }
+  return response;
 }
 
+/**
+ * Response schema for the dialogue script. Each entry maps one-to-one onto a DialogueLine.
+ */
+const dialogueScriptSchema = {
+  type: Type.OBJECT,
+  properties: {
+    lines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          time: { type: Type.NUMBER, description: 'Start time of the line in seconds, precise to the millisecond.' },
+          endTime: { type: Type.NUMBER, description: 'Time in seconds when the speaker\'s mouth stops moving for this line.' },
+          speaker: { type: Type.STRING, description: 'Speaker label, e.g. "Speaker 1".' },
+          age: { type: Type.STRING, description: 'Perceived age: Child, Teenager, Adult or Senior.' },
+          gender: { type: Type.STRING, description: 'Perceived gender, e.g. Male or Female.' },
+          performanceCue: { type: Type.STRING, description: 'Emotion or intonation, e.g. "shouting" or "whispering".' },
+          text: { type: Type.STRING, description: 'The spoken words, or a vocalization like *laughs heartily*.' },
+        },
+        required: ['time', 'speaker', 'age', 'gender', 'performanceCue', 'text'],
+        propertyOrdering: ['time', 'endTime', 'speaker', 'age', 'gender', 'performanceCue', 'text'],
+      },
+    },
+    speakers: {
+      type: Type.ARRAY,
+      description: 'One entry per speaker who is visible on screen.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          speaker: { type: Type.STRING, description: 'The speaker label used in the lines.' },
+          time: { type: Type.NUMBER, description: 'A moment in seconds when the speaker\'s face is clearly visible.' },
+          box: {
+            type: Type.OBJECT,
+            description: 'The speaker\'s face at that moment, as fractions (0 to 1) of the frame width and height.',
+            properties: {
+              x: { type: Type.NUMBER },
+              y: { type: Type.NUMBER },
+              width: { type: Type.NUMBER },
+              height: { type: Type.NUMBER },
+            },
+            required: ['x', 'y', 'width', 'height'],
+            propertyOrdering: ['x', 'y', 'width', 'height'],
+          },
+        },
+        required: ['speaker', 'time', 'box'],
+        propertyOrdering: ['speaker', 'time', 'box'],
+      },
+    },
+  },
+  required: ['lines', 'speakers'],
+  propertyOrdering: ['lines', 'speakers'],
+};
+
 /**
  * Acts as an expert lip-reader and director to generate a plausible, time-stamped script of dialogue from a video.
  * @param videoBase64 The base64 encoded video string.
  * @param mimeType The MIME type of the video.
  * @param guidance Optional user-provided guidance for the dialogue's tone or context.
- * @returns A promise that resolves to a full dialogue script.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the dialogue script as JSON: the lines and where each speaker appears.
  */
-export async function generateDialogueScript(videoBase64: string, mimeType: string, guidance: string): Promise<string> {
+export async function generateDialogueScript(videoBase64: string, mimeType: string, guidance: string, signal?: AbortSignal): Promise<string> {
   const model = "gemini-2.5-flash";
   const videoPart = {
     inlineData: {
@@ -46,30 +143,398 @@ export async function generateDialogueScript(videoBase64: string, mimeType: stri
     1.  Focus **only on dialogue**. Ignore all other ambient sounds (wind, traffic) or foley sounds (footsteps, doors).
     2.  Analyze mouth movements phonetically (Stops: p,b,t,d; Fricatives: f,v,s,z; Vowels: open shapes, etc.).
     3.  You MUST infer the perceived age (e.g., Child, Teenager, Adult, Senior) and gender (e.g., Male, Female) of each speaker.
-    4.  You MUST include a performance cue in brackets \`[]\` after the character description, describing the emotion or intonation (e.g., \`[shouting]\`, \`[whispering]\`, \`[sadly]\`, \`[excitedly]\`).
-    5.  Timestamp everything precisely to the millisecond.
+    4.  You MUST include a performance cue for every line, describing the emotion or intonation (e.g., \`shouting\`, \`whispering\`, \`sadly\`, \`excitedly\`).
+    5.  Timestamp everything precisely to the millisecond. Give both the start time and the end time at which the speaker's mouth stops moving for that line.
     6.  Vocalizations like laughing, crying, coughing should be described like \`*laughs heartily*\`.
     7.  If multiple speakers talk at once, create separate lines for each with their respective start times.
     8.  If there are periods of silence where no one is speaking, do not generate any script lines for those times.
 
     **Output Format:**
-    \`[START_SECONDS.MILLISECONDS] DIALOGUE: Speaker #: (Age, Gender) [Performance Cue] Dialogue_or_Vocalization\`
+    A JSON object with two arrays. \`lines\` has one object per line, ordered by start time. Label speakers \`Speaker 1\`, \`Speaker 2\`, and so on.
+    \`speakers\` has one object per speaker who appears on screen: a time when their face is clearly visible and the box around their face at that time, with \`x\`, \`y\`, \`width\` and \`height\` as fractions of the frame from the top-left corner.
 
     **Example Output:**
-    [2.350] DIALOGUE: Speaker 1: (Child, Male) [curiously] Pop goes the pebble.
-    [5.120] DIALOGUE: Speaker 2: (Adult, Female) [laughing softly] You think so?
-    [8.750] DIALOGUE: Speaker 1: (Child, Male) [shouting excitedly] I found it!
+    {
+      "lines": [
+        { "time": 2.350, "endTime": 4.100, "speaker": "Speaker 1", "age": "Child", "gender": "Male", "performanceCue": "curiously", "text": "Pop goes the pebble." },
+        { "time": 5.120, "endTime": 6.300, "speaker": "Speaker 2", "age": "Adult", "gender": "Female", "performanceCue": "laughing softly", "text": "You think so?" },
+        { "time": 8.750, "endTime": 9.900, "speaker": "Speaker 1", "age": "Child", "gender": "Male", "performanceCue": "shouting excitedly", "text": "I found it!" }
+      ],
+      "speakers": [
+        { "speaker": "Speaker 1", "time": 2.500, "box": { "x": 0.120, "y": 0.200, "width": 0.180, "height": 0.300 } },
+        { "speaker": "Speaker 2", "time": 5.300, "box": { "x": 0.640, "y": 0.150, "width": 0.160, "height": 0.280 } }
+      ]
+    }
 
     ${guidanceText}`
   };
   
-  const response = await ai.models.generateContent({
+  const response = await generateContent({
     model: model,
     contents: [{ parts: [textPart, videoPart] }],
+    config: {
+      abortSignal: signal,
+      responseMimeType: 'application/json',
+      responseSchema: dialogueScriptSchema,
+    },
   });
 
   if (!response.text) {
-    throw new Error("Failed to generate dialogue script from video.");
+    throw new EmptyResponseError("Failed to generate dialogue script from video");
+  }
+
+  return response.text.trim();
+}
+
+/**
+ * Acts as a transcriber to write down the speech already in a video, telling
+ * speakers apart and noting how each line is delivered.
+ * @param videoBase64 The base64 encoded video string.
+ * @param mimeType The MIME type of the video.
+ * @param guidance Optional user-provided guidance, e.g. character names or context.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the transcript as JSON: the lines and where each speaker appears.
+ */
+export async function transcribeSpeech(videoBase64: string, mimeType: string, guidance: string, signal?: AbortSignal): Promise<string> {
+  const model = "gemini-2.5-flash";
+  const videoPart = {
+    inlineData: {
+      data: videoBase64,
+      mimeType: mimeType,
+    },
+  };
+
+  const guidanceText = guidance.trim() !== ''
+    ? `The user has provided this context about the video: '${guidance}'. Use it to tell speakers apart and to spell names correctly.`
+    : 'Work out the context from the video itself.';
+
+  const textPart = {
+    text: `Your task is to be an expert transcriber and script supervisor. You will write down every line of speech in this video's audio track, exactly as spoken, so it can be dubbed into another language.
+
+    **Instructions:**
+    1.  Transcribe the speech verbatim in its original language. Do not translate, summarize or correct it.
+    2.  Tell the speakers apart by their voices and by who is on screen, and keep each person's label the same throughout.
+    3.  You MUST give the perceived age (e.g., Child, Teenager, Adult, Senior) and gender (e.g., Male, Female) of each speaker.
+    4.  You MUST include a performance cue for every line describing how it is delivered (e.g., \`shouting\`, \`whispering\`, \`sadly\`).
+    5.  Timestamp every line precisely to the millisecond with the time it starts and the time it ends. Start a new line whenever the speaker pauses for breath or changes.
+    6.  Vocalizations like laughing, crying, coughing should be described like \`*laughs heartily*\`.
+    7.  Ignore music lyrics, background chatter that is not part of the scene, and all non-speech sounds.
+
+    **Output Format:**
+    A JSON object with two arrays. \`lines\` has one object per line, ordered by start time. Label speakers \`Speaker 1\`, \`Speaker 2\`, and so on.
+    \`speakers\` has one object per speaker who appears on screen: a time when their face is clearly visible and the box around their face at that time, with \`x\`, \`y\`, \`width\` and \`height\` as fractions of the frame from the top-left corner. Leave out speakers who are only heard.
+
+    ${guidanceText}`
+  };
+
+  const response = await generateContent({
+    model: model,
+    contents: [{ parts: [textPart, videoPart] }],
+    config: {
+      abortSignal: signal,
+      responseMimeType: 'application/json',
+      responseSchema: dialogueScriptSchema,
+    },
+  });
+
+  if (!response.text) {
+    throw new EmptyResponseError("Failed to transcribe speech from video");
+  }
+
+  return response.text.trim();
+}
+
+/**
+ * Response schema for translated lines, matched back to the input by index.
+ */
+const translationSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.INTEGER, description: 'Index of the line in the input.' },
+      text: { type: Type.STRING, description: 'The translated line.' },
+    },
+    required: ['index', 'text'],
+  },
+};
+
+/**
+ * Acts as a dubbing adapter to translate lines so they can be spoken in the
+ * time the original actor took.
+ * @param lines The lines to translate.
+ * @param targetLanguage The language to translate into, e.g. "Spanish".
+ * @param guidance Optional user-provided guidance for the scene's tone or context.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the translations as JSON.
+ */
+export async function translateLines(lines: DialogueLine[], targetLanguage: string, guidance: string, signal?: AbortSignal): Promise<string> {
+  const model = "gemini-2.5-flash";
+  const numbered = lines
+    .map((line, index) => {
+      const duration = line.endTime !== undefined ? ` (${(line.endTime - line.time).toFixed(1)}s)` : '';
+      return `${index}.${duration} ${line.speaker} [${line.performanceCue}]: ${line.text}`;
+    })
+    .join('\n');
+
+  const guidanceText = guidance.trim() !== ''
+    ? `The user has provided this guidance for the scene's tone and context: '${guidance}'.`
+    : 'Infer the tone from the dialogue itself.';
+
+  const textPart = {
+    text: `You are an expert dubbing adapter. Translate each numbered line below into ${targetLanguage} for a voice-over that must fit the original actor's timing.
+
+    **Instructions:**
+    1.  Translate every line, and only the line's own words. Return one entry per input line, referring to it by its number.
+    2.  Keep each translation about as long to say as the original: aim for a similar number of syllables, and where a line shows its duration in seconds, make sure it can be spoken comfortably in that time. Prefer a shorter, natural phrasing over a literal one.
+    3.  Keep the tone, register and performance of each line. Keep names as they are.
+    4.  Leave vocalizations like \`*laughs heartily*\` unchanged.
+
+    ${guidanceText}
+
+    **Lines:**
+${numbered}`
+  };
+
+  const response = await generateContent({
+    model: model,
+    contents: [{ parts: [textPart] }],
+    config: {
+      abortSignal: signal,
+      responseMimeType: 'application/json',
+      responseSchema: translationSchema,
+    },
+  });
+
+  if (!response.text) {
+    throw new EmptyResponseError(`Failed to translate the script into ${targetLanguage}`);
+  }
+
+  return response.text.trim();
+}
+
+/**
+ * Acts as a foley artist and sound designer to list the non-dialogue sounds in a video.
+ * @param videoBase64 The base64 encoded video string.
+ * @param mimeType The MIME type of the video.
+ * @param guidance Optional user-provided guidance for the scene's tone or context.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to a time-stamped sound event script.
+ */
+export async function generateSoundEventScript(videoBase64: string, mimeType: string, guidance: string, signal?: AbortSignal): Promise<string> {
+  const model = "gemini-2.5-flash";
+  const videoPart = {
+    inlineData: {
+      data: videoBase64,
+      mimeType: mimeType,
+    },
+  };
+
+  const categoryList = SOUND_CATEGORIES
+    .map(category => `- \`${category.id}\` (${category.kind === 'ambience' ? 'AMBIENCE' : 'SFX'}): ${category.description}`)
+    .join('\n');
+
+  const guidanceText = guidance.trim() !== ''
+    ? `The user has provided this guidance for the scene's tone and context: '${guidance}'. Take it into account when choosing sounds.`
+    : 'Infer the setting and mood from the video itself.';
+
+  const textPart = {
+    text: `Your task is to be an expert foley artist and sound designer. You will list every non-dialogue sound that should be heard in this video.
+
+    **Instructions:**
+    1.  **Ignore all speech and vocalizations.** Dialogue is handled separately.
+    2.  Use \`SFX\` for short, visible events (a door closing, a footstep sequence, a glass clinking) and \`AMBIENCE\` for continuous background beds (wind, rain, traffic, crowd murmur).
+    3.  You MUST pick the category from this list and nothing else:
+${categoryList}
+    4.  Give each event a start time precise to the millisecond and a duration in seconds. Ambience should usually span the whole shot it belongs to.
+    5.  A sequence of repeated sounds (e.g. several footsteps) should be a single event covering the whole sequence.
+    6.  If there are no sounds to add, output nothing.
+
+    **Output Format:**
+    \`[START_SECONDS.MILLISECONDS] SFX|AMBIENCE: category: (DURATION_SECONDS) Short description\`
+
+    **Example Output:**
+    [0.000] AMBIENCE: wind: (12.000) gusty wind across an open field
+    [1.250] SFX: footsteps: (2.400) heavy boots on gravel
+    [4.100] SFX: door: (0.800) wooden door slams shut
+
+    ${guidanceText}`
+  };
+
+  const response = await generateContent({
+    model: model,
+    contents: [{ parts: [textPart, videoPart] }],
+    config: { abortSignal: signal },
+  });
+
+  return (response.text ?? '').trim();
+}
+
+/**
+ * Response schema for the scoring pass.
+ */
+const musicCueSheetSchema = {
+  type: Type.OBJECT,
+  properties: {
+    tempo: { type: Type.NUMBER, description: 'Tempo for the score in beats per minute.' },
+    cuts: {
+      type: Type.ARRAY,
+      description: 'Times in seconds of the hard cuts between shots.',
+      items: { type: Type.NUMBER },
+    },
+    cues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          time: { type: Type.NUMBER, description: 'When this stretch of music starts, in seconds.' },
+          mood: { type: Type.STRING, enum: MUSIC_MOODS.map(mood => mood.id) },
+          intensity: { type: Type.NUMBER, description: 'How full the music should be, from 0 (sparse) to 1 (full).' },
+        },
+        required: ['time', 'mood', 'intensity'],
+        propertyOrdering: ['time', 'mood', 'intensity'],
+      },
+    },
+  },
+  required: ['tempo', 'cuts', 'cues'],
+  propertyOrdering: ['tempo', 'cuts', 'cues'],
+};
+
+/**
+ * Acts as a film composer to plan a music score: the video's cuts, and the mood
+ * and intensity the music should have from one stretch to the next.
+ * @param videoBase64 The base64 encoded video string.
+ * @param mimeType The MIME type of the video.
+ * @param guidance Optional user-provided guidance for the music's mood and tempo.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the cue sheet as JSON.
+ */
+export async function generateMusicCueSheet(videoBase64: string, mimeType: string, guidance: string, signal?: AbortSignal): Promise<string> {
+  const model = "gemini-2.5-flash";
+  const videoPart = {
+    inlineData: {
+      data: videoBase64,
+      mimeType: mimeType,
+    },
+  };
+
+  const moodList = MUSIC_MOODS.map(mood => `- \`${mood.id}\`: ${mood.description}`).join('\n');
+
+  const guidanceText = guidance.trim() !== ''
+    ? `The user has asked for this kind of music: '${guidance}'. Follow it, including any tempo it names, unless it contradicts the picture completely.`
+    : 'Choose the music from the picture itself.';
+
+  const textPart = {
+    text: `Your task is to be an expert film composer and music editor. You will plan a background score for this video.
+
+    **Instructions:**
+    1.  List the time of every hard cut between shots, precise to the millisecond.
+    2.  Split the video into stretches that need different music and give each a start time, a mood and an intensity from 0 (a sparse bed) to 1 (full and driving). Start a new stretch only when the mood or energy clearly changes, and prefer to start it on a cut.
+    3.  You MUST pick each mood from this list and nothing else:
+${moodList}
+    4.  The first stretch should start at 0 unless the opening should be silent.
+    5.  Suggest one tempo for the whole score, between ${MIN_TEMPO} and ${MAX_TEMPO} beats per minute, that suits the pace of the editing.
+    6.  Music sits under any dialogue, so keep intensity moderate in dialogue-heavy stretches.
+
+    ${guidanceText}`
+  };
+
+  const response = await generateContent({
+    model: model,
+    contents: [{ parts: [textPart, videoPart] }],
+    config: {
+      abortSignal: signal,
+      responseMimeType: 'application/json',
+      responseSchema: musicCueSheetSchema,
+    },
+  });
+
+  if (!response.text) {
+    throw new EmptyResponseError("Failed to plan a music score for the video");
+  }
+
+  return response.text.trim();
+}
+
+/**
+ * Response schema for the trait inference pass over an imported script.
+ */
+const speakerTraitsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    speakers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          speaker: { type: Type.STRING, description: 'Speaker label, as used in `lines`.' },
+          age: { type: Type.STRING, description: 'Perceived age: Child, Teenager, Adult or Senior.' },
+          gender: { type: Type.STRING, description: 'Perceived gender, e.g. Male or Female.' },
+        },
+        required: ['speaker', 'age', 'gender'],
+      },
+    },
+    lines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: 'Index of the line in the input.' },
+          speaker: { type: Type.STRING, description: 'Who speaks the line.' },
+          performanceCue: { type: Type.STRING, description: 'Emotion or intonation, e.g. "shouting" or "whispering".' },
+        },
+        required: ['index', 'speaker', 'performanceCue'],
+      },
+    },
+  },
+  required: ['speakers', 'lines'],
+};
+
+/**
+ * Acts as a script director to fill in who says each line of an imported script
+ * and how, working from the text alone.
+ * @param lines The imported lines; their speaker labels may be placeholders.
+ * @param guidance Optional user-provided guidance for the scene's tone or context.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the inferred speakers and cues as JSON.
+ */
+export async function inferSpeakerTraits(lines: DialogueLine[], guidance: string, signal?: AbortSignal): Promise<string> {
+  const model = "gemini-2.5-flash";
+  const numbered = lines
+    .map((line, index) => `${index}. [${line.time.toFixed(3)}] ${line.speaker}: ${line.text}`)
+    .join('\n');
+
+  const guidanceText = guidance.trim() !== ''
+    ? `The user has provided this guidance for the scene's tone and context: '${guidance}'.`
+    : 'Infer the context and tone from the dialogue itself.';
+
+  const textPart = {
+    text: `You are a script director preparing an existing script for voice actors. Each numbered line below gives its start time, a speaker label and the spoken text.
+
+    **Instructions:**
+    1.  Do NOT change, add or remove any lines or words. Refer to lines only by their number.
+    2.  Keep speaker labels that are real names. If the labels are placeholders (for example, every line has the same label), work out from the conversation who is speaking and label them \`Speaker 1\`, \`Speaker 2\`, and so on.
+    3.  For every speaker, give a perceived age (Child, Teenager, Adult or Senior) and gender (e.g. Male, Female).
+    4.  For every line, give a short performance cue describing the emotion or intonation (e.g. \`shouting\`, \`whispering\`, \`sadly\`).
+
+    ${guidanceText}
+
+    **Script:**
+${numbered}`
+  };
+
+  const response = await generateContent({
+    model: model,
+    contents: [{ parts: [textPart] }],
+    config: {
+      abortSignal: signal,
+      responseMimeType: 'application/json',
+      responseSchema: speakerTraitsSchema,
+    },
+  });
+
+  if (!response.text) {
+    throw new EmptyResponseError("Failed to infer speakers for the imported script");
   }
 
   return response.text.trim();
@@ -78,39 +543,53 @@ export async function generateDialogueScript(videoBase64: string, mimeType: stri
 /**
  * Generates audio for a single line of dialogue using performance cues.
  * @param line The parsed dialogue line object from the script.
- * @returns A promise that resolves to the base64 encoded audio string, or null if generation fails.
+ * @param voiceName The prebuilt TTS voice cast for the line's speaker.
+ * @param signal Optional signal to cancel the request.
+ * @returns A promise that resolves to the base64 encoded audio string.
+ * @throws {ProviderError} A typed error describing why no audio was produced.
  */
-export async function generateAudioForDialogueLine(line: DialogueLine): Promise<string | null> {
+export async function generateAudioForDialogueLine(line: DialogueLine, voiceName: string = DEFAULT_VOICE, signal?: AbortSignal): Promise<string> {
   const model = "gemini-2.5-flash-preview-tts";
   
-  const ttsPrompt = `As a voice actor performing as a ${line.age.toLowerCase()} ${line.gender.toLowerCase()}, ${line.performanceCue}, perform this sound or line: "${line.text}"`;
+  const ttsPrompt = buildTtsPrompt(line);
 
-  const voiceName = 'Kore'; 
-
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: [{ parts: [{ text: ttsPrompt }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voiceName as any },
-          },
+  const response = await generateContent({
+    model: model,
+    contents: [{ parts: [{ text: ttsPrompt }] }],
+    config: {
+      abortSignal: signal,
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: voiceName as any },
         },
       },
-    });
+    },
+  });
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
 
-    if (!audioData) {
-      console.warn(`Could not generate audio for line: "${line.text}". Skipping.`);
-      return null;
-    }
-
-    return audioData;
-  } catch (error) {
-    console.error(`An API error occurred while generating audio for line: "${line.text}"`, error);
-    return null;
+  if (!audioData) {
+    throw new EmptyResponseError("No audio was returned");
   }
-}
\ No newline at end of file
+
+  return audioData;
+}
+
+/**
+ * Reads a video into the base64 form used for inline request parts.
+ */
+async function toInlineVideo(video: Blob): Promise<[string, string]> {
+  return [encode(new Uint8Array(await video.arrayBuffer())), video.type];
+}
+
+export const geminiProvider: SpeechProvider = {
+  name: 'gemini',
+  generateDialogueScript: async (video, guidance, signal) => generateDialogueScript(...await toInlineVideo(video), guidance, signal),
+  transcribeSpeech: async (video, guidance, signal) => transcribeSpeech(...await toInlineVideo(video), guidance, signal),
+  translateLines,
+  generateSoundEventScript: async (video, guidance, signal) => generateSoundEventScript(...await toInlineVideo(video), guidance, signal),
+  generateMusicCueSheet: async (video, guidance, signal) => generateMusicCueSheet(...await toInlineVideo(video), guidance, signal),
+  inferSpeakerTraits,
+  generateAudioForDialogueLine,
+};
@@ -0,0 +1,161 @@
+import type { DialogueLine, SpeakerAppearance } from '../types';
+import type { SpeechProvider } from './speechProvider';
+import { DEFAULT_VOICE, PREBUILT_VOICES } from './voices';
+import { MUSIC_MOODS, parseTempo } from './musicScore';
+import { InvalidInputError } from './errors';
+import { encode } from '../utils/audioUtils';
+
+const SAMPLE_RATE = 24000;
+const SYLLABLE_SECONDS = 0.16;
+
+/**
+ * Fixture script returned for every video. The guidance text is threaded into
+ * the cues so the UI visibly reacts to it.
+ */
+function buildFixtureScript(guidance: string): DialogueLine[] {
+  const cue = guidance.trim() || 'conversationally';
+  return [
+    { time: 0.5, endTime: 2.2, speaker: 'Speaker 1', age: 'Adult', gender: 'Female', performanceCue: cue, text: 'Did you hear that noise outside?' },
+    { time: 2.4, speaker: 'Speaker 2', age: 'Adult', gender: 'Male', performanceCue: 'hesitantly', text: 'It was probably just the wind.' },
+    { time: 4.3, endTime: 5.9, speaker: 'Speaker 1', age: 'Adult', gender: 'Female', performanceCue: 'whispering', text: 'Then why is the door open?' },
+    { time: 6.2, speaker: 'Speaker 3', age: 'Child', gender: 'Male', performanceCue: 'giggling', text: '*laughs* I left it open!' },
+  ];
+}
+
+// Speaker 3 is only heard, so it has no box.
+const FIXTURE_SPEAKERS: SpeakerAppearance[] = [
+  { speaker: 'Speaker 1', time: 1.0, box: { x: 0.15, y: 0.2, width: 0.2, height: 0.35 } },
+  { speaker: 'Speaker 2', time: 3.0, box: { x: 0.6, y: 0.18, width: 0.18, height: 0.32 } },
+];
+
+const FIXTURE_SOUND_EVENTS = [
+  '[0.000] AMBIENCE: wind: (8.000) soft wind outside a house',
+  '[3.800] SFX: door: (0.800) door creaks open',
+  '[5.600] SFX: footsteps: (1.200) small feet running on wood',
+].join('\n');
+
+/**
+ * Fixture score: a tense opening that turns playful when the child laughs, unless
+ * the guidance names a mood or tempo.
+ */
+function buildFixtureCueSheet(guidance: string) {
+  const mood = MUSIC_MOODS.find(item => guidance.toLowerCase().includes(item.id))?.id;
+  return {
+    tempo: parseTempo(guidance) ?? 96,
+    cuts: [3.8, 6.1],
+    cues: mood
+      ? [{ time: 0, mood, intensity: 0.6 }]
+      : [{ time: 0, mood: 'tense', intensity: 0.4 }, { time: 6.1, mood: 'playful', intensity: 0.7 }],
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Picks a base pitch that roughly follows the speaker's traits and voice, so
+ * different characters are easy to tell apart by ear.
+ */
+function basePitch(line: DialogueLine, voiceName: string): number {
+  const voice = PREBUILT_VOICES.find(v => v.name === voiceName);
+  const gender = voice?.gender ?? (/female|woman|girl/i.test(line.gender) ? 'Female' : 'Male');
+  let pitch = gender === 'Female' ? 210 : 120;
+  if (/child|kid|teen/i.test(line.age) || voice?.register === 'young') pitch *= 1.35;
+  if (/senior|elder|old/i.test(line.age) || voice?.register === 'mature') pitch *= 0.85;
+  return pitch * (0.95 + (hashString(voiceName) % 100) / 1000);
+}
+
+function countSyllables(text: string): number {
+  const groups = text.toLowerCase().match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : Math.ceil(text.length / 3));
+}
+
+/**
+ * Renders a line as a series of pitched "syllable" tones, one per vowel group,
+ * returned as base64 16-bit PCM like the real TTS backend.
+ */
+function synthesizeTones(line: DialogueLine, voiceName: string): string {
+  const syllables = countSyllables(line.text);
+  const syllableLength = Math.floor(SYLLABLE_SECONDS * SAMPLE_RATE);
+  const samples = new Int16Array(syllables * syllableLength + Math.floor(0.1 * SAMPLE_RATE));
+  const pitch = basePitch(line, voiceName);
+  const seed = hashString(`${voiceName}|${line.text}`);
+
+  for (let s = 0; s < syllables; s++) {
+    // Deterministic melody: each syllable steps around the base pitch.
+    const step = ((seed >>> (s % 24)) & 7) - 3;
+    const frequency = pitch * Math.pow(2, step / 12);
+    const offset = s * syllableLength;
+    for (let i = 0; i < syllableLength; i++) {
+      const t = i / SAMPLE_RATE;
+      const envelope = Math.sin((Math.PI * i) / syllableLength);
+      const tone = Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t);
+      samples[offset + i] = Math.round(tone * envelope * 0.35 * 32767 / 1.3);
+    }
+  }
+
+  return encode(new Uint8Array(samples.buffer));
+}
+
+/**
+ * Stand-in for the trait inference pass: keeps the imported speakers, alternates
+ * between two when every line has the same label, and reads the cue off the
+ * punctuation.
+ */
+function guessSpeakerTraits(lines: DialogueLine[]) {
+  const labels = new Set(lines.map(line => line.speaker));
+  const speakerOf = (line: DialogueLine, index: number) => (labels.size === 1 ? `Speaker ${(index % 2) + 1}` : line.speaker);
+  const speakers = Array.from(new Set(lines.map(speakerOf)));
+  return {
+    speakers: speakers.map((speaker, index) => ({ speaker, age: 'Adult', gender: index % 2 === 0 ? 'Female' : 'Male' })),
+    lines: lines.map((line, index) => ({
+      index,
+      speaker: speakerOf(line, index),
+      performanceCue: line.text.endsWith('!') ? 'excitedly' : line.text.endsWith('?') ? 'curiously' : 'conversationally',
+    })),
+  };
+}
+
+/**
+ * Offline backend that needs no network or API key. It returns a fixed script and
+ * synthesizes simple tones in place of speech, so the whole pipeline can run in
+ * demos and tests.
+ */
+export const mockProvider: SpeechProvider = {
+  name: 'mock',
+  async generateDialogueScript(_video: Blob, guidance: string, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    return JSON.stringify({ lines: buildFixtureScript(guidance), speakers: FIXTURE_SPEAKERS });
+  },
+  async transcribeSpeech(_video: Blob, guidance: string, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    return JSON.stringify({ lines: buildFixtureScript(guidance), speakers: FIXTURE_SPEAKERS });
+  },
+  async translateLines(lines: DialogueLine[], targetLanguage: string, _guidance: string, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    // Tagging the text keeps the round trip visible without a real translator.
+    return JSON.stringify(lines.map((line, index) => ({ index, text: `(${targetLanguage}) ${line.text}` })));
+  },
+  async generateSoundEventScript(_video: Blob, _guidance: string, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    return FIXTURE_SOUND_EVENTS;
+  },
+  async generateMusicCueSheet(_video: Blob, guidance: string, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    return JSON.stringify(buildFixtureCueSheet(guidance));
+  },
+  async inferSpeakerTraits(lines: DialogueLine[], _guidance: string, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    return JSON.stringify(guessSpeakerTraits(lines));
+  },
+  async generateAudioForDialogueLine(line: DialogueLine, voiceName: string = DEFAULT_VOICE, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    if (line.text.trim() === '') throw new InvalidInputError('Cannot synthesize an empty line');
+    return synthesizeTones(line, voiceName);
+  },
+};
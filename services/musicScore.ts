@@ -0,0 +1,277 @@
+import type { MusicCue, MusicMood, MusicPlan, MusicSettings } from '../types';
+import { CLIP_SAMPLE_RATE } from '../utils/audioUtils';
+import { createLineId } from '../utils/dialogueUtils';
+import { addHit, applyFades, createRandom, highpass, noise, type Random } from './soundEffects';
+
+export interface MusicMoodInfo {
+  id: MusicMood;
+  label: string;
+  description: string;
+}
+
+/**
+ * Every mood the local stem library can play. The scoring prompt is built from
+ * this list, so the model can only ask for music we know how to make.
+ */
+export const MUSIC_MOODS: MusicMoodInfo[] = [
+  { id: 'calm', label: 'Calm', description: 'gentle, relaxed, peaceful or reflective scenes' },
+  { id: 'tense', label: 'Tense', description: 'suspense, unease, danger approaching' },
+  { id: 'uplifting', label: 'Uplifting', description: 'hopeful, triumphant, warm or inspiring moments' },
+  { id: 'melancholy', label: 'Melancholy', description: 'sad, lonely, nostalgic or bittersweet scenes' },
+  { id: 'playful', label: 'Playful', description: 'light, comic, mischievous or childlike moments' },
+  { id: 'action', label: 'Action', description: 'chases, fights, fast cutting and high energy' },
+];
+
+export const DEFAULT_MUSIC_SETTINGS: MusicSettings = {
+  enabled: false,
+  guidance: '',
+  tempo: null,
+  duckingDb: 12,
+};
+
+export const MIN_TEMPO = 50;
+export const MAX_TEMPO = 180;
+const DEFAULT_TEMPO = 96;
+// A change of mood this close to a cut is moved onto it.
+const CUT_SNAP_SECONDS = 0.5;
+
+const MOOD_IDS = new Set<string>(MUSIC_MOODS.map(mood => mood.id));
+
+export function isMusicMood(value: string): value is MusicMood {
+  return MOOD_IDS.has(value);
+}
+
+function clampTempo(tempo: number): number {
+  return Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, Math.round(tempo)));
+}
+
+/**
+ * Parses the cue sheet produced by the scoring pass:
+ * `{ tempo, cuts: [seconds], cues: [{ time, mood, intensity }] }`. Cues with an
+ * unknown mood or a bad time are dropped, and the tempo is kept in a playable range.
+ * @param text The raw model response.
+ * @returns The plan, with cues ordered by time.
+ * @throws SyntaxError if the text is not JSON.
+ */
+export function parseMusicCueSheet(text: string): MusicPlan {
+  const data = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/gi, '')) as Record<string, unknown> | null;
+  const tempo = typeof data?.tempo === 'number' && Number.isFinite(data.tempo) ? clampTempo(data.tempo) : DEFAULT_TEMPO;
+  const cuts = (Array.isArray(data?.cuts) ? data.cuts : [])
+    .filter((cut): cut is number => typeof cut === 'number' && Number.isFinite(cut) && cut >= 0)
+    .sort((a, b) => a - b);
+
+  const cues: MusicCue[] = [];
+  for (const entry of Array.isArray(data?.cues) ? data.cues : []) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const { time, mood, intensity } = entry as Record<string, unknown>;
+    if (typeof time !== 'number' || !Number.isFinite(time) || time < 0) continue;
+    if (typeof mood !== 'string' || !isMusicMood(mood.toLowerCase())) continue;
+    cues.push({
+      id: createLineId(),
+      time: Math.round(time * 1000) / 1000,
+      mood: mood.toLowerCase() as MusicMood,
+      intensity: typeof intensity === 'number' && Number.isFinite(intensity) ? Math.min(1, Math.max(0, intensity)) : 0.5,
+    });
+  }
+  return { tempo, cuts, cues: cues.sort((a, b) => a.time - b.time) };
+}
+
+/**
+ * Reads an explicit tempo such as "90 bpm" out of free-text guidance.
+ * @returns The tempo, or null if the guidance doesn't give one.
+ */
+export function parseTempo(guidance: string): number | null {
+  const match = guidance.match(/(\d{2,3})\s*bpm/i);
+  return match ? clampTempo(parseInt(match[1], 10)) : null;
+}
+
+/**
+ * Works out the tempo to play at: a tempo set by hand wins, then one named in
+ * the guidance, then the analysis' suggestion.
+ */
+export function resolveTempo(plan: MusicPlan, settings: MusicSettings): number {
+  return settings.tempo ?? parseTempo(settings.guidance) ?? plan.tempo;
+}
+
+// --- Stem library -----------------------------------------------------------
+
+type Stem = 'pad' | 'bass' | 'arp' | 'drums';
+
+interface MoodStyle {
+  /** Semitones of the scale above the root. */
+  scale: number[];
+  /** MIDI note of the key's root. */
+  root: number;
+  /** Chord roots as scale degrees, one chord per bar, looped. */
+  progression: number[];
+  /** Intensity from which each stem comes in; above 1 means never. */
+  stems: Record<Stem, number>;
+  /** Bass notes per bar. */
+  bassPerBar: number;
+  /** Arpeggio note length in sixteenths. */
+  arpStep: number;
+  /** Sixteen-step drum patterns: `x` is a hit, `.` a rest. */
+  kick: string;
+  snare: string;
+  hat: string;
+}
+
+const MAJOR = [0, 2, 4, 5, 7, 9, 11];
+const MINOR = [0, 2, 3, 5, 7, 8, 10];
+const PHRYGIAN = [0, 1, 3, 5, 7, 8, 10];
+
+const STYLES: Record<MusicMood, MoodStyle> = {
+  calm: {
+    scale: MAJOR, root: 60, progression: [0, 4, 5, 3],
+    stems: { pad: 0, arp: 0.4, bass: 0.6, drums: 1.1 }, bassPerBar: 1, arpStep: 4,
+    kick: '................', snare: '................', hat: '................',
+  },
+  tense: {
+    scale: PHRYGIAN, root: 50, progression: [0, 0, 1, 0],
+    stems: { pad: 0, bass: 0.2, arp: 0.6, drums: 0.75 }, bassPerBar: 8, arpStep: 2,
+    kick: 'x.......x.......', snare: '................', hat: '..x...x...x...x.',
+  },
+  uplifting: {
+    scale: MAJOR, root: 55, progression: [0, 4, 5, 3],
+    stems: { pad: 0, bass: 0.25, arp: 0.45, drums: 0.6 }, bassPerBar: 4, arpStep: 2,
+    kick: 'x...x...x...x...', snare: '....x.......x...', hat: 'x.x.x.x.x.x.x.x.',
+  },
+  melancholy: {
+    scale: MINOR, root: 57, progression: [0, 5, 2, 6],
+    stems: { pad: 0, bass: 0.35, arp: 0.55, drums: 0.9 }, bassPerBar: 2, arpStep: 4,
+    kick: 'x.........x.....', snare: '....x.......x...', hat: '................',
+  },
+  playful: {
+    scale: MAJOR, root: 62, progression: [0, 3, 4, 0],
+    stems: { arp: 0, bass: 0.2, pad: 0.4, drums: 0.5 }, bassPerBar: 4, arpStep: 2,
+    kick: 'x.....x...x.....', snare: '....x.......x...', hat: '..x...x...x...x.',
+  },
+  action: {
+    scale: MINOR, root: 52, progression: [0, 0, 5, 6],
+    stems: { bass: 0, drums: 0.2, arp: 0.4, pad: 0.3 }, bassPerBar: 8, arpStep: 1,
+    kick: 'x..x..x.x..x..x.', snare: '....x.......x...', hat: 'xxxxxxxxxxxxxxxx',
+  },
+};
+
+function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/** MIDI note of a scale degree; degrees past the seventh climb into the next octave. */
+function degreeToNote(style: MoodStyle, degree: number): number {
+  const octave = Math.floor(degree / style.scale.length);
+  return style.root + style.scale[degree % style.scale.length] + 12 * octave;
+}
+
+/** Adds a sustained, softly detuned chord tone that swells in and rings out past `length`. */
+function addPadNote(out: Float32Array, start: number, length: number, frequency: number, sampleRate: number, gain: number) {
+  const attack = Math.floor(0.4 * sampleRate);
+  const release = Math.floor(0.8 * sampleRate);
+  const count = Math.min(out.length - start, length + release);
+  for (let i = 0; i < count; i++) {
+    const t = i / sampleRate;
+    const env = i < attack ? i / attack : i < length ? 1 : 1 - (i - length) / release;
+    const tone = Math.sin(2 * Math.PI * frequency * 0.997 * t) + Math.sin(2 * Math.PI * frequency * 1.003 * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t);
+    out[start + i] += tone * env * gain;
+  }
+}
+
+/** Adds a plucked note with a quick attack and exponential decay. */
+function addPluck(out: Float32Array, start: number, frequency: number, decay: number, sampleRate: number, gain: number) {
+  const count = Math.min(out.length - start, Math.ceil(decay * 5 * sampleRate));
+  for (let i = 0; i < count; i++) {
+    const t = i / sampleRate;
+    const env = Math.min(1, i / 48) * Math.exp(-t / decay);
+    out[start + i] += (Math.sin(2 * Math.PI * frequency * t) + Math.sin(6 * Math.PI * frequency * t) / 9) * env * gain;
+  }
+}
+
+/** Adds a short burst of bright noise, for hi-hats. */
+function addHat(out: Float32Array, start: number, sampleRate: number, random: Random, gain: number) {
+  const count = Math.min(out.length - start, Math.ceil(0.06 * sampleRate));
+  if (count <= 0) return;
+  const burst = highpass(noise(count, random), 6000, sampleRate);
+  for (let i = 0; i < count; i++) out[start + i] += burst[i] * Math.exp(-i / sampleRate / 0.015) * gain;
+}
+
+/**
+ * Plays one cue's section into `out`, bar by bar from the cue's start, so every
+ * change of mood begins on a downbeat.
+ */
+function renderSection(out: Float32Array, cue: MusicCue, end: number, tempo: number, sampleRate: number) {
+  const style = STYLES[cue.mood];
+  const random = createRandom(Math.round(cue.time * 1000) ^ tempo);
+  const sixteenth = 60 / tempo / 4;
+  const bar = sixteenth * 16;
+  const level = 0.6 + 0.4 * cue.intensity;
+  const plays = (stem: Stem) => cue.intensity >= style.stems[stem];
+  const at = (time: number) => Math.floor(time * sampleRate);
+
+  for (let barStart = cue.time, barIndex = 0; barStart < end; barStart += bar, barIndex++) {
+    const degree = style.progression[barIndex % style.progression.length];
+    const chord = [degree, degree + 2, degree + 4].map(d => degreeToNote(style, d));
+    const barLength = Math.min(bar, end - barStart);
+
+    if (plays('pad')) {
+      for (const note of chord) addPadNote(out, at(barStart), at(barLength), midiToFrequency(note - 12), sampleRate, 0.08 * level);
+    }
+    if (plays('bass')) {
+      const noteLength = bar / style.bassPerBar;
+      for (let n = 0; n < style.bassPerBar && barStart + n * noteLength < end; n++) {
+        addPluck(out, at(barStart + n * noteLength), midiToFrequency(chord[0] - 24), Math.min(0.5, noteLength), sampleRate, 0.3 * level);
+      }
+    }
+    if (plays('arp')) {
+      for (let step = 0, n = 0; step < 16 && barStart + step * sixteenth < end; step += style.arpStep, n++) {
+        const note = chord[n % chord.length] + (n % 6 >= 3 ? 12 : 0);
+        addPluck(out, at(barStart + step * sixteenth), midiToFrequency(note), 0.18, sampleRate, 0.1 * level);
+      }
+    }
+    if (plays('drums')) {
+      for (let step = 0; step < 16 && barStart + step * sixteenth < end; step++) {
+        const start = at(barStart + step * sixteenth);
+        if (style.kick[step] === 'x') addHit(out, start, sampleRate, random, { decay: 0.08, cutoff: 150, gain: 0.35 * level, tone: 55 });
+        if (style.snare[step] === 'x') addHit(out, start, sampleRate, random, { decay: 0.05, cutoff: 4000, gain: 0.15 * level, tone: 180 });
+        if (style.hat[step] === 'x') addHat(out, start, sampleRate, random, (0.04 + random() * 0.02) * level);
+      }
+    }
+  }
+}
+
+/**
+ * Moves each change of mood onto a nearby cut, so the music turns with the picture.
+ */
+function snapToCuts(cues: MusicCue[], cuts: number[]): MusicCue[] {
+  return cues.map(cue => {
+    const nearest = cuts.reduce<number | null>((best, cut) =>
+      Math.abs(cut - cue.time) <= CUT_SNAP_SECONDS && (best === null || Math.abs(cut - cue.time) < Math.abs(best - cue.time)) ? cut : best, null);
+    return nearest === null ? cue : { ...cue, time: nearest };
+  });
+}
+
+/**
+ * Renders the score with the procedural stem library: a pad, bass, arpeggio and
+ * drums per mood, brought in as the cue's intensity rises. Each cue plays until
+ * the next one, and sections overlap briefly as the pad rings out.
+ * @param plan The cues and cuts from the scoring pass.
+ * @param tempo Beats per minute.
+ * @param duration The video length in seconds.
+ * @param sampleRate The sample rate of the output.
+ * @returns The mono score, faded in and out and normalized to leave headroom for the mix.
+ */
+export function renderScore(plan: MusicPlan, tempo: number, duration: number, sampleRate: number = CLIP_SAMPLE_RATE): Float32Array {
+  const out = new Float32Array(Math.max(1, Math.ceil(duration * sampleRate)));
+  const cues = snapToCuts(plan.cues, plan.cuts).filter(cue => cue.time < duration);
+  cues.forEach((cue, index) => {
+    const end = index + 1 < cues.length ? cues[index + 1].time : duration;
+    if (end > cue.time) renderSection(out, cue, end, clampTempo(tempo), sampleRate);
+  });
+
+  let peak = 0;
+  for (let i = 0; i < out.length; i++) peak = Math.max(peak, Math.abs(out[i]));
+  if (peak > 0) {
+    for (let i = 0; i < out.length; i++) out[i] *= 0.5 / peak;
+  }
+  applyFades(out, sampleRate, 0.05, Math.min(2, duration / 4));
+  return out;
+}
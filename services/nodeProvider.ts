@@ -0,0 +1,21 @@
+import type { ProviderName, SpeechProvider } from './speechProvider';
+import { geminiProvider, isGeminiConfigured } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+/**
+ * Picks the backend for code that runs in Node, where the API key lives: the API
+ * server and the CLI. The browser never imports this, so the Gemini SDK stays
+ * out of its bundle.
+ * @param requested `gemini` or `mock`; Gemini unless the mock is asked for.
+ * @returns The provider implementation.
+ * @throws If Gemini would be used without an API key, so a misconfigured
+ * deployment fails at startup instead of quietly serving mock output.
+ */
+export function getNodeSpeechProvider(requested: string | undefined = process.env.SPEECH_PROVIDER): SpeechProvider {
+  const name = requested as ProviderName | undefined;
+  if (name === 'mock') return mockProvider;
+  if (!isGeminiConfigured()) {
+    throw new Error('GEMINI_API_KEY is not set. Set it, or choose the offline mock backend with SPEECH_PROVIDER=mock.');
+  }
+  return geminiProvider;
+}
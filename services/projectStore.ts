@@ -0,0 +1,241 @@
+import type { Project, ScriptTake, SynthesizedClip } from '../types';
+import { openDatabase, requestToPromise, withTransaction } from '../utils/idb';
+import { createZip, readZip, type ZipEntry } from '../utils/zipUtils';
+
+const DB_NAME = 'video-to-dialogue';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const VIDEOS_STORE = 'videos';
+
+const ARCHIVE_FORMAT_VERSION = 1;
+const ARCHIVE_MANIFEST = 'project.json';
+
+export const PROJECT_ARCHIVE_EXTENSION = '.v2d.zip';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  lineCount: number;
+}
+
+export interface StoredProject {
+  project: Project;
+  /** The project's video, or null if it was never saved. */
+  video: File | null;
+}
+
+type ArchiveClips = Record<string, Omit<SynthesizedClip, 'audioData'> & { file: string }>;
+
+/**
+ * The project as written to an archive's manifest: clip audio lives in separate
+ * entries so the JSON stays small and readable.
+ */
+interface ArchiveManifest {
+  formatVersion: number;
+  project: Omit<Project, 'clips' | 'takes'> & {
+    clips: ArchiveClips;
+    takes?: Array<Omit<ScriptTake, 'clips'> & { clips: ArchiveClips }>;
+  };
+  videoFile: string | null;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(VIDEOS_STORE)) {
+        db.createObjectStore(VIDEOS_STORE);
+      }
+    }).catch(error => {
+      // Let the next call try again, e.g. after another tab closes.
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Creates a unique id for a new project.
+ * @returns A random id string.
+ */
+export function createProjectId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Writes a project's script, casting, audio and mix to IndexedDB, replacing any
+ * earlier save with the same id.
+ * @param project The project to save.
+ */
+export async function saveProject(project: Project): Promise<void> {
+  const db = await getDatabase();
+  await withTransaction(db, PROJECTS_STORE, 'readwrite', transaction => {
+    transaction.objectStore(PROJECTS_STORE).put(project);
+  });
+}
+
+/**
+ * Stores the video a project was made from. Kept apart from `saveProject` so
+ * autosaves don't rewrite the (large) video every time a line changes.
+ * @param projectId The project the video belongs to.
+ * @param video The video file.
+ */
+export async function saveProjectVideo(projectId: string, video: File): Promise<void> {
+  const db = await getDatabase();
+  await withTransaction(db, VIDEOS_STORE, 'readwrite', transaction => {
+    transaction.objectStore(VIDEOS_STORE).put(video, projectId);
+  });
+}
+
+/**
+ * Loads a saved project and its video.
+ * @param projectId The project to load.
+ * @returns The project, or null if there is no project with that id.
+ */
+export async function loadProject(projectId: string): Promise<StoredProject | null> {
+  const db = await getDatabase();
+  return withTransaction(db, [PROJECTS_STORE, VIDEOS_STORE], 'readonly', async transaction => {
+    const project = await requestToPromise<Project | undefined>(transaction.objectStore(PROJECTS_STORE).get(projectId));
+    const video = await requestToPromise<File | undefined>(transaction.objectStore(VIDEOS_STORE).get(projectId));
+    return project ? { project, video: video ?? null } : null;
+  });
+}
+
+/**
+ * Lists saved projects, most recently edited first.
+ * @param limit The maximum number of projects to return.
+ * @returns A summary of each project.
+ */
+export async function listRecentProjects(limit: number = 8): Promise<ProjectSummary[]> {
+  const db = await getDatabase();
+  return withTransaction(db, PROJECTS_STORE, 'readonly', transaction => new Promise<ProjectSummary[]>((resolve, reject) => {
+    const summaries: ProjectSummary[] = [];
+    const request = transaction.objectStore(PROJECTS_STORE).index('updatedAt').openCursor(null, 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || summaries.length >= limit) {
+        resolve(summaries);
+        return;
+      }
+      const project = cursor.value as Project;
+      summaries.push({ id: project.id, name: project.name, updatedAt: project.updatedAt, lineCount: project.lines.length });
+      cursor.continue();
+    };
+  }));
+}
+
+/**
+ * Removes a project and its video from IndexedDB.
+ * @param projectId The project to delete.
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+  const db = await getDatabase();
+  await withTransaction(db, [PROJECTS_STORE, VIDEOS_STORE], 'readwrite', transaction => {
+    transaction.objectStore(PROJECTS_STORE).delete(projectId);
+    transaction.objectStore(VIDEOS_STORE).delete(projectId);
+  });
+}
+
+/**
+ * Packs a project into a single ZIP file that can be handed to someone else:
+ * a `project.json` manifest, one raw PCM file per clip and the video.
+ * @param project The project to export.
+ * @param video The project's video, if it should be included.
+ * @returns The archive.
+ */
+export async function exportProjectArchive(project: Project, video: File | null): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  // Takes share most of their audio with the current script and each other; each clip is written once.
+  const written = new Map<Uint8Array, string>();
+  const packClips = (source: Record<string, SynthesizedClip>, folder: string): ArchiveClips => {
+    const packed: ArchiveClips = {};
+    for (const [lineId, clip] of Object.entries(source)) {
+      let file = written.get(clip.audioData);
+      if (!file) {
+        file = `${folder}/${lineId}.pcm`;
+        written.set(clip.audioData, file);
+        entries.push({ name: file, data: clip.audioData });
+      }
+      packed[lineId] = { source: clip.source, voiceName: clip.voiceName, file };
+    }
+    return packed;
+  };
+
+  const clips = packClips(project.clips, 'clips');
+  const takes = project.takes?.map(take => ({ ...take, clips: packClips(take.clips, `takes/${take.number}`) }));
+
+  const videoFile = video ? `video/${video.name}` : null;
+  if (video && videoFile) {
+    entries.push({ name: videoFile, data: new Uint8Array(await video.arrayBuffer()) });
+  }
+
+  const manifest: ArchiveManifest = {
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    project: { ...project, clips, takes },
+    videoFile,
+  };
+  entries.unshift({ name: ARCHIVE_MANIFEST, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  return createZip(entries);
+}
+
+/**
+ * Reads a project archive written by `exportProjectArchive`.
+ * @param file The archive file.
+ * @returns The project and its video, if the archive contained one.
+ */
+export async function importProjectArchive(file: Blob): Promise<StoredProject> {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = readZip(await file.arrayBuffer());
+  } catch (error) {
+    throw new Error(`Could not read project file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const manifestBytes = files.get(ARCHIVE_MANIFEST);
+  if (!manifestBytes) {
+    throw new Error('Not a project file: project.json is missing.');
+  }
+  let manifest: ArchiveManifest | null;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes)) as ArchiveManifest | null;
+  } catch (error) {
+    throw new Error(`Could not read project file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (manifest?.formatVersion !== ARCHIVE_FORMAT_VERSION || !Array.isArray(manifest.project?.lines)) {
+    throw new Error(`Unsupported project file version: ${manifest?.formatVersion}.`);
+  }
+
+  const copies = new Map<string, Uint8Array>();
+  const unpackClips = (packed: ArchiveClips = {}): Record<string, SynthesizedClip> => {
+    const unpacked: Record<string, SynthesizedClip> = {};
+    for (const [lineId, { file: clipFile, ...clip }] of Object.entries(packed)) {
+      // Copy out of the archive buffer so each clip can be stored on its own, once however many takes use it.
+      const audioData = copies.get(clipFile) ?? files.get(clipFile)?.slice();
+      if (!audioData) continue;
+      copies.set(clipFile, audioData);
+      unpacked[lineId] = { ...clip, audioData };
+    }
+    return unpacked;
+  };
+
+  const clips = unpackClips(manifest.project.clips);
+  const takes = manifest.project.takes?.map(take => ({ ...take, clips: unpackClips(take.clips) }));
+
+  const videoBytes = manifest.videoFile ? files.get(manifest.videoFile) : undefined;
+  const video = videoBytes
+    ? new File([videoBytes], manifest.project.video.name, { type: manifest.project.video.type })
+    : null;
+
+  return { project: { ...manifest.project, clips, takes }, video };
+}
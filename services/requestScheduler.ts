@@ -0,0 +1,133 @@
+import { classifyProviderError, RateLimitError, type ProviderError } from './errors';
+
+export interface SchedulerOptions {
+  /** Maximum number of requests in flight at once. */
+  concurrency: number;
+  /** How many times a retryable failure is retried before giving up. */
+  maxRetries: number;
+  /** Delay before the first retry; doubles on every attempt. */
+  baseDelayMs: number;
+  /** Upper bound for the exponential backoff (retry hints may exceed it). */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 3,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export type RetryListener = (attempt: number, delayMs: number, error: ProviderError) => void;
+
+export interface RequestScheduler {
+  /**
+   * Runs a request once a slot is free, retrying retryable failures with backoff.
+   * Rejects with the classified error once retries are exhausted, or with the
+   * signal's reason as soon as `signal` is aborted.
+   */
+  schedule<T>(task: () => Promise<T>, onRetry?: RetryListener, signal?: AbortSignal): Promise<T>;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Works out how long to wait before retrying. A retry hint from the backend is
+ * always honored; otherwise the delay grows exponentially with some jitter so
+ * parallel requests don't retry in lockstep.
+ * @param attempt The zero-based number of the attempt that just failed.
+ * @param error The failure.
+ * @param options The scheduler settings.
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelay(attempt: number, error: ProviderError, options: SchedulerOptions): number {
+  const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt) + Math.random() * options.baseDelayMs);
+  const hint = error instanceof RateLimitError && error.retryAfterSeconds !== null ? error.retryAfterSeconds * 1000 : 0;
+  return Math.max(backoff, hint);
+}
+
+/**
+ * Creates a queue that limits how many provider requests run at once. When one
+ * request is rate limited, every request in the queue waits out the cooldown
+ * before its next attempt instead of piling more 429s onto the backend.
+ * @param options Overrides for the default settings.
+ * @returns The scheduler.
+ */
+export function createRequestScheduler(options: Partial<SchedulerOptions> = {}): RequestScheduler {
+  const settings: SchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  const waiting: Array<() => void> = [];
+  let active = 0;
+  let pausedUntil = 0;
+
+  const acquire = async (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    if (active < settings.concurrency) {
+      active++;
+      return;
+    }
+    // The releasing request hands its slot straight to us, so `active` is unchanged.
+    await new Promise<void>((resolve, reject) => {
+      const onSlot = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      // A request cancelled while queued leaves the queue without ever holding a slot.
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(onSlot), 1);
+        reject(signal!.reason);
+      };
+      waiting.push(onSlot);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    async schedule<T>(task: () => Promise<T>, onRetry?: RetryListener, signal?: AbortSignal): Promise<T> {
+      await acquire(signal);
+      try {
+        for (let attempt = 0; ; attempt++) {
+          signal?.throwIfAborted();
+          const cooldown = pausedUntil - Date.now();
+          if (cooldown > 0) await sleep(cooldown, signal);
+
+          try {
+            return await task();
+          } catch (error) {
+            signal?.throwIfAborted();
+            const providerError = classifyProviderError(error);
+            if (!providerError.retryable || attempt >= settings.maxRetries) {
+              throw providerError;
+            }
+            const delay = getRetryDelay(attempt, providerError, settings);
+            if (providerError instanceof RateLimitError) {
+              pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+            }
+            onRetry?.(attempt + 1, delay, providerError);
+            await sleep(delay, signal);
+          }
+        }
+      } finally {
+        release();
+      }
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import type { DialogueLine } from '../types';
+import type { SpeechProvider } from './speechProvider';
+import {
+  EmptyResponseError,
+  InvalidInputError,
+  NetworkError,
+  ProviderError,
+  RateLimitError,
+  SafetyBlockedError,
+  ServerError,
+} from './errors';
+
+const API_BASE = '/api';
+
+// Videos are sent in pieces so a dropped connection only repeats the current one.
+const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 3;
+
+/** The script passes the proxy can run; see `server/app.ts`. */
+export type ScriptTask = 'dialogue' | 'transcribe' | 'effects' | 'music' | 'translate' | 'traits';
+
+export interface ScriptRequest {
+  task: ScriptTask;
+  guidance: string;
+  /** The uploaded video, for the passes that watch it. */
+  uploadId?: string;
+  /** The lines to translate or annotate, for the passes that read a script. */
+  lines?: DialogueLine[];
+  targetLanguage?: string;
+}
+
+/** How the proxy reports a failure: the provider error's class name and message. */
+export interface ErrorBody {
+  error: { kind: string; message: string; retryAfterSeconds?: number | null };
+}
+
+/** The proxy no longer has an upload, usually because it expired. */
+class UploadNotFoundError extends ProviderError {}
+
+const ERROR_KINDS: Record<string, new (message: string) => ProviderError> = {
+  UploadNotFoundError,
+  NetworkError,
+  ServerError,
+  EmptyResponseError,
+  InvalidInputError,
+  SafetyBlockedError,
+};
+
+/**
+ * Rebuilds the typed provider error from a failed proxy response, so retries
+ * and messages work the same as when the app talked to the model directly.
+ */
+async function toProviderError(response: Response): Promise<ProviderError> {
+  const body = await response.json().catch(() => null) as Partial<ErrorBody> | null;
+  const message = body?.error?.message ?? `Request failed with status ${response.status}`;
+  const kind = body?.error?.kind;
+
+  if (kind === 'RateLimitError' || response.status === 429) {
+    const header = response.headers.get('Retry-After');
+    const retryAfterSeconds = body?.error?.retryAfterSeconds ?? (header !== null && !isNaN(Number(header)) ? Number(header) : null);
+    return new RateLimitError(message, retryAfterSeconds);
+  }
+  if (kind && kind in ERROR_KINDS) return new ERROR_KINDS[kind](message);
+  if (response.status >= 500) return new ServerError(message);
+  if (response.status === 400 || response.status === 413 || response.status === 415) return new InvalidInputError(message);
+  return new ProviderError(message);
+}
+
+/**
+ * Calls the proxy and returns the response, turning connection failures and
+ * error statuses into provider errors. An aborted call rejects with the signal's reason.
+ */
+async function request(path: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, { ...init, signal });
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw new NetworkError('Network error', { cause: error });
+  }
+  if (!response.ok) throw await toProviderError(response);
+  return response;
+}
+
+async function postJson<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }, signal);
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Sends a video to the proxy in chunks. If a chunk fails to arrive, the proxy is
+ * asked how much it has and the upload carries on from there.
+ * @param video The video, with its MIME type set.
+ * @param signal Optional signal to cancel the upload.
+ * @returns The upload's id, to refer to the video in later requests.
+ */
+export async function uploadVideo(video: Blob, signal?: AbortSignal): Promise<string> {
+  const { id } = await postJson<{ id: string }>('/uploads', { size: video.size, mimeType: video.type }, signal);
+
+  let offset = 0;
+  let failures = 0;
+  while (offset < video.size) {
+    const chunk = video.slice(offset, offset + UPLOAD_CHUNK_BYTES);
+    try {
+      const response = await request(`/uploads/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/offset+octet-stream', 'Upload-Offset': String(offset) },
+        body: chunk,
+      }, signal);
+      offset = Number(response.headers.get('Upload-Offset'));
+      failures = 0;
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (!(error instanceof NetworkError || error instanceof ServerError) || ++failures >= MAX_CHUNK_ATTEMPTS) throw error;
+      const status = await request(`/uploads/${id}`, { method: 'HEAD' }, signal);
+      offset = Number(status.headers.get('Upload-Offset'));
+    }
+  }
+  return id;
+}
+
+// Each video window is watched by several passes; upload it only once.
+const uploads = new WeakMap<Blob, Promise<string>>();
+
+function getUploadId(video: Blob, signal?: AbortSignal): Promise<string> {
+  let upload = uploads.get(video);
+  if (!upload) {
+    upload = uploadVideo(video, signal);
+    uploads.set(video, upload);
+    upload.catch(() => uploads.delete(video));
+  }
+  return upload;
+}
+
+/**
+ * Runs a pass over a video, uploading it first if needed. Uploads expire on the
+ * proxy, so a video it no longer has is sent again once.
+ */
+async function runVideoTask(task: ScriptTask, video: Blob, guidance: string, signal?: AbortSignal): Promise<string> {
+  const run = async () => (await postJson<{ text: string }>('/script', { task, guidance, uploadId: await getUploadId(video, signal) }, signal)).text;
+  try {
+    return await run();
+  } catch (error) {
+    if (!(error instanceof UploadNotFoundError)) throw error;
+    uploads.delete(video);
+    return run();
+  }
+}
+
+/**
+ * Backend that forwards every call to the app's own server (`npm run server`),
+ * which holds the API key and talks to the model. Videos are uploaded to it in
+ * resumable chunks.
+ */
+export const serverProvider: SpeechProvider = {
+  name: 'server',
+  generateDialogueScript: (video, guidance, signal) => runVideoTask('dialogue', video, guidance, signal),
+  transcribeSpeech: (video, guidance, signal) => runVideoTask('transcribe', video, guidance, signal),
+  async translateLines(lines, targetLanguage, guidance, signal) {
+    return (await postJson<{ text: string }>('/script', { task: 'translate', guidance, lines, targetLanguage }, signal)).text;
+  },
+  generateSoundEventScript: (video, guidance, signal) => runVideoTask('effects', video, guidance, signal),
+  generateMusicCueSheet: (video, guidance, signal) => runVideoTask('music', video, guidance, signal),
+  async inferSpeakerTraits(lines, guidance, signal) {
+    return (await postJson<{ text: string }>('/script', { task: 'traits', guidance, lines }, signal)).text;
+  },
+  async generateAudioForDialogueLine(line, voiceName, signal) {
+    return (await postJson<{ audio: string }>('/tts', { line, voiceName }, signal)).audio;
+  },
+};
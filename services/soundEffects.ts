@@ -0,0 +1,311 @@
+import type { SoundCategory, SoundEvent, SoundEventKind } from '../types';
+import { createLineId } from '../utils/dialogueUtils';
+
+export interface SoundCategoryInfo {
+  id: SoundCategory;
+  label: string;
+  kind: SoundEventKind;
+  description: string;
+}
+
+/**
+ * Every effect the local library can render. The analysis prompt is built from
+ * this list, so the model can only ask for sounds we know how to make.
+ */
+export const SOUND_CATEGORIES: SoundCategoryInfo[] = [
+  { id: 'footsteps', label: 'Footsteps', kind: 'sfx', description: 'walking or running steps' },
+  { id: 'door', label: 'Doors', kind: 'sfx', description: 'doors, drawers, lids opening or closing' },
+  { id: 'impact', label: 'Impacts', kind: 'sfx', description: 'hits, punches, falls, objects dropped' },
+  { id: 'whoosh', label: 'Whooshes', kind: 'sfx', description: 'fast movement, swings, passing objects' },
+  { id: 'glass', label: 'Glass', kind: 'sfx', description: 'glasses clinking, breaking glass' },
+  { id: 'water', label: 'Water', kind: 'sfx', description: 'splashes, pouring, bubbling' },
+  { id: 'electronic', label: 'Electronics', kind: 'sfx', description: 'beeps, phones, alarms, UI sounds' },
+  { id: 'rain', label: 'Rain', kind: 'ambience', description: 'rainfall, drizzle, storms' },
+  { id: 'wind', label: 'Wind', kind: 'ambience', description: 'wind, breeze, gusts' },
+  { id: 'traffic', label: 'Traffic', kind: 'ambience', description: 'street noise, passing cars' },
+  { id: 'crowd', label: 'Crowd', kind: 'ambience', description: 'murmuring people, restaurants, parties' },
+  { id: 'birds', label: 'Birds', kind: 'ambience', description: 'birdsong, nature' },
+  { id: 'fire', label: 'Fire', kind: 'ambience', description: 'crackling fire, fireplace, campfire' },
+  { id: 'engine', label: 'Engines', kind: 'ambience', description: 'car interiors, machinery, hum' },
+];
+
+const CATEGORY_IDS = new Set<string>(SOUND_CATEGORIES.map(category => category.id));
+
+export function isSoundCategory(value: string): value is SoundCategory {
+  return CATEGORY_IDS.has(value);
+}
+
+/**
+ * Parses the sound event script produced by the analysis pass.
+ * Lines look like `[1.250] SFX: footsteps: (2.0) heavy boots on gravel`.
+ * @param script The raw script text.
+ * @returns The recognised events, ordered by start time.
+ */
+export function parseSoundEventScript(script: string): SoundEvent[] {
+  const eventRegex = /\[(\d+\.?\d*)\] (SFX|AMBIENCE): ([a-z]+): \((\d+\.?\d*)\) (.*)/i;
+  const events: SoundEvent[] = [];
+
+  for (const line of script.split('\n')) {
+    const match = line.match(eventRegex);
+    if (!match) continue;
+    const category = match[3].toLowerCase();
+    if (!isSoundCategory(category)) continue;
+    events.push({
+      id: createLineId(),
+      time: parseFloat(match[1]),
+      kind: match[2].toUpperCase() === 'AMBIENCE' ? 'ambience' : 'sfx',
+      category,
+      duration: Math.max(0.05, parseFloat(match[4])),
+      description: match[5].trim(),
+    });
+  }
+  return events.sort((a, b) => a.time - b.time);
+}
+
+// --- Procedural synthesis -------------------------------------------------
+
+export type Random = () => number;
+
+/** Small deterministic PRNG (mulberry32) so the same event always renders identically. */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function seedFor(event: SoundEvent): number {
+  let hash = Math.round(event.time * 1000);
+  for (let i = 0; i < event.category.length; i++) {
+    hash = Math.imul(hash ^ event.category.charCodeAt(i), 16777619);
+  }
+  return hash;
+}
+
+/** Coefficient for a one-pole low-pass filter at the given cutoff. */
+function onePole(cutoff: number, sampleRate: number): number {
+  return 1 - Math.exp((-2 * Math.PI * cutoff) / sampleRate);
+}
+
+export function lowpass(samples: Float32Array, cutoff: number, sampleRate: number): Float32Array {
+  const a = onePole(cutoff, sampleRate);
+  let y = 0;
+  for (let i = 0; i < samples.length; i++) {
+    y += a * (samples[i] - y);
+    samples[i] = y;
+  }
+  return samples;
+}
+
+export function highpass(samples: Float32Array, cutoff: number, sampleRate: number): Float32Array {
+  const a = onePole(cutoff, sampleRate);
+  let y = 0;
+  for (let i = 0; i < samples.length; i++) {
+    y += a * (samples[i] - y);
+    samples[i] = samples[i] - y;
+  }
+  return samples;
+}
+
+export function noise(length: number, random: Random): Float32Array {
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) out[i] = random() * 2 - 1;
+  return out;
+}
+
+/** Adds a short decaying noise burst (optionally with a pitched body) into `out`. */
+export function addHit(
+  out: Float32Array,
+  start: number,
+  sampleRate: number,
+  random: Random,
+  { decay, cutoff, gain, tone = 0 }: { decay: number; cutoff: number; gain: number; tone?: number }
+) {
+  const length = Math.min(out.length - start, Math.ceil(decay * 6 * sampleRate));
+  if (length <= 0) return;
+  const burst = lowpass(noise(length, random), cutoff, sampleRate);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const env = Math.exp(-t / decay);
+    const body = tone > 0 ? Math.sin(2 * Math.PI * tone * t * (1 - t * 0.5)) * 0.8 : 0;
+    out[start + i] += (burst[i] * 2 + body) * env * gain;
+  }
+}
+
+function addChirp(out: Float32Array, start: number, sampleRate: number, from: number, to: number, length: number, gain: number) {
+  const count = Math.min(out.length - start, Math.ceil(length * sampleRate));
+  let phase = 0;
+  for (let i = 0; i < count; i++) {
+    const progress = i / count;
+    phase += (2 * Math.PI * (from + (to - from) * progress)) / sampleRate;
+    out[start + i] += Math.sin(phase) * Math.sin(Math.PI * progress) * gain;
+  }
+}
+
+/** Slow random amplitude movement used to keep ambiences from sounding static. */
+function modulate(samples: Float32Array, sampleRate: number, random: Random, rate: number, depth: number) {
+  const phases = [random(), random(), random()].map(p => p * Math.PI * 2);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    const lfo = (Math.sin(2 * Math.PI * rate * t + phases[0]) + Math.sin(2 * Math.PI * rate * 0.37 * t + phases[1]) * 0.6 + Math.sin(2 * Math.PI * rate * 2.3 * t + phases[2]) * 0.3) / 1.9;
+    samples[i] *= 1 - depth / 2 + (lfo * depth) / 2;
+  }
+}
+
+export function applyFades(samples: Float32Array, sampleRate: number, fadeIn: number, fadeOut: number) {
+  const inLength = Math.min(samples.length, Math.floor(fadeIn * sampleRate));
+  const outLength = Math.min(samples.length, Math.floor(fadeOut * sampleRate));
+  for (let i = 0; i < inLength; i++) samples[i] *= i / inLength;
+  for (let i = 0; i < outLength; i++) samples[samples.length - 1 - i] *= i / outLength;
+}
+
+type Synth = (length: number, sampleRate: number, random: Random) => Float32Array;
+
+const SYNTHS: Record<SoundCategory, Synth> = {
+  footsteps: (length, sampleRate, random) => {
+    const out = new Float32Array(length);
+    const interval = 0.45 + random() * 0.15;
+    for (let t = 0.02; t * sampleRate < length; t += interval * (0.9 + random() * 0.2)) {
+      addHit(out, Math.floor(t * sampleRate), sampleRate, random, { decay: 0.025, cutoff: 900, gain: 0.5, tone: 90 });
+    }
+    return out;
+  },
+  door: (length, sampleRate, random) => {
+    const out = new Float32Array(length);
+    addChirp(out, 0, sampleRate, 420, 260, Math.min(0.35, length / sampleRate), 0.08);
+    addHit(out, Math.floor(Math.min(0.3, length / sampleRate / 2) * sampleRate), sampleRate, random, { decay: 0.08, cutoff: 500, gain: 0.7, tone: 65 });
+    return out;
+  },
+  impact: (length, sampleRate, random) => {
+    const out = new Float32Array(length);
+    addHit(out, 0, sampleRate, random, { decay: 0.12, cutoff: 1800, gain: 0.8, tone: 55 });
+    return out;
+  },
+  whoosh: (length, sampleRate, random) => {
+    const out = noise(length, random);
+    let y = 0;
+    for (let i = 0; i < length; i++) {
+      const progress = i / length;
+      const cutoff = 300 + 2500 * Math.sin(Math.PI * progress);
+      y += onePole(cutoff, sampleRate) * (out[i] - y);
+      out[i] = y * Math.sin(Math.PI * progress) * 0.9;
+    }
+    return out;
+  },
+  glass: (length, sampleRate, random) => {
+    const out = new Float32Array(length);
+    const partials = [2350, 3720, 5180, 6890].map(f => f * (0.95 + random() * 0.1));
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+      let sample = 0;
+      partials.forEach((f, index) => { sample += Math.sin(2 * Math.PI * f * t) * Math.exp(-t * (6 + index * 4)) / (index + 1); });
+      out[i] = sample * 0.3;
+    }
+    addHit(out, 0, sampleRate, random, { decay: 0.01, cutoff: 6000, gain: 0.3 });
+    return out;
+  },
+  water: (length, sampleRate, random) => {
+    const out = highpass(lowpass(noise(length, random), 1200, sampleRate), 200, sampleRate);
+    for (let i = 0; i < length; i++) out[i] *= 0.25;
+    const bubbles = Math.ceil((length / sampleRate) * 14);
+    for (let b = 0; b < bubbles; b++) {
+      const start = Math.floor(random() * length);
+      const f = 300 + random() * 900;
+      addChirp(out, start, sampleRate, f, f * 1.8, 0.03 + random() * 0.04, 0.15);
+    }
+    return out;
+  },
+  electronic: (length, sampleRate, random) => {
+    const out = new Float32Array(length);
+    const f = [880, 1000, 1320][Math.floor(random() * 3)];
+    const beep = 0.12;
+    for (let t = 0; t * sampleRate < length; t += beep * 2.5) {
+      const start = Math.floor(t * sampleRate);
+      const count = Math.min(length - start, Math.floor(beep * sampleRate));
+      for (let i = 0; i < count; i++) out[start + i] += Math.sin((2 * Math.PI * f * i) / sampleRate) * 0.25;
+    }
+    return out;
+  },
+  rain: (length, sampleRate, random) => {
+    const out = highpass(noise(length, random), 1500, sampleRate);
+    for (let i = 0; i < length; i++) out[i] *= 0.18;
+    const drops = Math.ceil((length / sampleRate) * 60);
+    for (let d = 0; d < drops; d++) {
+      addHit(out, Math.floor(random() * length), sampleRate, random, { decay: 0.004, cutoff: 4000, gain: 0.15 + random() * 0.15 });
+    }
+    return out;
+  },
+  wind: (length, sampleRate, random) => {
+    const out = lowpass(lowpass(noise(length, random), 500, sampleRate), 700, sampleRate);
+    for (let i = 0; i < length; i++) out[i] *= 2.5;
+    modulate(out, sampleRate, random, 0.2, 0.9);
+    return out;
+  },
+  traffic: (length, sampleRate, random) => {
+    const out = lowpass(lowpass(noise(length, random), 180, sampleRate), 250, sampleRate);
+    for (let i = 0; i < length; i++) out[i] *= 3;
+    modulate(out, sampleRate, random, 0.08, 0.7);
+    return out;
+  },
+  crowd: (length, sampleRate, random) => {
+    const out = new Float32Array(length);
+    for (let voice = 0; voice < 6; voice++) {
+      const band = highpass(lowpass(noise(length, random), 900 + random() * 800, sampleRate), 250, sampleRate);
+      modulate(band, sampleRate, random, 2 + random() * 3, 1);
+      for (let i = 0; i < length; i++) out[i] += band[i] * 0.25;
+    }
+    return out;
+  },
+  birds: (length, sampleRate, random) => {
+    const out = new Float32Array(length);
+    const calls = Math.max(1, Math.ceil((length / sampleRate) * 1.5));
+    for (let c = 0; c < calls; c++) {
+      let start = Math.floor(random() * length);
+      const base = 2500 + random() * 2000;
+      for (let note = 0; note < 2 + Math.floor(random() * 4); note++) {
+        addChirp(out, start, sampleRate, base, base * (1.2 + random() * 0.4), 0.06, 0.12);
+        start += Math.floor(0.09 * sampleRate);
+        if (start >= length) break;
+      }
+    }
+    return out;
+  },
+  fire: (length, sampleRate, random) => {
+    const out = lowpass(noise(length, random), 400, sampleRate);
+    for (let i = 0; i < length; i++) out[i] *= 1.2;
+    const pops = Math.ceil((length / sampleRate) * 8);
+    for (let p = 0; p < pops; p++) {
+      addHit(out, Math.floor(random() * length), sampleRate, random, { decay: 0.006, cutoff: 3000, gain: 0.2 + random() * 0.3 });
+    }
+    return out;
+  },
+  engine: (length, sampleRate, random) => {
+    const out = lowpass(noise(length, random), 300, sampleRate);
+    const f = 38 + random() * 20;
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+      let hum = 0;
+      for (let h = 1; h <= 6; h++) hum += Math.sin(2 * Math.PI * f * h * t) / h;
+      out[i] = out[i] * 0.8 + hum * 0.12;
+    }
+    return out;
+  },
+};
+
+/**
+ * Renders a sound event to mono samples using the procedural effects library.
+ * @param event The event to render.
+ * @param sampleRate The sample rate of the output.
+ * @returns The rendered samples, already faded in and out.
+ */
+export function renderSoundEvent(event: SoundEvent, sampleRate: number = 24000): Float32Array {
+  const length = Math.max(1, Math.ceil(event.duration * sampleRate));
+  const samples = SYNTHS[event.category](length, sampleRate, createRandom(seedFor(event)));
+  const fade = event.kind === 'ambience' ? Math.min(1, event.duration / 4) : 0.005;
+  applyFades(samples, sampleRate, fade, fade);
+  return samples;
+}
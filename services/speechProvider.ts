@@ -0,0 +1,83 @@
+import type { DialogueLine } from '../types';
+import { mockProvider } from './mockProvider';
+import { serverProvider } from './serverProvider';
+
+/**
+ * A backend that can turn a video into a script and script lines into speech.
+ * Videos are passed as Blobs whose `type` is their MIME type, so a backend can
+ * upload them however suits it. All audio is returned as base64-encoded 16-bit
+ * mono PCM at 24 kHz. Failures
+ * reject with a `ProviderError` subclass so callers can decide whether to retry.
+ * Every call takes an optional `AbortSignal`; an aborted call rejects with the
+ * signal's reason (an `AbortError`) instead.
+ */
+export interface SpeechProvider {
+  readonly name: ProviderName;
+  /** Produces a dialogue script (JSON, or the legacy text format) for a video. */
+  generateDialogueScript(video: Blob, guidance: string, signal?: AbortSignal): Promise<string>;
+  /**
+   * Transcribes the speech already in a video, with speakers told apart, in the
+   * same JSON format as `generateDialogueScript`.
+   */
+  transcribeSpeech(video: Blob, guidance: string, signal?: AbortSignal): Promise<string>;
+  /**
+   * Translates lines for a dub, keeping each about as long to say as the
+   * original. Resolves to JSON: `[{ index, text }]`.
+   */
+  translateLines(lines: DialogueLine[], targetLanguage: string, guidance: string, signal?: AbortSignal): Promise<string>;
+  /** Produces a sound event script (`[t] SFX: category: (duration) description` lines) for a video. */
+  generateSoundEventScript(video: Blob, guidance: string, signal?: AbortSignal): Promise<string>;
+  /**
+   * Plans a background score for a video from its mood and cuts. Resolves to JSON:
+   * `{ tempo, cuts: [seconds], cues: [{ time, mood, intensity }] }`.
+   */
+  generateMusicCueSheet(video: Blob, guidance: string, signal?: AbortSignal): Promise<string>;
+  /**
+   * Infers speakers, their age and gender, and a performance cue for each line
+   * of an imported script, without changing its times or text. Resolves to JSON:
+   * `{ speakers: [{ speaker, age, gender }], lines: [{ index, speaker, performanceCue }] }`.
+   */
+  inferSpeakerTraits(lines: DialogueLine[], guidance: string, signal?: AbortSignal): Promise<string>;
+  /** Synthesizes one line of dialogue. */
+  generateAudioForDialogueLine(line: DialogueLine, voiceName?: string, signal?: AbortSignal): Promise<string>;
+}
+
+export type ProviderName = 'gemini' | 'mock' | 'server';
+
+/** The backends the browser can use. Gemini is only reachable through the server, which holds the key. */
+export type ClientProviderName = Exclude<ProviderName, 'gemini'>;
+
+const PROVIDERS: Record<ClientProviderName, SpeechProvider> = {
+  server: serverProvider,
+  mock: mockProvider,
+};
+
+function isClientProviderName(value: string | null | undefined): value is ClientProviderName {
+  return value === 'server' || value === 'mock';
+}
+
+/**
+ * Works out which backend to use. A `?provider=` query parameter wins over the
+ * `SPEECH_PROVIDER` build setting; without either, requests go to the server.
+ * @returns The configured provider name.
+ */
+export function resolveProviderName(): ClientProviderName {
+  const fromQuery = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  if (isClientProviderName(fromQuery)) return fromQuery;
+
+  const fromEnv = process.env.SPEECH_PROVIDER;
+  if (isClientProviderName(fromEnv)) return fromEnv;
+
+  return 'server';
+}
+
+/**
+ * Returns the speech provider selected by configuration.
+ * @param name Optionally force a specific provider.
+ * @returns The provider implementation.
+ */
+export function getSpeechProvider(name: ClientProviderName = resolveProviderName()): SpeechProvider {
+  return PROVIDERS[name];
+}
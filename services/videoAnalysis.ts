@@ -0,0 +1,238 @@
+import type { DialogueMode, MusicPlan, SoundEvent } from '../types';
+import type { SpeechProvider } from './speechProvider';
+import { parseMusicCueSheet } from './musicScore';
+import { parseSoundEventScript } from './soundEffects';
+import { parseScript, type ScriptParseResult } from '../utils/scriptParser';
+import { DEFAULT_SEGMENT_PLAN, extractSegment, planSegments, type SegmentPlanOptions, type SegmentWindow } from '../utils/videoSegmenter';
+import {
+  mergeSegmentEvents,
+  mergeSegmentLines,
+  mergeSegmentMusic,
+  mergeSegmentSpeakers,
+  offsetAppearances,
+  offsetEvents,
+  offsetLines,
+  offsetMusic,
+  reconcileSpeakers,
+  type SegmentResult,
+} from '../utils/segmentMerge';
+
+// Inline request payloads are capped at about 20 MB; leave room for base64 growth and the prompt.
+export const INLINE_VIDEO_LIMIT_BYTES = 14 * 1024 * 1024;
+
+export type AnalysisStage = 'dialogue' | 'effects' | 'music';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  /** Zero-based index of the segment being analyzed. */
+  segment: number;
+  segmentCount: number;
+}
+
+export interface VideoAnalysis {
+  /** The raw model output, one block per segment. */
+  script: string;
+  parseResult: ScriptParseResult;
+  events: SoundEvent[];
+  /** The planned score, or null when music was not analyzed or the pass failed. */
+  music: MusicPlan | null;
+}
+
+/**
+ * Cuts one window out of a video. In the browser this is `extractSegment`, which
+ * re-records it; elsewhere another tool can do the cutting.
+ * @param videoUrl Where the extractor can read the video, e.g. an object URL.
+ */
+export type SegmentExtractor = (videoUrl: string, window: SegmentWindow, signal?: AbortSignal) => Promise<Blob>;
+
+export interface AnalysisOptions {
+  guidance: string;
+  /** Lip-read the footage (the default) or transcribe the speech already in it. */
+  mode?: DialogueMode;
+  detectEffects: boolean;
+  /** Plan a background score too, following this guidance. */
+  music?: { guidance: string };
+  segmentPlan?: SegmentPlanOptions;
+  /** Cuts segments out of long videos; recorded in the browser by default. */
+  extractSegment?: SegmentExtractor;
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Whether a video is too long or too large to send in one request.
+ * @param file The video file.
+ * @param duration The video length in seconds.
+ * @param plan The segment plan that would be used.
+ */
+export function needsSegmenting(file: Blob, duration: number, plan: SegmentPlanOptions = DEFAULT_SEGMENT_PLAN): boolean {
+  return file.size > INLINE_VIDEO_LIMIT_BYTES || duration > plan.segmentSeconds;
+}
+
+/**
+ * Splits a video into the windows it will be analyzed in: the whole video when
+ * it fits in one request, or overlapping segments otherwise.
+ */
+function planWindows(file: File, duration: number, plan: SegmentPlanOptions): SegmentWindow[] {
+  return needsSegmenting(file, duration, plan)
+    ? planSegments(duration, plan)
+    : [{ index: 0, start: 0, end: duration }];
+}
+
+/**
+ * Loads one window of the video, cutting it out first if the video is segmented.
+ * The result always carries a MIME type so providers can label the upload.
+ */
+async function loadWindow(
+  file: File,
+  videoUrl: string,
+  window: SegmentWindow,
+  isSegmented: boolean,
+  extract: SegmentExtractor = extractSegment,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const segment = isSegmented ? await extract(videoUrl, window, signal) : file;
+  return segment.type ? segment : new Blob([segment], { type: file.type });
+}
+
+/**
+ * Plans a background score for one window. Music is a bonus layer, so a failed
+ * pass is logged and leaves the window unscored rather than failing the analysis.
+ */
+async function scoreWindow(
+  provider: SpeechProvider,
+  video: Blob,
+  window: SegmentWindow,
+  guidance: string,
+  signal?: AbortSignal
+): Promise<MusicPlan | null> {
+  try {
+    return parseMusicCueSheet(await provider.generateMusicCueSheet(video, guidance, signal));
+  } catch (musicError) {
+    signal?.throwIfAborted();
+    console.error(`Music analysis failed for segment ${window.index + 1}; continuing without it.`, musicError);
+    return null;
+  }
+}
+
+/**
+ * Runs the dialogue (and optionally sound effect and music) analysis over a video. The
+ * dialogue is either lip-read or, in dubbing mode, transcribed from the audio. Short
+ * videos are sent whole; long ones are cut into overlapping windows that are
+ * analyzed one at a time, then merged back onto a single timeline with
+ * duplicates removed and speaker labels reconciled. Where each speaker appears
+ * on screen comes back alongside the script.
+ * @param provider The backend to analyze with.
+ * @param file The video file.
+ * @param videoUrl An object URL for the same file (or whatever `extractSegment` reads), used to cut segments.
+ * @param duration The video length in seconds.
+ * @param options Guidance, whether to detect effects and score music, progress reporting and cancellation.
+ * @returns The merged script, sound events and music plan.
+ */
+export async function analyzeVideo(
+  provider: SpeechProvider,
+  file: File,
+  videoUrl: string,
+  duration: number,
+  options: AnalysisOptions
+): Promise<VideoAnalysis> {
+  const windows = planWindows(file, duration, options.segmentPlan ?? DEFAULT_SEGMENT_PLAN);
+  const isSegmented = windows.length > 1;
+
+  const scripts: string[] = [];
+  const rejected: ScriptParseResult['rejected'] = [];
+  const results: SegmentResult[] = [];
+  let format: ScriptParseResult['format'] = 'json';
+
+  // One window at a time keeps at most one segment's base64 in memory.
+  for (const window of windows) {
+    options.signal?.throwIfAborted();
+    options.onProgress?.({ stage: 'dialogue', segment: window.index, segmentCount: windows.length });
+    const video = await loadWindow(file, videoUrl, window, isSegmented, options.extractSegment, options.signal);
+
+    const script = options.mode === 'dub'
+      ? await provider.transcribeSpeech(video, options.guidance, options.signal)
+      : await provider.generateDialogueScript(video, options.guidance, options.signal);
+    const parseResult = parseScript(script);
+    format = parseResult.format;
+    scripts.push(isSegmented ? `# Segment ${window.index + 1} (${window.start.toFixed(1)}s–${window.end.toFixed(1)}s)\n${script}` : script);
+    rejected.push(...parseResult.rejected.map(item => (
+      isSegmented ? { ...item, reason: `Segment ${window.index + 1}: ${item.reason}` } : item
+    )));
+
+    let events: SoundEvent[] = [];
+    if (options.detectEffects) {
+      options.onProgress?.({ stage: 'effects', segment: window.index, segmentCount: windows.length });
+      try {
+        events = parseSoundEventScript(await provider.generateSoundEventScript(video, options.guidance, options.signal));
+      } catch (effectsError) {
+        options.signal?.throwIfAborted();
+        // Effects are a bonus layer; a failed pass should not cost the user their dialogue.
+        console.error(`Sound effect analysis failed for segment ${window.index + 1}; continuing without it.`, effectsError);
+      }
+    }
+
+    let music: MusicPlan | null = null;
+    if (options.music) {
+      options.onProgress?.({ stage: 'music', segment: window.index, segmentCount: windows.length });
+      music = await scoreWindow(provider, video, window, options.music.guidance, options.signal);
+    }
+
+    results.push({
+      window,
+      lines: offsetLines(parseResult.lines, window.start),
+      events: offsetEvents(events, window.start),
+      speakers: offsetAppearances(parseResult.speakers, window.start),
+      music: offsetMusic(music, window.start),
+    });
+  }
+
+  if (!isSegmented) {
+    const [result] = results;
+    return {
+      script: scripts[0],
+      parseResult: { format, lines: result.lines, rejected, speakers: result.speakers },
+      events: result.events,
+      music: result.music,
+    };
+  }
+
+  const reconciled = reconcileSpeakers(results);
+  return {
+    script: scripts.join('\n\n'),
+    parseResult: { format, lines: mergeSegmentLines(reconciled), rejected, speakers: mergeSegmentSpeakers(reconciled) },
+    events: mergeSegmentEvents(reconciled),
+    music: mergeSegmentMusic(reconciled),
+  };
+}
+
+/**
+ * Plans a background score for a video on its own, e.g. to rescore with new
+ * guidance without analyzing the dialogue again. Long videos are scored in the
+ * same overlapping windows as `analyzeVideo` and merged.
+ * @param provider The backend to analyze with.
+ * @param file The video file.
+ * @param videoUrl An object URL for the same file (or whatever `extractSegment` reads), used to cut segments.
+ * @param duration The video length in seconds.
+ * @param options The music guidance, progress reporting and cancellation.
+ * @returns The merged plan, or null if no window could be scored.
+ */
+export async function analyzeMusic(
+  provider: SpeechProvider,
+  file: File,
+  videoUrl: string,
+  duration: number,
+  options: Pick<AnalysisOptions, 'segmentPlan' | 'extractSegment' | 'onProgress' | 'signal'> & { guidance: string }
+): Promise<MusicPlan | null> {
+  const windows = planWindows(file, duration, options.segmentPlan ?? DEFAULT_SEGMENT_PLAN);
+  const isSegmented = windows.length > 1;
+  const results: SegmentResult[] = [];
+  for (const window of windows) {
+    options.signal?.throwIfAborted();
+    options.onProgress?.({ stage: 'music', segment: window.index, segmentCount: windows.length });
+    const video = await loadWindow(file, videoUrl, window, isSegmented, options.extractSegment, options.signal);
+    const music = await scoreWindow(provider, video, window, options.guidance, options.signal);
+    results.push({ window, lines: [], events: [], speakers: [], music: offsetMusic(music, window.start) });
+  }
+  return isSegmented ? mergeSegmentMusic(results) : results[0].music;
+}
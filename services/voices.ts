@@ -0,0 +1,151 @@
+import type { DialogueLine, VoiceCasting } from '../types';
+
+export type VoiceGender = 'Female' | 'Male';
+export type VoiceRegister = 'young' | 'adult' | 'mature';
+
+export interface VoiceProfile {
+  name: string;
+  style: string;
+  gender: VoiceGender;
+  register: VoiceRegister;
+}
+
+export interface SpeakerProfile {
+  speaker: string;
+  age: string;
+  gender: string;
+  lineCount: number;
+}
+
+export const DEFAULT_VOICE = 'Kore';
+
+export const AUDITION_LINE = 'Hello there. This is how I sound when I read your lines.';
+
+/**
+ * The prebuilt voices offered by the Gemini TTS model. Gender and register are
+ * our own listening notes and only drive the casting suggestions.
+ */
+export const PREBUILT_VOICES: VoiceProfile[] = [
+  { name: 'Zephyr', style: 'Bright', gender: 'Female', register: 'young' },
+  { name: 'Kore', style: 'Firm', gender: 'Female', register: 'adult' },
+  { name: 'Leda', style: 'Youthful', gender: 'Female', register: 'young' },
+  { name: 'Aoede', style: 'Breezy', gender: 'Female', register: 'adult' },
+  { name: 'Callirrhoe', style: 'Easy-going', gender: 'Female', register: 'adult' },
+  { name: 'Autonoe', style: 'Bright', gender: 'Female', register: 'young' },
+  { name: 'Despina', style: 'Smooth', gender: 'Female', register: 'adult' },
+  { name: 'Erinome', style: 'Clear', gender: 'Female', register: 'adult' },
+  { name: 'Laomedeia', style: 'Upbeat', gender: 'Female', register: 'young' },
+  { name: 'Achernar', style: 'Soft', gender: 'Female', register: 'adult' },
+  { name: 'Gacrux', style: 'Mature', gender: 'Female', register: 'mature' },
+  { name: 'Pulcherrima', style: 'Forward', gender: 'Female', register: 'adult' },
+  { name: 'Vindemiatrix', style: 'Gentle', gender: 'Female', register: 'mature' },
+  { name: 'Sulafat', style: 'Warm', gender: 'Female', register: 'mature' },
+  { name: 'Puck', style: 'Upbeat', gender: 'Male', register: 'young' },
+  { name: 'Charon', style: 'Informative', gender: 'Male', register: 'adult' },
+  { name: 'Fenrir', style: 'Excitable', gender: 'Male', register: 'young' },
+  { name: 'Orus', style: 'Firm', gender: 'Male', register: 'adult' },
+  { name: 'Enceladus', style: 'Breathy', gender: 'Male', register: 'adult' },
+  { name: 'Iapetus', style: 'Clear', gender: 'Male', register: 'adult' },
+  { name: 'Umbriel', style: 'Easy-going', gender: 'Male', register: 'adult' },
+  { name: 'Algieba', style: 'Smooth', gender: 'Male', register: 'adult' },
+  { name: 'Algenib', style: 'Gravelly', gender: 'Male', register: 'mature' },
+  { name: 'Rasalgethi', style: 'Informative', gender: 'Male', register: 'mature' },
+  { name: 'Alnilam', style: 'Firm', gender: 'Male', register: 'adult' },
+  { name: 'Schedar', style: 'Even', gender: 'Male', register: 'adult' },
+  { name: 'Achird', style: 'Friendly', gender: 'Male', register: 'young' },
+  { name: 'Zubenelgenubi', style: 'Casual', gender: 'Male', register: 'adult' },
+  { name: 'Sadachbia', style: 'Lively', gender: 'Male', register: 'young' },
+  { name: 'Sadaltager', style: 'Knowledgeable', gender: 'Male', register: 'mature' },
+];
+
+function toVoiceGender(gender: string): VoiceGender | null {
+  const value = gender.toLowerCase();
+  if (/female|woman|girl|feminine/.test(value)) return 'Female';
+  if (/male|man|boy|masculine/.test(value)) return 'Male';
+  return null;
+}
+
+function toVoiceRegister(age: string): VoiceRegister {
+  const value = age.toLowerCase();
+  if (/child|kid|teen|young|boy|girl/.test(value)) return 'young';
+  if (/senior|elder|old|mature/.test(value)) return 'mature';
+  return 'adult';
+}
+
+/**
+ * Collects each distinct speaker in a script along with the traits of their first line.
+ * @param lines The dialogue lines to scan.
+ * @returns One profile per speaker, in order of first appearance.
+ */
+export function getSpeakerProfiles(lines: DialogueLine[]): SpeakerProfile[] {
+  const profiles = new Map<string, SpeakerProfile>();
+  for (const line of [...lines].sort((a, b) => a.time - b.time)) {
+    const existing = profiles.get(line.speaker);
+    if (existing) {
+      existing.lineCount++;
+    } else {
+      profiles.set(line.speaker, { speaker: line.speaker, age: line.age, gender: line.gender, lineCount: 1 });
+    }
+  }
+  return Array.from(profiles.values());
+}
+
+/**
+ * Picks a prebuilt voice matching a speaker's perceived age and gender, avoiding
+ * voices already cast for other speakers where possible.
+ * @param age The perceived age from the script, e.g. "Child".
+ * @param gender The perceived gender from the script, e.g. "Female".
+ * @param taken Voice names already assigned to other speakers.
+ * @returns The suggested voice name.
+ */
+export function suggestVoice(age: string, gender: string, taken: string[] = []): string {
+  const voiceGender = toVoiceGender(gender);
+  const register = toVoiceRegister(age);
+  const available = PREBUILT_VOICES.filter(voice => !taken.includes(voice.name));
+  const byGender = available.filter(voice => !voiceGender || voice.gender === voiceGender);
+
+  const match =
+    byGender.find(voice => voice.register === register) ??
+    byGender[0] ??
+    available[0] ??
+    PREBUILT_VOICES.find(voice => voice.gender === voiceGender);
+
+  return match?.name ?? DEFAULT_VOICE;
+}
+
+/**
+ * Fills in a voice for every speaker in the script. Explicit choices are kept;
+ * everyone else gets a suggestion based on their age and gender.
+ * @param lines The dialogue lines to cast.
+ * @param overrides Voices the user has picked by hand, keyed by speaker.
+ * @returns A complete casting for every speaker in the script.
+ */
+export function resolveCasting(lines: DialogueLine[], overrides: VoiceCasting): VoiceCasting {
+  const profiles = getSpeakerProfiles(lines);
+  const casting: VoiceCasting = {};
+  const taken = profiles.map(profile => overrides[profile.speaker]).filter(Boolean);
+
+  for (const profile of profiles) {
+    const chosen = overrides[profile.speaker];
+    if (chosen) {
+      casting[profile.speaker] = chosen;
+    } else {
+      const suggestion = suggestVoice(profile.age, profile.gender, taken);
+      casting[profile.speaker] = suggestion;
+      taken.push(suggestion);
+    }
+  }
+  return casting;
+}
+
+/**
+ * Builds the instruction the TTS model performs a line from. Everything that
+ * shapes the synthesized audio apart from the voice goes into this text, which
+ * is why the audio cache keys clips on it. It lives here rather than with the
+ * Gemini client so the browser can compute cache keys without bundling the SDK.
+ * @param line The dialogue line to perform.
+ * @returns The prompt text.
+ */
+export function buildTtsPrompt(line: DialogueLine): string {
+  return `As a voice actor performing as a ${line.age.toLowerCase()} ${line.gender.toLowerCase()}, ${line.performanceCue}, perform this sound or line: "${line.text}"`;
+}
@@ -0,0 +1,234 @@
+export interface DialogueLine {
+  time: number;
+  /** When the speaker's mouth stops moving, if the model reported it. */
+  endTime?: number;
+  speaker: string;
+  age: string;
+  gender: string;
+  performanceCue: string;
+  text: string;
+}
+
+/**
+ * A dialogue line as it lives in the editor, with a stable id so edits can be
+ * matched back to the audio that was synthesized for it.
+ */
+export interface ScriptLine extends DialogueLine {
+  id: string;
+}
+
+/**
+ * Synthesized audio for a single script line, together with a snapshot of the
+ * line it was generated from.
+ */
+export interface SynthesizedClip {
+  source: DialogueLine;
+  voiceName: string;
+  audioData: Uint8Array;
+}
+
+/**
+ * How a line's audio was adjusted to fit its lip-movement window.
+ */
+export interface LineFit {
+  windowSeconds: number;
+  clipSeconds: number;
+  fittedSeconds: number;
+  speedFactor: number;
+  trimmedSeconds: number;
+}
+
+/**
+ * Maps a speaker label from the script (e.g. `Speaker 1`) to a prebuilt TTS voice name.
+ */
+export type VoiceCasting = Record<string, string>;
+
+/**
+ * A rectangle in the video frame, as fractions (0–1) of the frame's width and height.
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a speaker can be seen on screen: a moment they are clearly visible and
+ * the box around their face at that moment.
+ */
+export interface SpeakerAppearance {
+  speaker: string;
+  time: number;
+  box: BoundingBox;
+}
+
+export type SoundCategory =
+  | 'footsteps'
+  | 'door'
+  | 'impact'
+  | 'whoosh'
+  | 'glass'
+  | 'water'
+  | 'rain'
+  | 'wind'
+  | 'traffic'
+  | 'crowd'
+  | 'birds'
+  | 'fire'
+  | 'engine'
+  | 'electronic';
+
+export type SoundEventKind = 'sfx' | 'ambience';
+
+/**
+ * A timestamped sound effect or ambience bed detected in the video.
+ */
+export interface SoundEvent {
+  id: string;
+  time: number;
+  duration: number;
+  kind: SoundEventKind;
+  category: SoundCategory;
+  description: string;
+}
+
+export type MusicMood = 'calm' | 'tense' | 'uplifting' | 'melancholy' | 'playful' | 'action';
+
+/**
+ * A stretch of the score in one mood. It runs until the next cue, or the end of the video.
+ */
+export interface MusicCue {
+  id: string;
+  time: number;
+  mood: MusicMood;
+  /** How full the arrangement is, from 0 (a sparse bed) to 1 (every stem playing). */
+  intensity: number;
+}
+
+/**
+ * The score worked out from the video's mood and editing.
+ */
+export interface MusicPlan {
+  /** Beats per minute suggested by the analysis. */
+  tempo: number;
+  /** Times of hard cuts in seconds; changes of mood land on these. */
+  cuts: number[];
+  cues: MusicCue[];
+}
+
+export interface MusicSettings {
+  enabled: boolean;
+  /** What the score should sound like, e.g. "slow and hopeful, 80 bpm". */
+  guidance: string;
+  /** Beats per minute; null takes a tempo from the guidance, or else the analysis. */
+  tempo: number | null;
+  /** How far the music drops while someone is speaking, in dB. */
+  duckingDb: number;
+}
+
+/**
+ * Channel strip settings for one bus of the mixer.
+ */
+export interface BusSettings {
+  /** Fader level in dB. */
+  gainDb: number;
+  /** Stereo position from -1 (left) to 1 (right). */
+  pan: number;
+  muted: boolean;
+  eq: {
+    enabled: boolean;
+    lowDb: number;
+    midDb: number;
+    highDb: number;
+  };
+  compressor: {
+    enabled: boolean;
+    thresholdDb: number;
+    ratio: number;
+  };
+}
+
+export interface MixSettings {
+  /** Bus settings keyed by speaker label, plus the effects and music buses. */
+  buses: Record<string, BusSettings>;
+  masterGainDb: number;
+  limiterEnabled: boolean;
+}
+
+/**
+ * Where the script comes from: lip-reading silent footage, or transcribing the
+ * speech already in the video and translating it for a dub.
+ */
+export type DialogueMode = 'lipread' | 'dub';
+
+/**
+ * The stage a generation run is in, as shown to the user. Empty when idle.
+ */
+export type LoadingStep =
+  | 'Analyzing Lip Movements'
+  | 'Transcribing Speech'
+  | 'Translating Dialogue'
+  | 'Inferring Speakers'
+  | 'Detecting Sound Effects'
+  | 'Scoring Music'
+  | 'Generating Dialogue Audio'
+  | 'Synchronizing Dialogue'
+  | '';
+
+/**
+ * One version of a video's script. Every generation, import and assembly adds a
+ * take instead of overwriting the last, so runs can be compared and combined.
+ */
+export interface ScriptTake {
+  id: string;
+  /** Counts up from 1 per video, so takes keep their names when others are deleted. */
+  number: number;
+  createdAt: number;
+  /** Where the script came from, e.g. "Lip-read" or "Imported from scene.srt". */
+  label: string;
+  /** The guidance prompt the script was generated with; empty when there was none. */
+  guidance: string;
+  lines: ScriptLine[];
+  /** Synthesized audio keyed by line id; the take's mix is rendered from it. */
+  clips: Record<string, SynthesizedClip>;
+}
+
+/**
+ * Everything needed to reopen a scene without calling the API again. The video
+ * itself is stored alongside the project rather than inside it.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  video: {
+    name: string;
+    type: string;
+    size: number;
+  };
+  guidance: string;
+  lines: ScriptLine[];
+  voiceOverrides: VoiceCasting;
+  /** Synthesized audio keyed by line id. */
+  clips: Record<string, SynthesizedClip>;
+  maxSpeedup: number;
+  mixSettings: MixSettings;
+  soundEffectsEnabled: boolean;
+  soundEvents: SoundEvent[];
+  disabledCategories: SoundCategory[];
+  /** Missing in projects saved before dubbing existed, which were all lip-read. */
+  dialogueMode?: DialogueMode;
+  /** The language a dub was translated into. */
+  targetLanguage?: string;
+  /** Missing in projects saved before speakers were located on screen. */
+  speakerAppearances?: SpeakerAppearance[];
+  /** Missing in projects saved before music scoring existed. */
+  musicPlan?: MusicPlan | null;
+  musicSettings?: MusicSettings;
+  /** Missing in projects saved before takes were kept. */
+  takes?: ScriptTake[];
+  /** The take the editor is working on; `lines` and `clips` mirror it. */
+  activeTakeId?: string | null;
+}
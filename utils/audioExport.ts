@@ -0,0 +1,136 @@
+import { audioBufferToWavBlob, type WavBitDepth } from './audioUtils';
+import { encodeFlac } from './flacEncoder';
+import { normalizeLoudness } from './loudness';
+
+export type AudioExportFormat = 'wav' | 'flac' | 'opus';
+
+export interface AudioExportOptions {
+  format: AudioExportFormat;
+  /** Bit depth for WAV (16, 24 or 32-bit float) and FLAC (16 or 24). Ignored for Opus. */
+  bitDepth: WavBitDepth;
+  sampleRate: number;
+  /** Target bitrate for Opus, in kbit/s. */
+  opusBitrateKbps: number;
+  normalize: boolean;
+  targetLufs: number;
+}
+
+export interface AudioExportResult {
+  blob: Blob;
+  extension: string;
+  /** Integrated loudness before normalization, when normalization ran. */
+  measuredLufs?: number;
+}
+
+export const SAMPLE_RATE_CHOICES = [24000, 44100, 48000, 96000];
+
+export const DEFAULT_AUDIO_EXPORT_OPTIONS: AudioExportOptions = {
+  format: 'wav',
+  bitDepth: 16,
+  sampleRate: 48000,
+  opusBitrateKbps: 128,
+  normalize: false,
+  targetLufs: -16,
+};
+
+const OPUS_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+
+/**
+ * Whether this browser can record Opus through MediaRecorder.
+ */
+export function isOpusSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && OPUS_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Encodes a buffer as Opus by playing it into a MediaRecorder. Like the video
+ * export, this runs in real time.
+ * @param buffer The audio to encode.
+ * @param bitrateKbps Target bitrate.
+ * @param onProgress Called with the fraction encoded so far.
+ * @param signal Optional signal to abort the encode.
+ * @returns The recorded file and its extension.
+ */
+async function encodeOpus(
+  buffer: AudioBuffer,
+  bitrateKbps: number,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<{ blob: Blob; extension: string }> {
+  const mimeType = OPUS_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('This browser cannot record Opus audio. Please choose WAV or FLAC.');
+  }
+
+  const ctx: AudioContext = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ sampleRate: buffer.sampleRate });
+  try {
+    const destination = ctx.createMediaStreamDestination();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType, audioBitsPerSecond: bitrateKbps * 1000 });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => recorder.addEventListener('stop', () => resolve(), { once: true }));
+    const stop = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    source.onended = stop;
+    signal?.addEventListener('abort', () => { source.stop(); stop(); }, { once: true });
+
+    await ctx.resume();
+    recorder.start(1000);
+    const startedAt = ctx.currentTime;
+    source.start();
+    const timer = setInterval(() => onProgress(Math.min(1, (ctx.currentTime - startedAt) / buffer.duration)), 250);
+    await stopped;
+    clearInterval(timer);
+
+    if (signal?.aborted) {
+      throw new DOMException('Audio export was cancelled.', 'AbortError');
+    }
+    const type = mimeType.split(';')[0];
+    return { blob: new Blob(chunks, { type }), extension: type === 'audio/ogg' ? 'ogg' : 'webm' };
+  } finally {
+    await ctx.close();
+  }
+}
+
+/**
+ * Encodes a rendered mix in the requested format, optionally normalizing its
+ * loudness first. The buffer should already be at `options.sampleRate`.
+ * @param buffer The rendered mix.
+ * @param options Format, bit depth and loudness settings.
+ * @param onProgress Called with the fraction encoded so far.
+ * @param signal Optional signal to abort a real-time (Opus) encode.
+ * @returns The encoded file.
+ */
+export async function exportAudio(
+  buffer: AudioBuffer,
+  options: AudioExportOptions,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<AudioExportResult> {
+  let measuredLufs: number | undefined;
+  if (options.normalize) {
+    const normalized = normalizeLoudness(buffer, options.targetLufs);
+    buffer = normalized.buffer;
+    measuredLufs = normalized.measuredLufs;
+  }
+
+  switch (options.format) {
+    case 'opus': {
+      const result = await encodeOpus(buffer, options.opusBitrateKbps, onProgress, signal);
+      return { ...result, measuredLufs };
+    }
+    case 'flac':
+      onProgress(1);
+      return { blob: encodeFlac(buffer, options.bitDepth === 16 ? 16 : 24), extension: 'flac', measuredLufs };
+    case 'wav':
+      onProgress(1);
+      return { blob: audioBufferToWavBlob(buffer, options.bitDepth), extension: 'wav', measuredLufs };
+  }
+}
@@ -1,3 +1,5 @@
+import type { BusSettings, MixSettings } from '../types';
+
 /**
  * Decodes a base64 string into a Uint8Array.
  * @param base64 The base64 encoded string.
@@ -13,6 +15,20 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Encodes a Uint8Array as a base64 string.
+ * @param bytes The data to encode.
+ * @returns The base64 encoded string.
+ */
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
 /**
  * Decodes raw PCM audio data into an AudioBuffer.
  * @param data The raw audio data as a Uint8Array.
@@ -42,13 +58,53 @@ export async function decodeAudioData(
 }
 
 /**
- * Converts an AudioBuffer object to a WAV file Blob.
- * @param buffer The AudioBuffer to convert.
+ * Plays raw 16-bit PCM audio once through the speakers.
+ * @param data The raw audio data as a Uint8Array.
+ * @param sampleRate The sample rate of the audio.
+ * @returns A promise that resolves when playback has finished.
+ */
+export async function playPcmAudio(data: Uint8Array, sampleRate: number = 24000): Promise<void> {
+  const ctx: AudioContext = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+  try {
+    const buffer = await decodeAudioData(data, ctx, sampleRate, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+    });
+  } finally {
+    await ctx.close();
+  }
+}
+
+export type WavBitDepth = 16 | 24 | 32;
+
+/**
+ * The parts of an AudioBuffer that encoders and exporters read. Audio rendered
+ * outside the browser provides the same shape, so it can be encoded the same way.
+ */
+export interface PcmAudio {
+  readonly numberOfChannels: number;
+  readonly sampleRate: number;
+  /** Length in sample frames. */
+  readonly length: number;
+  /** Length in seconds. */
+  readonly duration: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+/**
+ * Converts an AudioBuffer (or other PCM audio) to a WAV file Blob.
+ * @param buffer The audio to convert.
+ * @param bitDepth 16- or 24-bit integer PCM, or 32-bit IEEE float.
  * @returns A Blob representing the WAV file.
  */
-export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
+export function audioBufferToWavBlob(buffer: PcmAudio, bitDepth: WavBitDepth = 16): Blob {
   const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2; // 2 bytes per sample (16-bit)
+  const bytesPerSample = bitDepth / 8;
+  const length = buffer.length * numOfChan * bytesPerSample;
   const bufferArray = new ArrayBuffer(44 + length);
   const view = new DataView(bufferArray);
   const channels = [];
@@ -73,12 +129,12 @@ export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
   // Write "fmt " chunk
   setUint32(0x20746d66); // "fmt "
   setUint32(16); // chunk size
-  setUint16(1); // format = 1 (PCM)
+  setUint16(bitDepth === 32 ? 3 : 1); // format = 1 (PCM) or 3 (IEEE float)
   setUint16(numOfChan);
   setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // byte rate
-  setUint16(numOfChan * 2); // block align
-  setUint16(16); // bits per sample
+  setUint32(buffer.sampleRate * bytesPerSample * numOfChan); // byte rate
+  setUint16(numOfChan * bytesPerSample); // block align
+  setUint16(bitDepth); // bits per sample
 
   // Write "data" chunk
   setUint32(0x61746164); // "data"
@@ -91,9 +147,17 @@ export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
   while (pos < 44 + length) {
     for (i = 0; i < numOfChan; i++) {
       sample = Math.max(-1, Math.min(1, channels[i][offset])); // clamp
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit signed int
-      view.setInt16(pos, sample, true);
-      pos += 2;
+      if (bitDepth === 32) {
+        view.setFloat32(pos, sample, true);
+      } else if (bitDepth === 24) {
+        sample = Math.round(sample < 0 ? sample * 8388608 : sample * 8388607); // scale to 24-bit signed int
+        view.setUint8(pos, sample & 0xff);
+        view.setInt16(pos + 1, sample >> 8, true);
+      } else {
+        sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit signed int
+        view.setInt16(pos, sample, true);
+      }
+      pos += bytesPerSample;
     }
     offset++;
   }
@@ -102,35 +166,264 @@ export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
 }
 
 /**
- * Stitches multiple audio clips together at specific times on a silent track.
- * @param clips An array of audio clips with their start times and raw data.
+ * Converts raw 16-bit mono PCM into floating-point samples.
+ * @param data The raw audio data as a Uint8Array.
+ * @returns The samples in the range [-1, 1).
+ */
+export function pcm16ToFloat32(data: Uint8Array): Float32Array {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const samples = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) {
+    samples[i] = dataInt16[i] / 32768.0;
+  }
+  return samples;
+}
+
+/** Sample rate of synthesized speech and rendered sound effects. */
+export const CLIP_SAMPLE_RATE = 24000;
+
+/**
+ * A mono clip placed on the stitched track, sampled at `CLIP_SAMPLE_RATE`.
+ */
+export interface TimedClip {
+  time: number;
+  samples: Float32Array;
+}
+
+/**
+ * A clip routed to one bus of the mixer.
+ */
+export interface MixTrack extends TimedClip {
+  bus: string;
+}
+
+export const EFFECTS_BUS = 'Effects';
+export const MUSIC_BUS = 'Music';
+
+export const DEFAULT_BUS_SETTINGS: BusSettings = {
+  gainDb: 0,
+  pan: 0,
+  muted: false,
+  eq: { enabled: false, lowDb: 0, midDb: 0, highDb: 0 },
+  compressor: { enabled: false, thresholdDb: -18, ratio: 3 },
+};
+
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  buses: {
+    [EFFECTS_BUS]: { ...DEFAULT_BUS_SETTINGS, gainDb: -6 },
+    [MUSIC_BUS]: { ...DEFAULT_BUS_SETTINGS, gainDb: -10 },
+  },
+  masterGainDb: 0,
+  limiterEnabled: true,
+};
+
+/**
+ * Converts a level in decibels to a linear gain factor.
+ */
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Makes sure every bus in the scene has settings, adding defaults for new speakers.
+ * @param busNames The buses that will receive audio.
+ * @param settings The current mix settings.
+ * @returns Settings with an entry for every bus.
+ */
+export function resolveMixSettings(busNames: string[], settings: MixSettings): MixSettings {
+  const buses: Record<string, BusSettings> = {};
+  for (const name of busNames) {
+    buses[name] = settings.buses[name] ?? DEFAULT_MIX_SETTINGS.buses[name] ?? DEFAULT_BUS_SETTINGS;
+  }
+  return { ...settings, buses };
+}
+
+/**
+ * Builds the processing chain for one bus: EQ, compressor, fader and panner.
+ * @returns The node clips should connect to.
+ */
+function createBusChain(ctx: BaseAudioContext, settings: BusSettings, output: AudioNode): AudioNode {
+  const input = ctx.createGain();
+  let tail: AudioNode = input;
+
+  if (settings.eq.enabled) {
+    const bands: [BiquadFilterType, number, number][] = [
+      ['lowshelf', 200, settings.eq.lowDb],
+      ['peaking', 1500, settings.eq.midDb],
+      ['highshelf', 5000, settings.eq.highDb],
+    ];
+    for (const [type, frequency, gainDb] of bands) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = type;
+      filter.frequency.value = frequency;
+      filter.gain.value = gainDb;
+      tail.connect(filter);
+      tail = filter;
+    }
+  }
+
+  if (settings.compressor.enabled) {
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = settings.compressor.thresholdDb;
+    compressor.ratio.value = settings.compressor.ratio;
+    compressor.attack.value = 0.005;
+    compressor.release.value = 0.15;
+    tail.connect(compressor);
+    tail = compressor;
+  }
+
+  const fader = ctx.createGain();
+  fader.gain.value = settings.muted ? 0 : dbToGain(settings.gainDb);
+  const panner = ctx.createStereoPanner();
+  panner.pan.value = settings.pan;
+  tail.connect(fader);
+  fader.connect(panner);
+  panner.connect(output);
+
+  return input;
+}
+
+/**
+ * Renders tracks through the mixer into stereo audio. `renderMix` does this with
+ * the Web Audio API; `renderMixToPcm` does it in plain code for Node.
+ */
+export type MixRenderer<B extends PcmAudio> = (
+  tracks: MixTrack[],
+  settings: MixSettings,
+  totalDuration: number,
+  sampleRate?: number
+) => Promise<B>;
+
+/**
+ * Renders every track through its bus and a master limiter into a stereo buffer.
+ * Clips are resampled by the audio context when `sampleRate` differs from
+ * `CLIP_SAMPLE_RATE`.
+ * @param tracks The clips to place, each routed to a bus.
+ * @param settings The mixer settings; buses without settings use the defaults.
  * @param totalDuration The total duration of the final audio track in seconds.
- * @param sampleRate The sample rate for the audio context.
- * @returns A promise that resolves to a WAV Blob.
+ * @param sampleRate The sample rate of the rendered mix.
+ * @returns A promise that resolves to the rendered stereo AudioBuffer.
  */
-export async function stitchAudioClips(
-  clips: { time: number; audioData: Uint8Array }[],
+export async function renderMix(
+  tracks: MixTrack[],
+  settings: MixSettings,
   totalDuration: number,
-  sampleRate: number = 24000
-): Promise<Blob> {
-  // FIX: Cast window to `any` to allow access to vendor-prefixed `webkitAudioContext` for broader browser compatibility.
-  const tempCtx = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ sampleRate });
-  const offlineCtx = new OfflineAudioContext(1, Math.ceil(totalDuration * sampleRate), sampleRate);
-
-  const decodedBuffers = await Promise.all(
-    clips.map(clip => decodeAudioData(clip.audioData, tempCtx, sampleRate, 1))
-  );
-  
-  decodedBuffers.forEach((buffer, index) => {
+  sampleRate: number = CLIP_SAMPLE_RATE
+): Promise<AudioBuffer> {
+  const offlineCtx = new OfflineAudioContext(2, Math.max(1, Math.ceil(totalDuration * sampleRate)), sampleRate);
+
+  const master = offlineCtx.createGain();
+  master.gain.value = dbToGain(settings.masterGainDb);
+  if (settings.limiterEnabled) {
+    // A fast, hard-kneed compressor just under full scale keeps overlapping speakers from clipping.
+    const limiter = offlineCtx.createDynamicsCompressor();
+    limiter.threshold.value = -1;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.1;
+    master.connect(limiter);
+    limiter.connect(offlineCtx.destination);
+  } else {
+    master.connect(offlineCtx.destination);
+  }
+
+  const busInputs = new Map<string, AudioNode>();
+  const getBusInput = (bus: string) => {
+    let input = busInputs.get(bus);
+    if (!input) {
+      input = createBusChain(offlineCtx, settings.buses[bus] ?? DEFAULT_BUS_SETTINGS, master);
+      busInputs.set(bus, input);
+    }
+    return input;
+  };
+
+  for (const track of tracks) {
+    if (track.samples.length === 0) continue;
+    const buffer = offlineCtx.createBuffer(1, track.samples.length, CLIP_SAMPLE_RATE);
+    buffer.copyToChannel(track.samples, 0);
     const source = offlineCtx.createBufferSource();
     source.buffer = buffer;
-    source.connect(offlineCtx.destination);
-    source.start(clips[index].time);
-  });
-  
-  const renderedBuffer = await offlineCtx.startRendering();
-  
-  await tempCtx.close();
-  
-  return audioBufferToWavBlob(renderedBuffer);
+    source.connect(getBusInput(track.bus));
+    source.start(track.time);
+  }
+
+  return offlineCtx.startRendering();
+}
+
+/**
+ * Finds the stretches of a track where something is audible, e.g. to duck other
+ * audio underneath the dialogue.
+ * @param samples Mono samples to scan.
+ * @param sampleRate The sample rate of the samples.
+ * @param threshold RMS level above which a window counts as active.
+ * @param minGap Gaps shorter than this (in seconds) are merged into one region.
+ * @returns Active regions as start/end times in seconds.
+ */
+export function detectActiveRegions(
+  samples: Float32Array,
+  sampleRate: number,
+  threshold: number = 0.01,
+  minGap: number = 0.4
+): { start: number; end: number }[] {
+  const windowSize = Math.max(1, Math.floor(sampleRate * 0.02));
+  const regions: { start: number; end: number }[] = [];
+
+  for (let offset = 0; offset < samples.length; offset += windowSize) {
+    const end = Math.min(samples.length, offset + windowSize);
+    let sum = 0;
+    for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+    if (Math.sqrt(sum / (end - offset)) < threshold) continue;
+
+    const start = offset / sampleRate;
+    const stop = end / sampleRate;
+    const last = regions[regions.length - 1];
+    if (last && start - last.end <= minGap) {
+      last.end = stop;
+    } else {
+      regions.push({ start, end: stop });
+    }
+  }
+  return regions;
+}
+
+/**
+ * Lowers a track while something else is playing over it, e.g. music under
+ * dialogue. The level starts dropping just before each region so the first
+ * syllable is already clear, and recovers slowly after it.
+ * @param samples Mono samples to duck in place.
+ * @param sampleRate The sample rate of the samples.
+ * @param regions Stretches to duck under, as start/end times in seconds.
+ * @param amountDb How far to lower the track, in dB.
+ * @param attack Seconds taken to reach the ducked level.
+ * @param release Seconds taken to recover after a region ends.
+ * @returns The same samples, for chaining.
+ */
+export function applyDucking(
+  samples: Float32Array,
+  sampleRate: number,
+  regions: { start: number; end: number }[],
+  amountDb: number,
+  attack: number = 0.2,
+  release: number = 0.6
+): Float32Array {
+  if (amountDb <= 0 || regions.length === 0) return samples;
+  const floor = dbToGain(-amountDb);
+  const gain = new Float32Array(samples.length).fill(1);
+  const lower = (index: number, value: number) => {
+    if (index >= 0 && index < gain.length && value < gain[index]) gain[index] = value;
+  };
+
+  for (const region of regions) {
+    const rampIn = Math.floor((region.start - attack) * sampleRate);
+    const start = Math.floor(region.start * sampleRate);
+    const end = Math.ceil(region.end * sampleRate);
+    const rampOut = Math.ceil((region.end + release) * sampleRate);
+    for (let i = Math.max(0, rampIn); i < start; i++) lower(i, 1 - (1 - floor) * ((i - rampIn) / (start - rampIn)));
+    for (let i = Math.max(0, start); i < Math.min(end, gain.length); i++) lower(i, floor);
+    for (let i = Math.max(0, end); i < Math.min(rampOut, gain.length); i++) lower(i, floor + (1 - floor) * ((i - end) / (rampOut - end)));
+  }
+
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain[i];
+  return samples;
 }
@@ -0,0 +1,96 @@
+import type { DialogueLine, ScriptLine, SynthesizedClip } from '../types';
+
+/**
+ * Creates a unique id for a script line.
+ * @returns A random id string.
+ */
+export function createLineId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `line-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Assigns editor ids to freshly parsed dialogue lines.
+ * @param lines The parsed dialogue lines.
+ * @returns The same lines with stable ids attached.
+ */
+export function toScriptLines(lines: DialogueLine[]): ScriptLine[] {
+  return lines.map(line => ({ ...line, id: createLineId() }));
+}
+
+/**
+ * Strips editor-only fields, leaving the fields that shape the synthesized voice.
+ * @param line The script line to snapshot.
+ * @returns A plain dialogue line.
+ */
+export function toDialogueLine(line: ScriptLine): DialogueLine {
+  const { time, endTime, speaker, age, gender, performanceCue, text } = line;
+  return endTime === undefined
+    ? { time, speaker, age, gender, performanceCue, text }
+    : { time, endTime, speaker, age, gender, performanceCue, text };
+}
+
+/**
+ * Checks whether a line's audio has to be synthesized again. Only timing changes
+ * can be handled by re-stitching; anything that alters the performance cannot.
+ * @param line The current script line.
+ * @param clip The clip previously synthesized for the line, if any.
+ * @param voiceName The voice currently cast for the line's speaker.
+ * @returns True if the line needs new audio.
+ */
+export function isClipStale(line: ScriptLine, clip: SynthesizedClip | undefined, voiceName: string): boolean {
+  if (!clip) return true;
+  const { source } = clip;
+  return (
+    clip.voiceName !== voiceName ||
+    source.text !== line.text ||
+    source.performanceCue !== line.performanceCue ||
+    source.speaker !== line.speaker ||
+    source.age !== line.age ||
+    source.gender !== line.gender
+  );
+}
+
+/**
+ * Returns a copy of the lines ordered by start time.
+ * @param lines The lines to sort.
+ * @returns A new, sorted array.
+ */
+export function sortLinesByTime<T extends DialogueLine>(lines: T[]): T[] {
+  return [...lines].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Works out how long each line may last before it collides with something: the
+ * model-provided end time if there is one, otherwise the start of the same
+ * speaker's next line, otherwise the end of the video.
+ * @param lines The script lines.
+ * @param totalDuration The duration of the video in seconds.
+ * @returns The window length in seconds, keyed by line id.
+ */
+export function computeLineWindows(lines: ScriptLine[], totalDuration: number): Record<string, number> {
+  const windows: Record<string, number> = {};
+  const sorted = sortLinesByTime(lines);
+  sorted.forEach((line, index) => {
+    const nextSameSpeaker = sorted.slice(index + 1).find(other => other.speaker === line.speaker && other.time > line.time);
+    const end = line.endTime !== undefined && line.endTime > line.time
+      ? line.endTime
+      : nextSameSpeaker?.time ?? totalDuration;
+    windows[line.id] = Math.max(0, Math.min(end, totalDuration) - line.time);
+  });
+  return windows;
+}
+
+/**
+ * Formats a time in seconds as `m:ss.mmm` for display.
+ * @param seconds The time in seconds.
+ * @returns The formatted timestamp.
+ */
+export function formatTimestamp(seconds: number): string {
+  const safe = Math.max(0, seconds);
+  const minutes = Math.floor(safe / 60);
+  const rest = safe - minutes * 60;
+  return `${minutes}:${rest.toFixed(3).padStart(6, '0')}`;
+}
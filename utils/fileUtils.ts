@@ -1,22 +1,29 @@
 /**
- * Converts a File object to a base64 encoded string, stripping the data URL prefix.
- * @param file The File object to convert.
- * @returns A promise that resolves with the base64 string.
+ * Triggers a browser download for a Blob or object URL.
+ * @param source The Blob to save, or an existing object URL.
+ * @param filename The suggested file name.
  */
-export function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Strip the "data:video/mp4;base64," part
-      const base64 = result.split(',')[1];
-      if (base64) {
-        resolve(base64);
-      } else {
-        reject(new Error("Failed to extract base64 from file data URL."));
-      }
-    };
-    reader.onerror = (error) => reject(error);
-  });
+export function downloadFile(source: Blob | string, filename: string): void {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  if (typeof source !== 'string') {
+    // Give the browser a moment to start the download before releasing the Blob.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
+
+/**
+ * Returns a file name without its extension.
+ * @param filename The file name, e.g. "scene.mp4".
+ * @returns The base name, e.g. "scene".
+ */
+export function getBaseName(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.slice(0, dot) : filename;
 }
@@ -0,0 +1,253 @@
+import type { PcmAudio } from './audioUtils';
+
+export type FlacBitDepth = 16 | 24;
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+// Rice parameters are written in 4 bits and 15 is reserved as an escape code.
+const MAX_RICE_PARAMETER = 14;
+
+/**
+ * Appends bits MSB-first to a growable byte buffer.
+ */
+function createBitWriter(initialBytes: number) {
+  let bytes = new Uint8Array(initialBytes);
+  let bytePos = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const ensure = (extra: number) => {
+    if (bytePos + extra <= bytes.length) return;
+    const grown = new Uint8Array(Math.max(bytes.length * 2, bytePos + extra));
+    grown.set(bytes);
+    bytes = grown;
+  };
+
+  const writeBits = (value: number, count: number) => {
+    // Split long writes so the accumulator never exceeds 32 bits.
+    if (count > 24) {
+      writeBits(Math.floor(value / 0x10000) & ((1 << (count - 16)) - 1), count - 16);
+      writeBits(value & 0xffff, 16);
+      return;
+    }
+    ensure(4);
+    bitBuffer = (bitBuffer << count) | (value & ((1 << count) - 1));
+    bitCount += count;
+    while (bitCount >= 8) {
+      bitCount -= 8;
+      bytes[bytePos++] = (bitBuffer >>> bitCount) & 0xff;
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  };
+
+  return {
+    writeBits,
+    writeUnary(zeros: number) {
+      while (zeros >= 24) {
+        writeBits(0, 24);
+        zeros -= 24;
+      }
+      writeBits(1, zeros + 1);
+    },
+    alignToByte() {
+      if (bitCount > 0) writeBits(0, 8 - bitCount);
+    },
+    get bytePosition() {
+      return bytePos;
+    },
+    bytes(start: number, end: number) {
+      return bytes.subarray(start, end);
+    },
+    finish() {
+      return bytes.slice(0, bytePos);
+    },
+  };
+}
+
+let crc8Table: Uint8Array | null = null;
+let crc16Table: Uint16Array | null = null;
+
+function crc8(data: Uint8Array): number {
+  if (!crc8Table) {
+    crc8Table = new Uint8Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 0x80 ? ((c << 1) ^ 0x07) & 0xff : (c << 1) & 0xff;
+      crc8Table[n] = c;
+    }
+  }
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = crc8Table[crc ^ data[i]];
+  return crc;
+}
+
+function crc16(data: Uint8Array): number {
+  if (!crc16Table) {
+    crc16Table = new Uint16Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n << 8;
+      for (let k = 0; k < 8; k++) c = c & 0x8000 ? ((c << 1) ^ 0x8005) & 0xffff : (c << 1) & 0xffff;
+      crc16Table[n] = c;
+    }
+  }
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) & 0xffff) ^ crc16Table[(crc >> 8) ^ data[i]];
+  return crc;
+}
+
+/**
+ * Computes the residual of a FLAC fixed polynomial predictor of the given order.
+ */
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[i - 1]; break;
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    residual[i - order] = s[i] - prediction;
+  }
+  return residual;
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+/**
+ * Picks the Rice parameter that codes a residual in the fewest bits.
+ * @returns The parameter and the resulting size in bits.
+ */
+function chooseRiceParameter(residual: Int32Array): { parameter: number; bits: number } {
+  let sum = 0;
+  for (let i = 0; i < residual.length; i++) sum += zigzag(residual[i]);
+  const mean = residual.length > 0 ? sum / residual.length : 0;
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+
+  let best = { parameter: 0, bits: Infinity };
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(MAX_RICE_PARAMETER, estimate + 1); k++) {
+    let bits = residual.length * (k + 1);
+    for (let i = 0; i < residual.length; i++) bits += Math.floor(zigzag(residual[i]) / (1 << k));
+    if (bits < best.bits) best = { parameter: k, bits };
+  }
+  return best;
+}
+
+function writeSubframe(writer: ReturnType<typeof createBitWriter>, samples: Int32Array, bitDepth: number) {
+  let bestOrder = -1;
+  let bestRice = { parameter: 0, bits: samples.length * bitDepth };
+  let bestResidual: Int32Array | null = null;
+
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    const rice = chooseRiceParameter(residual);
+    const bits = order * bitDepth + 6 + rice.bits;
+    if (bits < bestRice.bits) {
+      bestOrder = order;
+      bestRice = { parameter: rice.parameter, bits };
+      bestResidual = residual;
+    }
+  }
+
+  if (!bestResidual) {
+    // Verbatim: noise that no predictor helps with.
+    writer.writeBits(0b00000010, 8);
+    for (let i = 0; i < samples.length; i++) writer.writeBits(samples[i], bitDepth);
+    return;
+  }
+
+  writer.writeBits(0b00010000 | (bestOrder << 1), 8); // fixed predictor, no wasted bits
+  for (let i = 0; i < bestOrder; i++) writer.writeBits(samples[i], bitDepth);
+  writer.writeBits(0b00, 2); // Rice coding with 4-bit parameters
+  writer.writeBits(0, 4); // a single partition
+  writer.writeBits(bestRice.parameter, 4);
+  const k = bestRice.parameter;
+  for (let i = 0; i < bestResidual.length; i++) {
+    const value = zigzag(bestResidual[i]);
+    writer.writeUnary(Math.floor(value / (1 << k)));
+    if (k > 0) writer.writeBits(value & ((1 << k) - 1), k);
+  }
+}
+
+/** Writes a frame number in FLAC's UTF-8-like variable-length coding. */
+function writeFrameNumber(writer: ReturnType<typeof createBitWriter>, value: number) {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x40 >> bytes.length) {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining = Math.floor(remaining / 64);
+  }
+  const lead = (0xff00 >> (bytes.length + 1)) & 0xff;
+  writer.writeBits(lead | remaining, 8);
+  for (const byte of bytes) writer.writeBits(byte, 8);
+}
+
+/**
+ * Encodes an AudioBuffer (or other PCM audio) as a FLAC file. Uses fixed polynomial predictors with
+ * Rice-coded residuals, which is lossless and typically halves the size of a
+ * dialogue track compared to WAV.
+ * @param buffer The audio to encode (up to 8 channels).
+ * @param bitDepth 16- or 24-bit output.
+ * @returns A Blob containing the FLAC file.
+ */
+export function encodeFlac(buffer: PcmAudio, bitDepth: FlacBitDepth = 16): Blob {
+  const channels = buffer.numberOfChannels;
+  const scale = Math.pow(2, bitDepth - 1);
+  const pcm: Int32Array[] = [];
+  for (let channel = 0; channel < channels; channel++) {
+    const data = buffer.getChannelData(channel);
+    const ints = new Int32Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      ints[i] = Math.max(-scale, Math.min(scale - 1, Math.round(data[i] * scale)));
+    }
+    pcm.push(ints);
+  }
+
+  const writer = createBitWriter(Math.ceil(buffer.length * channels * (bitDepth / 8) * 0.7) + 1024);
+
+  // "fLaC" marker and the STREAMINFO block (the only metadata block, so flagged as last).
+  writer.writeBits(0x664c6143, 32);
+  writer.writeBits(0x80, 8);
+  writer.writeBits(34, 24);
+  writer.writeBits(BLOCK_SIZE, 16); // minimum block size
+  writer.writeBits(BLOCK_SIZE, 16); // maximum block size
+  writer.writeBits(0, 24); // minimum frame size (unknown)
+  writer.writeBits(0, 24); // maximum frame size (unknown)
+  writer.writeBits(buffer.sampleRate, 20);
+  writer.writeBits(channels - 1, 3);
+  writer.writeBits(bitDepth - 1, 5);
+  writer.writeBits(Math.floor(buffer.length / 0x100000000), 4);
+  writer.writeBits(buffer.length >>> 0, 32);
+  for (let i = 0; i < 4; i++) writer.writeBits(0, 32); // MD5 signature (not computed)
+
+  for (let frame = 0, start = 0; start < buffer.length; frame++, start += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, buffer.length - start);
+    const frameStart = writer.bytePosition;
+
+    writer.writeBits(0b11111111111110, 14); // sync code
+    writer.writeBits(0, 1); // reserved
+    writer.writeBits(0, 1); // fixed block size
+    writer.writeBits(0b0111, 4); // block size stored as 16 bits at the end of the header
+    writer.writeBits(0b0000, 4); // sample rate from STREAMINFO
+    writer.writeBits(channels - 1, 4); // independent channels
+    writer.writeBits(0b000, 3); // sample size from STREAMINFO
+    writer.writeBits(0, 1); // reserved
+    writeFrameNumber(writer, frame);
+    writer.writeBits(blockSize - 1, 16);
+    writer.writeBits(crc8(writer.bytes(frameStart, writer.bytePosition)), 8);
+
+    for (let channel = 0; channel < channels; channel++) {
+      writeSubframe(writer, pcm[channel].subarray(start, start + blockSize), bitDepth);
+    }
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.bytes(frameStart, writer.bytePosition)), 16);
+  }
+
+  return new Blob([writer.finish()], { type: 'audio/flac' });
+}
@@ -0,0 +1,61 @@
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param request The pending request.
+ * @returns A promise that settles with the request's result.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and if needed creates or upgrades) an IndexedDB database.
+ * @param name The database name.
+ * @param version The schema version.
+ * @param upgrade Creates or migrates object stores when the version changes.
+ * @returns A promise that resolves to the open database.
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment.'));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Database "${name}" is open in another tab with an older version.`));
+  });
+}
+
+/**
+ * Runs work inside a transaction and resolves once the transaction commits.
+ * @param db The open database.
+ * @param storeNames The stores the transaction touches.
+ * @param mode Read-only or read-write.
+ * @param work Issues requests against the transaction's stores.
+ * @returns A promise that resolves to whatever `work` produced.
+ */
+export async function withTransaction<T>(
+  db: IDBDatabase,
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+  });
+  const result = await work(transaction);
+  await done;
+  return result;
+}
@@ -0,0 +1,143 @@
+// ITU-R BS.1770-4 K-weighting: a high-shelf "head" filter followed by a high-pass.
+const SHELF_GAIN_DB = 3.999843853973347;
+const SHELF_Q = 0.7071752369554196;
+const SHELF_FREQUENCY = 1681.974450955533;
+const HIGH_PASS_Q = 0.5003270373238773;
+const HIGH_PASS_FREQUENCY = 38.13547087602444;
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// Normalization never pushes peaks above this, even if that leaves the mix short of the target.
+const PEAK_CEILING = Math.pow(10, -1 / 20);
+
+export interface LoudnessNormalization {
+  buffer: AudioBuffer;
+  /** Integrated loudness before normalization, or -Infinity for silence. */
+  measuredLufs: number;
+  /** Gain that was applied, in dB. */
+  gainDb: number;
+}
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// Filter designs follow libebur128, which reproduces the 48 kHz reference
+// coefficients from the standard at any sample rate.
+function createHighShelf(sampleRate: number): Biquad {
+  const K = Math.tan((Math.PI * SHELF_FREQUENCY) / sampleRate);
+  const Vh = Math.pow(10, SHELF_GAIN_DB / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  const a0 = 1 + K / SHELF_Q + K * K;
+  return {
+    b0: (Vh + (Vb * K) / SHELF_Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / SHELF_Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / SHELF_Q + K * K) / a0,
+  };
+}
+
+function createHighPass(sampleRate: number): Biquad {
+  const K = Math.tan((Math.PI * HIGH_PASS_FREQUENCY) / sampleRate);
+  const a0 = 1 + K / HIGH_PASS_Q + K * K;
+  return {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / HIGH_PASS_Q + K * K) / a0,
+  };
+}
+
+function applyBiquad(input: Float32Array, filter: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = filter.b0 * x + filter.b1 * x1 + filter.b2 * x2 - filter.a1 * y1 - filter.a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+/**
+ * Measures the integrated loudness of a buffer as defined by ITU-R BS.1770-4
+ * (the basis of EBU R128): K-weighted, in 400 ms blocks, with the absolute and
+ * relative gates applied.
+ * @param buffer The audio to measure. Channels are treated as left/right/mono.
+ * @returns The loudness in LUFS, or -Infinity if the audio is silent or too short.
+ */
+export function measureIntegratedLoudness(buffer: AudioBuffer): number {
+  const shelf = createHighShelf(buffer.sampleRate);
+  const highPass = createHighPass(buffer.sampleRate);
+  const weighted: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    weighted.push(applyBiquad(applyBiquad(buffer.getChannelData(channel), shelf), highPass));
+  }
+
+  const blockLength = Math.round(BLOCK_SECONDS * buffer.sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * buffer.sampleRate);
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockLength <= buffer.length; start += step) {
+    let power = 0;
+    for (const samples of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) sum += samples[i] * samples[i];
+      power += sum / blockLength;
+    }
+    blockPowers.push(power);
+  }
+
+  const aboveAbsolute = blockPowers.filter(power => toLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(power => toLufs(power) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+/**
+ * Scales a buffer so its integrated loudness matches a target such as -16 LUFS
+ * (podcasts/streaming) or -23 LUFS (EBU broadcast). The gain is capped so that
+ * sample peaks stay below -1 dBFS.
+ * @param buffer The audio to normalize.
+ * @param targetLufs The desired integrated loudness.
+ * @returns A new, scaled buffer and what was done to it.
+ */
+export function normalizeLoudness(buffer: AudioBuffer, targetLufs: number): LoudnessNormalization {
+  const measuredLufs = measureIntegratedLoudness(buffer);
+  if (!isFinite(measuredLufs)) {
+    return { buffer, measuredLufs, gainDb: 0 };
+  }
+
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  }
+
+  const gain = Math.min(Math.pow(10, (targetLufs - measuredLufs) / 20), peak > 0 ? PEAK_CEILING / peak : Infinity);
+  const output = new AudioBuffer({ length: buffer.length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const input = buffer.getChannelData(channel);
+    const scaled = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) scaled[i] = input[i] * gain;
+    output.copyToChannel(scaled, channel);
+  }
+  return { buffer: output, measuredLufs, gainDb: 20 * Math.log10(gain) };
+}
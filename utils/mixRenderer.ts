@@ -0,0 +1,194 @@
+import type { BusSettings, MixSettings } from '../types';
+import { CLIP_SAMPLE_RATE, DEFAULT_BUS_SETTINGS, dbToGain, type MixTrack, type PcmAudio } from './audioUtils';
+
+/**
+ * Audio held in plain Float32Arrays, one per channel.
+ */
+export interface PcmBuffer extends PcmAudio {
+  readonly channels: Float32Array[];
+}
+
+interface CompressorSettings {
+  thresholdDb: number;
+  kneeDb: number;
+  ratio: number;
+  attack: number;
+  release: number;
+}
+
+// The same settings `renderMix` gives its Web Audio nodes.
+const BUS_COMPRESSOR = { kneeDb: 30, attack: 0.005, release: 0.15 };
+const LIMITER: CompressorSettings = { thresholdDb: -1, kneeDb: 0, ratio: 20, attack: 0.003, release: 0.1 };
+const PEAKING_Q = 1;
+
+/**
+ * Creates silent PCM audio.
+ * @param numberOfChannels How many channels.
+ * @param length Length in sample frames.
+ * @param sampleRate The sample rate.
+ */
+export function createPcmBuffer(numberOfChannels: number, length: number, sampleRate: number): PcmBuffer {
+  const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  return {
+    channels,
+    numberOfChannels,
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    getChannelData: (channel) => channels[channel],
+  };
+}
+
+/**
+ * Runs samples through a biquad filter in place, using the Audio EQ Cookbook
+ * coefficients that Web Audio's BiquadFilterNode uses.
+ */
+function applyBiquad(samples: Float32Array, sampleRate: number, type: 'lowshelf' | 'peaking' | 'highshelf', frequency: number, gainDb: number): void {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = 2 * Math.PI * Math.min(frequency, sampleRate / 2) / sampleRate;
+  const cos = Math.cos(w0);
+  const sin = Math.sin(w0);
+  let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+  if (type === 'peaking') {
+    const alpha = sin / (2 * PEAKING_Q);
+    b0 = 1 + alpha * A;
+    b1 = -2 * cos;
+    b2 = 1 - alpha * A;
+    a0 = 1 + alpha / A;
+    a1 = -2 * cos;
+    a2 = 1 - alpha / A;
+  } else {
+    // Shelf slope of 1, as Web Audio uses.
+    const twoRootAAlpha = 2 * Math.sqrt(A) * (sin / 2) * Math.SQRT2;
+    const sign = type === 'lowshelf' ? 1 : -1;
+    b0 = A * ((A + 1) - sign * (A - 1) * cos + twoRootAAlpha);
+    b1 = sign * 2 * A * ((A - 1) - sign * (A + 1) * cos);
+    b2 = A * ((A + 1) - sign * (A - 1) * cos - twoRootAAlpha);
+    a0 = (A + 1) + sign * (A - 1) * cos + twoRootAAlpha;
+    a1 = -sign * 2 * ((A - 1) + sign * (A + 1) * cos);
+    a2 = (A + 1) + sign * (A - 1) * cos - twoRootAAlpha;
+  }
+
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x0 = samples[i];
+    const y0 = (b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+    x2 = x1;
+    x1 = x0;
+    y2 = y1;
+    y1 = y0;
+    samples[i] = y0;
+  }
+}
+
+/**
+ * Works out how far a level above the threshold is turned down, with a soft knee.
+ * @returns The gain change in dB (zero or negative).
+ */
+function getGainReductionDb(levelDb: number, settings: CompressorSettings): number {
+  const over = levelDb - settings.thresholdDb;
+  const slope = 1 / settings.ratio - 1;
+  if (2 * over < -settings.kneeDb) return 0;
+  if (settings.kneeDb > 0 && 2 * Math.abs(over) <= settings.kneeDb) {
+    return slope * Math.pow(over + settings.kneeDb / 2, 2) / (2 * settings.kneeDb);
+  }
+  return slope * over;
+}
+
+/**
+ * Compresses one or more channels in place with a shared, smoothed gain, so a
+ * stereo pair keeps its image. A simple feed-forward design; levels can differ
+ * slightly from a browser's DynamicsCompressorNode, which adds its own makeup gain.
+ */
+function applyCompressor(channels: Float32Array[], sampleRate: number, settings: CompressorSettings): void {
+  const attack = Math.exp(-1 / (settings.attack * sampleRate));
+  const release = Math.exp(-1 / (settings.release * sampleRate));
+  let reductionDb = 0;
+  for (let i = 0; i < channels[0].length; i++) {
+    let peak = 0;
+    for (const channel of channels) peak = Math.max(peak, Math.abs(channel[i]));
+    const target = peak > 0 ? getGainReductionDb(20 * Math.log10(peak), settings) : 0;
+    const coefficient = target < reductionDb ? attack : release;
+    reductionDb = target + coefficient * (reductionDb - target);
+    const gain = dbToGain(reductionDb);
+    for (const channel of channels) channel[i] *= gain;
+  }
+}
+
+/**
+ * Adds a clip into a bus at a point in time, resampling it with linear
+ * interpolation when the mix runs at another rate than the clips.
+ */
+function addClip(bus: Float32Array, track: MixTrack, sampleRate: number): void {
+  const step = CLIP_SAMPLE_RATE / sampleRate;
+  const start = Math.round(track.time * sampleRate);
+  const length = Math.floor((track.samples.length - 1) / step) + 1;
+  for (let i = Math.max(0, -start); i < length && start + i < bus.length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const next = index + 1 < track.samples.length ? track.samples[index + 1] : 0;
+    bus[start + i] += track.samples[index] * (1 - fraction) + next * fraction;
+  }
+}
+
+/**
+ * Applies one bus's EQ, compressor and fader, then pans it into the stereo mix.
+ */
+function mixBus(output: PcmBuffer, bus: Float32Array, settings: BusSettings): void {
+  if (settings.muted) return;
+  if (settings.eq.enabled) {
+    applyBiquad(bus, output.sampleRate, 'lowshelf', 200, settings.eq.lowDb);
+    applyBiquad(bus, output.sampleRate, 'peaking', 1500, settings.eq.midDb);
+    applyBiquad(bus, output.sampleRate, 'highshelf', 5000, settings.eq.highDb);
+  }
+  if (settings.compressor.enabled) {
+    applyCompressor([bus], output.sampleRate, { ...BUS_COMPRESSOR, thresholdDb: settings.compressor.thresholdDb, ratio: settings.compressor.ratio });
+  }
+  // Equal-power panning of a mono source, as Web Audio's StereoPannerNode does it.
+  const angle = (settings.pan + 1) / 2 * (Math.PI / 2);
+  const fader = dbToGain(settings.gainDb);
+  const [left, right] = output.channels;
+  const leftGain = fader * Math.cos(angle);
+  const rightGain = fader * Math.sin(angle);
+  for (let i = 0; i < bus.length; i++) {
+    left[i] += bus[i] * leftGain;
+    right[i] += bus[i] * rightGain;
+  }
+}
+
+/**
+ * Renders every track through its bus and a master limiter into stereo audio,
+ * like `renderMix` but without the Web Audio API, so it runs in Node. Buses are
+ * processed one at a time to keep memory use to a few copies of the track length.
+ * @param tracks The clips to place, each routed to a bus.
+ * @param settings The mixer settings; buses without settings use the defaults.
+ * @param totalDuration The total duration of the final audio track in seconds.
+ * @param sampleRate The sample rate of the rendered mix.
+ * @returns The rendered stereo audio.
+ */
+export async function renderMixToPcm(
+  tracks: MixTrack[],
+  settings: MixSettings,
+  totalDuration: number,
+  sampleRate: number = CLIP_SAMPLE_RATE
+): Promise<PcmBuffer> {
+  const output = createPcmBuffer(2, Math.max(1, Math.ceil(totalDuration * sampleRate)), sampleRate);
+
+  const busNames = Array.from(new Set(tracks.map(track => track.bus)));
+  for (const name of busNames) {
+    const bus = new Float32Array(output.length);
+    for (const track of tracks) {
+      if (track.bus === name && track.samples.length > 0) addClip(bus, track, sampleRate);
+    }
+    mixBus(output, bus, settings.buses[name] ?? DEFAULT_BUS_SETTINGS);
+  }
+
+  const master = dbToGain(settings.masterGainDb);
+  for (const channel of output.channels) {
+    for (let i = 0; i < channel.length; i++) channel[i] *= master;
+  }
+  if (settings.limiterEnabled) applyCompressor(output.channels, sampleRate, LIMITER);
+  return output;
+}
@@ -0,0 +1,252 @@
+export interface PlaybackController {
+  /** Sets the audio to play in sync with the video, or null for the video alone. */
+  setBuffer(buffer: AudioBuffer | null): void;
+  /** Starts playback, from the beginning if the video had ended. */
+  play(): Promise<void>;
+  pause(): void;
+  /** Moves both the video and the audio to a time in seconds. */
+  seek(time: number): void;
+  setPlaybackRate(rate: number): void;
+  getCurrentTime(): number;
+  /** Subscribes to play/pause changes. Returns a function that unsubscribes. */
+  onPlayingChange(listener: (playing: boolean) => void): () => void;
+  /** Stops playback and detaches from the video element. */
+  destroy(): void;
+}
+
+// Beyond this the audio is restarted at the video's position.
+const HARD_RESYNC_SECONDS = 0.04;
+// Below this the audio is considered in sync and runs at the video's rate.
+const SOFT_SYNC_SECONDS = 0.003;
+// Small drift is pulled in by speeding up or slowing down the audio by at most
+// this fraction, which is far too little to hear as a pitch change.
+const MAX_RATE_CORRECTION = 0.005;
+// How much of the drift to correct per second of playback.
+const CORRECTION_GAIN = 0.5;
+
+interface AudioAnchor {
+  /** AudioContext time at which `position` was playing. */
+  contextTime: number;
+  /** Position in the buffer, in seconds. */
+  position: number;
+  /** Buffer seconds advanced per context second. */
+  rate: number;
+}
+
+type VideoWithFrameCallback = HTMLVideoElement & {
+  requestVideoFrameCallback?: (callback: (now: number, metadata: { mediaTime: number; expectedDisplayTime: number }) => void) => number;
+  cancelVideoFrameCallback?: (handle: number) => void;
+};
+
+/**
+ * Creates a controller that plays an AudioBuffer through Web Audio in lockstep
+ * with a video element. The video is the master clock: every presented frame
+ * is compared against what the listener is hearing at that moment, small
+ * drift is corrected by nudging the audio's rate and large drift (after a
+ * stall or a seek) by restarting the audio at the video's position. The
+ * video's own `play`/`pause`/`seeking`/`waiting`/`ratechange` events drive the
+ * audio, so native controls and programmatic seeks stay in sync too.
+ * @param video The video element that provides the clock.
+ * @returns The controller.
+ */
+export function createPlaybackController(video: HTMLVideoElement): PlaybackController {
+  const frameVideo = video as VideoWithFrameCallback;
+  const listeners = new Set<(playing: boolean) => void>();
+  let buffer: AudioBuffer | null = null;
+  let context: AudioContext | null = null;
+  let output: GainNode | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let anchor: AudioAnchor | null = null;
+  let frameHandle: number | null = null;
+  let usesFrameCallback = false;
+
+  const getContext = (): AudioContext => {
+    if (!context) {
+      context = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' }) as AudioContext;
+      output = context.createGain();
+      output.connect(context.destination);
+    }
+    return context;
+  };
+
+  const notify = () => {
+    const playing = !video.paused && !video.ended;
+    listeners.forEach(listener => listener(playing));
+  };
+
+  /**
+   * Maps a `performance.now()` timestamp onto the AudioContext clock, as heard
+   * at the speakers. Falls back to the current time minus output latency.
+   */
+  const contextTimeAt = (ctx: AudioContext, performanceTime: number): number => {
+    const stamp = ctx.getOutputTimestamp?.();
+    if (stamp && stamp.contextTime !== undefined && stamp.performanceTime !== undefined && stamp.performanceTime > 0) {
+      return stamp.contextTime + (performanceTime - stamp.performanceTime) / 1000;
+    }
+    return ctx.currentTime - (ctx.outputLatency || ctx.baseLatency || 0);
+  };
+
+  const positionAt = (contextTime: number): number | null =>
+    anchor ? anchor.position + (contextTime - anchor.contextTime) * anchor.rate : null;
+
+  const stopAudio = () => {
+    if (source) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped.
+      }
+      source.disconnect();
+      source = null;
+    }
+    anchor = null;
+  };
+
+  const startAudio = () => {
+    stopAudio();
+    if (!buffer || video.paused || video.seeking) return;
+    const ctx = getContext();
+    const offset = video.currentTime;
+    if (offset >= buffer.duration) return;
+
+    source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = video.playbackRate;
+    source.connect(output!);
+    // Start a hair in the future so the anchor describes exactly when audio begins.
+    const startAt = ctx.currentTime + 0.01;
+    source.start(startAt, offset + 0.01 * video.playbackRate);
+    anchor = { contextTime: startAt, position: offset + 0.01 * video.playbackRate, rate: video.playbackRate };
+  };
+
+  /**
+   * Compares the audio against the video at one presented frame and corrects it.
+   * @param mediaTime The video position of the frame.
+   * @param displayTime When the frame is shown, on the `performance.now()` clock.
+   */
+  const correctDrift = (mediaTime: number, displayTime: number) => {
+    if (!context || !source || !anchor || video.paused || video.seeking) return;
+    const heard = positionAt(contextTimeAt(context, displayTime));
+    if (heard === null) return;
+
+    const drift = heard - mediaTime;
+    const baseRate = video.playbackRate;
+    if (Math.abs(drift) > HARD_RESYNC_SECONDS) {
+      startAudio();
+      return;
+    }
+
+    const correction = Math.abs(drift) < SOFT_SYNC_SECONDS
+      ? 0
+      : Math.max(-MAX_RATE_CORRECTION, Math.min(MAX_RATE_CORRECTION, -drift * CORRECTION_GAIN));
+    const rate = baseRate * (1 + correction);
+    if (Math.abs(rate - anchor.rate) > 1e-6) {
+      // Re-anchor so positions before and after the rate change both stay exact.
+      const now = context.currentTime;
+      anchor = { contextTime: now, position: positionAt(now)!, rate };
+      source.playbackRate.setValueAtTime(rate, now);
+    }
+  };
+
+  const scheduleFrame = () => {
+    if (frameHandle !== null) return;
+    if (frameVideo.requestVideoFrameCallback) {
+      usesFrameCallback = true;
+      frameHandle = frameVideo.requestVideoFrameCallback((_now, metadata) => {
+        frameHandle = null;
+        correctDrift(metadata.mediaTime, metadata.expectedDisplayTime);
+        if (!video.paused) scheduleFrame();
+      });
+    } else {
+      usesFrameCallback = false;
+      frameHandle = requestAnimationFrame(now => {
+        frameHandle = null;
+        correctDrift(video.currentTime, now);
+        if (!video.paused) scheduleFrame();
+      });
+    }
+  };
+
+  const cancelFrame = () => {
+    if (frameHandle === null) return;
+    if (usesFrameCallback) frameVideo.cancelVideoFrameCallback?.(frameHandle);
+    else cancelAnimationFrame(frameHandle);
+    frameHandle = null;
+  };
+
+  const handlePlaying = () => {
+    startAudio();
+    scheduleFrame();
+    notify();
+  };
+  const handleHalt = () => {
+    // Pauses, seeks and buffering stalls all stop the audio until the video is moving again.
+    stopAudio();
+    cancelFrame();
+    notify();
+  };
+  const handleSeeked = () => {
+    if (!video.paused) handlePlaying();
+  };
+  const handleRateChange = () => {
+    if (!video.paused) startAudio();
+  };
+
+  const events: [string, () => void][] = [
+    ['playing', handlePlaying],
+    ['pause', handleHalt],
+    ['waiting', handleHalt],
+    ['seeking', handleHalt],
+    ['ended', handleHalt],
+    ['emptied', handleHalt],
+    ['seeked', handleSeeked],
+    ['ratechange', handleRateChange],
+  ];
+  events.forEach(([name, handler]) => video.addEventListener(name, handler));
+
+  return {
+    setBuffer(next) {
+      buffer = next;
+      if (!video.paused) startAudio();
+      else stopAudio();
+    },
+
+    async play() {
+      // Created and resumed inside the user's click so autoplay policies allow it.
+      await getContext().resume();
+      if (video.ended) video.currentTime = 0;
+      await video.play();
+    },
+
+    pause() {
+      video.pause();
+    },
+
+    seek(time) {
+      video.currentTime = Math.max(0, Math.min(time, video.duration || time));
+    },
+
+    setPlaybackRate(rate) {
+      video.playbackRate = rate;
+    },
+
+    getCurrentTime() {
+      return video.currentTime;
+    },
+
+    onPlayingChange(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    destroy() {
+      events.forEach(([name, handler]) => video.removeEventListener(name, handler));
+      cancelFrame();
+      stopAudio();
+      listeners.clear();
+      context?.close();
+      context = null;
+    },
+  };
+}
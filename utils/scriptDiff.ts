@@ -0,0 +1,127 @@
+import type { ScriptLine } from '../types';
+import { sortLinesByTime } from './dialogueUtils';
+
+// Lip-read takes place the same line a little differently; closer than this, two lines can be the same line.
+const LINE_MATCH_SECONDS = 1.5;
+
+export interface WordChange {
+  kind: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+export interface ScriptDiffRow {
+  /** `same` and `changed` rows pair a line of each take; the others have one side only. */
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  /** The line in the first take, or null if only the second has it. */
+  a: ScriptLine | null;
+  /** The line in the second take, or null if only the first has it. */
+  b: ScriptLine | null;
+  /** How the text changed from `a` to `b`, word by word; empty unless the row is `changed`. */
+  words: WordChange[];
+}
+
+/**
+ * Fills the longest-common-subsequence table for two sequences, where `score`
+ * says how much pairing two items is worth (0 if they cannot be paired).
+ */
+function buildLcsTable<T>(a: T[], b: T[], score: (x: T, y: T) => number): number[][] {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      const pair = score(a[i], b[j]);
+      table[i][j] = Math.max(table[i + 1][j], table[i][j + 1], pair > 0 ? pair + table[i + 1][j + 1] : 0);
+    }
+  }
+  return table;
+}
+
+function splitWords(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Says how much of two texts is shared, from 0 (no words in common) to 1 (the same words).
+ */
+function getWordSimilarity(a: string, b: string): number {
+  const wordsA = splitWords(a.toLowerCase());
+  const wordsB = splitWords(b.toLowerCase());
+  if (wordsA.length + wordsB.length === 0) return 1;
+  const common = buildLcsTable(wordsA, wordsB, (x, y) => (x === y ? 1 : 0))[0][0];
+  return (2 * common) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Diffs two texts word by word.
+ * @param a The old text.
+ * @param b The new text.
+ * @returns The words of both texts in reading order, each marked as kept, removed or added.
+ */
+export function diffWords(a: string, b: string): WordChange[] {
+  const wordsA = splitWords(a);
+  const wordsB = splitWords(b);
+  const table = buildLcsTable(wordsA, wordsB, (x, y) => (x === y ? 1 : 0));
+
+  const changes: WordChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < wordsA.length || j < wordsB.length) {
+    if (i < wordsA.length && j < wordsB.length && wordsA[i] === wordsB[j] && table[i][j] === 1 + table[i + 1][j + 1]) {
+      changes.push({ kind: 'same', text: wordsA[i++] });
+      j++;
+    } else if (i < wordsA.length && (j === wordsB.length || table[i + 1][j] >= table[i][j + 1])) {
+      changes.push({ kind: 'removed', text: wordsA[i++] });
+    } else {
+      changes.push({ kind: 'added', text: wordsB[j++] });
+    }
+  }
+  return changes;
+}
+
+function isSameLine(a: ScriptLine, b: ScriptLine): boolean {
+  return a.speaker === b.speaker && a.performanceCue === b.performanceCue && a.text.trim() === b.text.trim();
+}
+
+/**
+ * Lines up two takes of a script. Lines are paired when they start close
+ * together, preferring identical lines, and keep their order; what is left
+ * over was only heard in one take.
+ * @param a The first take's lines.
+ * @param b The second take's lines.
+ * @returns One row per pair or unpaired line, in script order.
+ */
+export function diffScripts(a: ScriptLine[], b: ScriptLine[]): ScriptDiffRow[] {
+  const linesA = sortLinesByTime(a);
+  const linesB = sortLinesByTime(b);
+  // Any pairing beats none, but lines that share more words and start closer together pair first.
+  // Identical lines score highest, so a line missing from one take doesn't shift every pairing after it.
+  // Scores are whole numbers so the backtracking below can compare them exactly.
+  const score = (x: ScriptLine, y: ScriptLine) => {
+    const offset = Math.abs(x.time - y.time);
+    if (offset > LINE_MATCH_SECONDS) return 0;
+    if (isSameLine(x, y)) return 300;
+    return Math.round(100 + 100 * getWordSimilarity(x.text, y.text) + 50 * (1 - offset / LINE_MATCH_SECONDS));
+  };
+  const table = buildLcsTable(linesA, linesB, score);
+
+  const rows: ScriptDiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < linesA.length || j < linesB.length) {
+    const x = linesA[i];
+    const y = linesB[j];
+    const pair = x && y ? score(x, y) : 0;
+    if (pair > 0 && table[i][j] === pair + table[i + 1][j + 1]) {
+      const same = isSameLine(x, y);
+      rows.push({ kind: same ? 'same' : 'changed', a: x, b: y, words: same ? [] : diffWords(x.text, y.text) });
+      i++;
+      j++;
+    } else if (y && (!x || table[i][j + 1] > table[i + 1][j] || (table[i][j + 1] === table[i + 1][j] && y.time < x.time))) {
+      rows.push({ kind: 'added', a: null, b: y, words: [] });
+      j++;
+    } else {
+      rows.push({ kind: 'removed', a: x, b: null, words: [] });
+      i++;
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,221 @@
+import type { DialogueLine } from '../types';
+import {
+  DEFAULT_AGE,
+  DEFAULT_GENDER,
+  DEFAULT_PERFORMANCE_CUE,
+  parseScript,
+  type RejectedLine,
+} from './scriptParser';
+
+export type ImportFormat = 'srt' | 'vtt' | 'script';
+
+export interface ScriptImportResult {
+  format: ImportFormat;
+  lines: DialogueLine[];
+  rejected: RejectedLine[];
+  /**
+   * Whether speakers, traits or cues had to be filled with defaults, i.e.
+   * whether a trait inference pass would add anything.
+   */
+  hasMissingTraits: boolean;
+}
+
+export const DEFAULT_IMPORT_SPEAKER = 'Speaker 1';
+
+export const SCRIPT_IMPORT_ACCEPT = '.srt,.vtt,.txt,.json,text/vtt,application/x-subrip,text/plain,application/json';
+
+// `00:01:02,345`, `01:02.345` or `1:02:03.4`.
+const TIMECODE_REGEX = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/;
+const CUE_TIMING_REGEX = /^\s*(\S+)\s+-->\s+(\S+)/;
+// `JOHN: text` or `Speaker 2: text` at the start of a subtitle. Only all-caps
+// names count, so a sentence like `Listen: ...` stays dialogue.
+const SPEAKER_PREFIX_REGEX = /^(Speaker \d+|[\p{Lu}][\p{Lu}\d .'-]{0,30}):\s*(.+)$/u;
+
+/**
+ * Parses a subtitle timecode into seconds.
+ * @param value The timecode, e.g. `00:01:02,345` (SRT) or `01:02.345` (WebVTT).
+ * @returns The time in seconds, or null if the timecode is malformed.
+ */
+export function parseTimecode(value: string): number | null {
+  const match = value.trim().match(TIMECODE_REGEX);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+/**
+ * Removes formatting from subtitle text: HTML-style tags, ASS override blocks
+ * like `{\an8}`, and line breaks.
+ */
+function stripSubtitleMarkup(text: string): string {
+  return text
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Pulls a speaker name out of a cue's text, if the subtitle names one.
+ * @param rawText The cue text, with markup still in place.
+ * @returns The speaker (if any) and the remaining spoken text.
+ */
+function splitSpeaker(rawText: string): { speaker: string | null; text: string } {
+  // WebVTT voice spans: `<v Maria>Hello` or `<v.loud Maria>Hello`.
+  const voice = rawText.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/);
+  if (voice) {
+    return { speaker: voice[1].trim(), text: stripSubtitleMarkup(rawText) };
+  }
+  const text = stripSubtitleMarkup(rawText);
+  const prefixed = text.match(SPEAKER_PREFIX_REGEX);
+  if (prefixed) {
+    return { speaker: prefixed[1].trim(), text: prefixed[2].trim() };
+  }
+  return { speaker: null, text };
+}
+
+/**
+ * Gives speaker names a consistent form so `MARIA` and `Maria` are one person.
+ */
+function normalizeSpeakerName(name: string): string {
+  const numbered = name.match(/^(?:speaker\s*)?#?(\d+)$/i);
+  if (numbered) return `Speaker ${numbered[1]}`;
+  return name === name.toUpperCase()
+    ? name.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, boundary: string, letter: string) => boundary + letter.toUpperCase())
+    : name;
+}
+
+/**
+ * Parses SRT or WebVTT cue blocks into dialogue lines. Speakers come from WebVTT
+ * voice spans or `NAME:` prefixes; everything the subtitles can't say (traits
+ * and delivery) is filled with defaults.
+ */
+function parseSubtitleCues(text: string, format: 'srt' | 'vtt'): ScriptImportResult {
+  const lines: DialogueLine[] = [];
+  const rejected: RejectedLine[] = [];
+  let hasMissingTraits = false;
+
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  let lineNumber = 1;
+  for (const block of blocks) {
+    const blockStart = lineNumber;
+    lineNumber += block.split('\n').length + 1;
+    const rows = block.split('\n').filter(row => row.trim() !== '');
+    if (rows.length === 0) continue;
+    if (format === 'vtt' && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(rows[0])) continue;
+
+    const timingIndex = rows.findIndex(row => row.includes('-->'));
+    if (timingIndex === -1) {
+      rejected.push({ index: blockStart, raw: rows.join(' / '), reason: 'Cue has no "start --> end" timing line.' });
+      continue;
+    }
+
+    const timing = rows[timingIndex].match(CUE_TIMING_REGEX);
+    const start = timing ? parseTimecode(timing[1]) : null;
+    const end = timing ? parseTimecode(timing[2]) : null;
+    if (start === null || end === null) {
+      rejected.push({ index: blockStart + timingIndex, raw: rows[timingIndex], reason: 'Malformed cue timing.' });
+      continue;
+    }
+
+    const { speaker, text: spoken } = splitSpeaker(rows.slice(timingIndex + 1).join('\n'));
+    if (spoken === '') {
+      rejected.push({ index: blockStart + timingIndex, raw: rows.join(' / '), reason: 'Cue has no text.' });
+      continue;
+    }
+
+    hasMissingTraits = true;
+    lines.push({
+      time: Math.round(start * 1000) / 1000,
+      ...(end > start ? { endTime: Math.round(end * 1000) / 1000 } : {}),
+      speaker: speaker ? normalizeSpeakerName(speaker) : DEFAULT_IMPORT_SPEAKER,
+      age: DEFAULT_AGE,
+      gender: DEFAULT_GENDER,
+      performanceCue: DEFAULT_PERFORMANCE_CUE,
+      text: spoken,
+    });
+  }
+
+  return { format, lines: lines.sort((a, b) => a.time - b.time), rejected, hasMissingTraits };
+}
+
+/**
+ * Works out what kind of file is being imported from its name, falling back to
+ * sniffing the content.
+ * @param fileName The imported file's name.
+ * @param text The file's content.
+ * @returns The detected format.
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'srt') return 'srt';
+  if (extension === 'vtt') return 'vtt';
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/^\d+\s*\n\s*\S+\s+-->\s+/.test(head)) return 'srt';
+  return 'script';
+}
+
+/**
+ * Turns an existing script or subtitle file into dialogue lines, so a scene can
+ * be voiced without lip-reading the video. Supports SRT, WebVTT and the app's
+ * own script formats (JSON or `[t] DIALOGUE: ...` text).
+ * @param fileName The imported file's name, used to pick the format.
+ * @param text The file's content.
+ * @returns The lines, anything that could not be read, and whether traits are missing.
+ */
+export function importScript(fileName: string, text: string): ScriptImportResult {
+  const content = text.replace(/^\uFEFF/, '');
+  const format = detectImportFormat(fileName, content);
+  if (format !== 'script') {
+    return parseSubtitleCues(content, format);
+  }
+
+  const parsed = parseScript(content);
+  // "Adult" is a real answer as well as the default age, so only gender and cue reveal a gap.
+  const hasMissingTraits = parsed.lines.some(line =>
+    line.gender === DEFAULT_GENDER || line.performanceCue === DEFAULT_PERFORMANCE_CUE
+  );
+  return { format, lines: parsed.lines, rejected: parsed.rejected, hasMissingTraits };
+}
+
+/**
+ * Merges the output of a trait inference pass back into imported lines. Only
+ * speaker labels, traits and cues are taken from the model; times and text are
+ * never changed. Entries that are malformed or point at unknown lines are
+ * ignored, leaving that line's defaults in place.
+ * @param lines The imported lines, in the order they were sent to the model.
+ * @param response The model's JSON: `{ speakers: [{ speaker, age, gender }], lines: [{ index, speaker, performanceCue }] }`.
+ * @returns The lines with inferred traits applied.
+ * @throws SyntaxError if the response is not JSON.
+ */
+export function applyInferredTraits(lines: DialogueLine[], response: string): DialogueLine[] {
+  const parsed: unknown = JSON.parse(response.trim().replace(/^```(?:json)?\s*|\s*```$/gi, ''));
+  // Valid JSON of the wrong shape (null, a string) carries no traits, so every line keeps its defaults.
+  const data: { speakers?: unknown; lines?: unknown } = typeof parsed === 'object' && parsed !== null ? parsed : {};
+  const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+  const profiles = new Map<string, { age: string; gender: string }>();
+  for (const entry of Array.isArray(data.speakers) ? data.speakers : []) {
+    if (isText(entry?.speaker) && isText(entry?.age) && isText(entry?.gender)) {
+      profiles.set(normalizeSpeakerName(entry.speaker.trim()), { age: entry.age.trim(), gender: entry.gender.trim() });
+    }
+  }
+
+  const updated = lines.map(line => ({ ...line }));
+  for (const entry of Array.isArray(data.lines) ? data.lines : []) {
+    const index = entry?.index;
+    if (typeof index !== 'number' || !Number.isInteger(index) || !updated[index]) continue;
+    if (isText(entry.speaker)) updated[index].speaker = normalizeSpeakerName(entry.speaker.trim());
+    if (isText(entry.performanceCue)) updated[index].performanceCue = entry.performanceCue.trim();
+  }
+
+  return updated.map(line => {
+    const profile = profiles.get(line.speaker);
+    return profile ? { ...line, age: profile.age, gender: profile.gender } : line;
+  });
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_AGE,
+  DEFAULT_GENDER,
+  DEFAULT_PERFORMANCE_CUE,
+  parseDialogueJson,
+  parseDialogueText,
+  parseScript,
+  validateDialogueLine,
+} from './scriptParser';
+
+const line = {
+  time: 1.5,
+  speaker: 'Speaker 1',
+  age: 'Adult',
+  gender: 'Female',
+  performanceCue: 'calmly',
+  text: 'Hello there.',
+};
+
+describe('validateDialogueLine', () => {
+  it('accepts a complete line', () => {
+    expect(validateDialogueLine(line)).toEqual({ line });
+  });
+
+  it('fills in missing traits with defaults', () => {
+    expect(validateDialogueLine({ time: 2, speaker: 'Speaker 2', text: 'Hi.' })).toEqual({
+      line: { time: 2, speaker: 'Speaker 2', age: DEFAULT_AGE, gender: DEFAULT_GENDER, performanceCue: DEFAULT_PERFORMANCE_CUE, text: 'Hi.' },
+    });
+  });
+
+  it('normalizes numbered speakers and numeric strings', () => {
+    const result = validateDialogueLine({ ...line, time: '3.25', speaker: 'speaker 2' });
+    expect(result).toEqual({ line: { ...line, time: 3.25, speaker: 'Speaker 2' } });
+    expect(validateDialogueLine({ ...line, speaker: 3 })).toEqual({ line: { ...line, speaker: 'Speaker 3' } });
+  });
+
+  it('keeps an end time only when it follows the start', () => {
+    expect(validateDialogueLine({ ...line, endTime: 2.5 })).toEqual({ line: { ...line, endTime: 2.5 } });
+    expect(validateDialogueLine({ ...line, endTime: 1 })).toEqual({ line });
+  });
+
+  it.each([
+    ['a non-object', 'text', 'Entry is not an object.'],
+    ['an array', [line], 'Entry is not an object.'],
+    ['a missing time', { ...line, time: undefined }, 'Missing or non-numeric "time".'],
+    ['a non-numeric time', { ...line, time: 'soon' }, 'Missing or non-numeric "time".'],
+    ['a negative time', { ...line, time: -1 }, '"time" must not be negative (got -1).'],
+    ['a missing speaker', { ...line, speaker: ' ' }, 'Missing "speaker".'],
+    ['empty text', { ...line, text: '  ' }, 'Missing or empty "text".'],
+  ])('rejects %s', (_case, value, reason) => {
+    expect(validateDialogueLine(value)).toEqual({ reason });
+  });
+});
+
+describe('parseDialogueJson', () => {
+  it('parses a bare array, sorted by time', () => {
+    const result = parseDialogueJson(JSON.stringify([{ ...line, time: 4 }, line]));
+    expect(result.format).toBe('json');
+    expect(result.lines.map(parsed => parsed.time)).toEqual([1.5, 4]);
+    expect(result.rejected).toEqual([]);
+    expect(result.speakers).toEqual([]);
+  });
+
+  it('parses lines and speaker locations from an object', () => {
+    const box = { x: 0.1, y: 0.2, width: 0.3, height: 0.4 };
+    const result = parseDialogueJson(JSON.stringify({
+      lines: [line],
+      speakers: [
+        { speaker: 'Speaker 1', time: 1, box },
+        { speaker: 'Speaker 1', time: 5, box },
+        { speaker: 'Speaker 2', time: 1, box: { x: 1, y: 0, width: 0.5, height: 0.5 } },
+      ],
+    }));
+    expect(result.lines).toEqual([line]);
+    // Later sightings of a speaker and boxes outside the frame are dropped.
+    expect(result.speakers).toEqual([{ speaker: 'Speaker 1', time: 1, box }]);
+  });
+
+  it('unwraps a Markdown code fence', () => {
+    const result = parseDialogueJson('```json\n' + JSON.stringify([line]) + '\n```');
+    expect(result.lines).toEqual([line]);
+  });
+
+  it('reports rejected entries with their index and reason', () => {
+    const result = parseDialogueJson(JSON.stringify([line, { ...line, text: '' }, 42]));
+    expect(result.lines).toEqual([line]);
+    expect(result.rejected).toEqual([
+      { index: 1, raw: JSON.stringify({ ...line, text: '' }), reason: 'Missing or empty "text".' },
+      { index: 2, raw: '42', reason: 'Entry is not an object.' },
+    ]);
+  });
+
+  it('throws on JSON of the wrong shape', () => {
+    expect(() => parseDialogueJson('{"script": []}')).toThrow('Expected a JSON array of dialogue lines.');
+    expect(() => parseDialogueJson('not json')).toThrow(SyntaxError);
+  });
+});
+
+describe('parseDialogueText', () => {
+  it('parses valid lines, sorted by time', () => {
+    const result = parseDialogueText([
+      '[4.000] DIALOGUE: Speaker 2: (Child, Male) [curiously] Pop goes the pebble.',
+      '[1.500] DIALOGUE: Speaker 1: (Adult, Female) [calmly] Hello there.',
+    ].join('\n'));
+    expect(result.format).toBe('text');
+    expect(result.lines).toEqual([
+      line,
+      { time: 4, speaker: 'Speaker 2', age: 'Child', gender: 'Male', performanceCue: 'curiously', text: 'Pop goes the pebble.' },
+    ]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('ignores blank lines and commentary', () => {
+    const result = parseDialogueText('Here is the script:\n\n[1.5] DIALOGUE: Speaker 1: (Adult, Female) [calmly] Hello there.\nHope this helps!');
+    expect(result.lines).toEqual([line]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it.each([
+    ['[soon] DIALOGUE: Speaker 1: (Adult, Female) [calmly] Hi.', 'Missing or malformed [seconds] timestamp.'],
+    ['[1.5] DIALOGUE: Maria: (Adult, Female) [calmly] Hi.', 'Missing "DIALOGUE: Speaker N:" label.'],
+    ['[1.5] DIALOGUE: Speaker 1: Adult [calmly] Hi.', 'Missing "(Age, Gender)" description.'],
+    ['[1.5] DIALOGUE: Speaker 1: (Adult, Female) Hi.', 'Missing "[performance cue]" or dialogue text.'],
+    ['[1.5] DIALOGUE: Speaker 1: (Adult, Female) [calmly]  ', 'Missing "[performance cue]" or dialogue text.'],
+  ])('rejects %j', (raw, reason) => {
+    const result = parseDialogueText(`\n${raw}`);
+    expect(result.lines).toEqual([]);
+    expect(result.rejected).toEqual([{ index: 2, raw: raw.trim(), reason }]);
+  });
+});
+
+describe('parseScript', () => {
+  it('prefers JSON', () => {
+    expect(parseScript(JSON.stringify({ lines: [line] }))).toMatchObject({ format: 'json', lines: [line] });
+  });
+
+  it('falls back to the text format when JSON-looking input does not parse', () => {
+    const result = parseScript('[{"time": 1.5, broken\n[1.5] DIALOGUE: Speaker 1: (Adult, Female) [calmly] Hello there.');
+    expect(result.format).toBe('text');
+    expect(result.lines).toEqual([line]);
+    expect(result.rejected).toEqual([{ index: 1, raw: '[{"time": 1.5, broken', reason: 'Missing or malformed [seconds] timestamp.' }]);
+  });
+
+  it('reads the text format directly', () => {
+    expect(parseScript('[1.5] DIALOGUE: Speaker 1: (Adult, Female) [calmly] Hello there.')).toMatchObject({ format: 'text', lines: [line] });
+  });
+});
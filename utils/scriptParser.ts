@@ -0,0 +1,239 @@
+import type { BoundingBox, DialogueLine, SpeakerAppearance } from '../types';
+
+export type ScriptFormat = 'json' | 'text';
+
+/**
+ * A line of the model's output that could not be turned into a DialogueLine.
+ */
+export interface RejectedLine {
+  /** Position in the source: array index for JSON, line number (1-based) for text. */
+  index: number;
+  raw: string;
+  reason: string;
+}
+
+export interface ScriptParseResult {
+  format: ScriptFormat;
+  lines: DialogueLine[];
+  rejected: RejectedLine[];
+  /** Where each speaker was seen on screen; empty when the script did not say. */
+  speakers: SpeakerAppearance[];
+}
+
+export const DEFAULT_AGE = 'Adult';
+export const DEFAULT_GENDER = 'Unknown';
+export const DEFAULT_PERFORMANCE_CUE = 'neutral';
+
+const LEGACY_LINE_REGEX = /\[(\d+\.?\d*)\] DIALOGUE: (Speaker \d+): \(([^,]+), ([^)]+)\) \[([^\]]+)\] (.*)/;
+
+/**
+ * Normalizes a speaker label so `speaker 2`, `2` and `Speaker 2` all refer to the same person.
+ */
+function normalizeSpeaker(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isInteger(value)) return `Speaker ${value}`;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const numbered = value.trim().match(/^(?:speaker\s*)?#?(\d+)$/i);
+  return numbered ? `Speaker ${numbered[1]}` : value.trim();
+}
+
+function optionalText(value: unknown, fallback: string): string {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : fallback;
+}
+
+/**
+ * Checks a single JSON entry against the DialogueLine shape.
+ * @param value One element of the model's JSON array.
+ * @returns The validated line, or the reason it was rejected.
+ */
+export function validateDialogueLine(value: unknown): { line: DialogueLine } | { reason: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { reason: 'Entry is not an object.' };
+  }
+  const entry = value as Record<string, unknown>;
+
+  const time = typeof entry.time === 'string' ? parseFloat(entry.time) : entry.time;
+  if (typeof time !== 'number' || !Number.isFinite(time)) {
+    return { reason: 'Missing or non-numeric "time".' };
+  }
+  if (time < 0) {
+    return { reason: `"time" must not be negative (got ${time}).` };
+  }
+
+  const speaker = normalizeSpeaker(entry.speaker);
+  if (!speaker) {
+    return { reason: 'Missing "speaker".' };
+  }
+
+  if (typeof entry.text !== 'string' || entry.text.trim() === '') {
+    return { reason: 'Missing or empty "text".' };
+  }
+
+  const endTime = typeof entry.endTime === 'string' ? parseFloat(entry.endTime) : entry.endTime;
+  const hasEndTime = typeof endTime === 'number' && Number.isFinite(endTime) && endTime > time;
+
+  return {
+    line: {
+      time: Math.round(time * 1000) / 1000,
+      ...(hasEndTime ? { endTime: Math.round(endTime * 1000) / 1000 } : {}),
+      speaker,
+      age: optionalText(entry.age, DEFAULT_AGE),
+      gender: optionalText(entry.gender, DEFAULT_GENDER),
+      performanceCue: optionalText(entry.performanceCue, DEFAULT_PERFORMANCE_CUE),
+      text: entry.text.trim(),
+    },
+  };
+}
+
+function toFraction(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? Math.min(1, Math.max(0, number)) : null;
+}
+
+/**
+ * Checks a speaker's on-screen location. Coordinates are clamped into the frame,
+ * and a box that ends up with no area is rejected.
+ * @param value One element of the model's `speakers` array.
+ * @returns The validated appearance, or null if it is unusable.
+ */
+export function validateSpeakerAppearance(value: unknown): SpeakerAppearance | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const entry = value as Record<string, unknown>;
+  const speaker = normalizeSpeaker(entry.speaker);
+  const time = typeof entry.time === 'string' ? parseFloat(entry.time) : entry.time;
+  if (!speaker || typeof time !== 'number' || !Number.isFinite(time) || time < 0) return null;
+  if (typeof entry.box !== 'object' || entry.box === null) return null;
+
+  const raw = entry.box as Record<string, unknown>;
+  const x = toFraction(raw.x);
+  const y = toFraction(raw.y);
+  const width = toFraction(raw.width);
+  const height = toFraction(raw.height);
+  if (x === null || y === null || width === null || height === null) return null;
+  const box: BoundingBox = { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+  if (box.width <= 0 || box.height <= 0) return null;
+
+  return { speaker, time: Math.round(time * 1000) / 1000, box };
+}
+
+/**
+ * Strips a Markdown code fence if the model wrapped its JSON in one.
+ */
+function unwrapCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text.trim();
+}
+
+/**
+ * Parses the schema-constrained JSON script. Accepts either a bare array of lines
+ * or an object with a `lines` array and, optionally, a `speakers` array saying
+ * where each speaker appears on screen.
+ * @param text The raw model response.
+ * @returns The parse result.
+ * @throws SyntaxError if the text is not JSON, or Error if it has the wrong shape.
+ */
+export function parseDialogueJson(text: string): ScriptParseResult {
+  const data: unknown = JSON.parse(unwrapCodeFence(text));
+  const entries = Array.isArray(data)
+    ? data
+    : typeof data === 'object' && data !== null && Array.isArray((data as { lines?: unknown }).lines)
+    ? (data as { lines: unknown[] }).lines
+    : null;
+
+  if (!entries) {
+    throw new Error('Expected a JSON array of dialogue lines.');
+  }
+
+  const lines: DialogueLine[] = [];
+  const rejected: RejectedLine[] = [];
+  const speakers: SpeakerAppearance[] = [];
+  const rawSpeakers = Array.isArray(data) ? null : (data as { speakers?: unknown }).speakers;
+  if (Array.isArray(rawSpeakers)) {
+    for (const entry of rawSpeakers) {
+      const appearance = validateSpeakerAppearance(entry);
+      // A location is optional extra detail, so a bad one is dropped rather than reported.
+      if (appearance && !speakers.some(other => other.speaker === appearance.speaker)) speakers.push(appearance);
+    }
+  }
+  entries.forEach((entry, index) => {
+    const result = validateDialogueLine(entry);
+    if ('line' in result) {
+      lines.push(result.line);
+    } else {
+      rejected.push({ index, raw: JSON.stringify(entry), reason: result.reason });
+    }
+  });
+
+  return { format: 'json', lines: lines.sort((a, b) => a.time - b.time), rejected, speakers };
+}
+
+/**
+ * Parses the legacy plain-text script format:
+ * `[2.350] DIALOGUE: Speaker 1: (Child, Male) [curiously] Pop goes the pebble.`
+ * Lines that look like script lines but don't match are reported; anything else
+ * (blank lines, commentary) is ignored.
+ * @param text The raw script text.
+ * @returns The parse result.
+ */
+export function parseDialogueText(text: string): ScriptParseResult {
+  const lines: DialogueLine[] = [];
+  const rejected: RejectedLine[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '') return;
+
+    const match = line.match(LEGACY_LINE_REGEX);
+    if (match) {
+      if (match[6].trim() === '') {
+        rejected.push({ index: index + 1, raw: line, reason: 'Dialogue text is empty.' });
+        return;
+      }
+      lines.push({
+        time: parseFloat(match[1]),
+        speaker: match[2],
+        age: match[3].trim(),
+        gender: match[4].trim(),
+        performanceCue: match[5].trim(),
+        text: match[6].trim(),
+      });
+    } else if (/^\[/.test(line) || /DIALOGUE:/i.test(line)) {
+      const reason = !/^\[\d+\.?\d*\]/.test(line)
+        ? 'Missing or malformed [seconds] timestamp.'
+        : !/DIALOGUE: Speaker \d+:/.test(line)
+        ? 'Missing "DIALOGUE: Speaker N:" label.'
+        : !/\([^,]+, [^)]+\)/.test(line)
+        ? 'Missing "(Age, Gender)" description.'
+        : 'Missing "[performance cue]" or dialogue text.';
+      rejected.push({ index: index + 1, raw: line, reason });
+    }
+  });
+
+  return { format: 'text', lines: lines.sort((a, b) => a.time - b.time), rejected, speakers: [] };
+}
+
+/**
+ * Parses a dialogue script, preferring the structured JSON format and falling
+ * back to the legacy text format.
+ * @param text The raw model response.
+ * @returns The parse result, including every rejected line and why.
+ */
+export function parseScript(text: string): ScriptParseResult {
+  const trimmed = unwrapCodeFence(text);
+  if (trimmed.startsWith('{') || /^\[\s*(\{|\])/.test(trimmed)) {
+    try {
+      return parseDialogueJson(trimmed);
+    } catch {
+      // Not valid JSON after all; the text parser will report what it can.
+    }
+  }
+  return parseDialogueText(text);
+}
+
+/**
+ * Formats a line in the legacy text format, e.g. for display or export.
+ * @param line The dialogue line.
+ * @returns The formatted script line.
+ */
+export function formatScriptLine(line: DialogueLine): string {
+  return `[${line.time.toFixed(3)}] DIALOGUE: ${line.speaker}: (${line.age}, ${line.gender}) [${line.performanceCue}] ${line.text}`;
+}
@@ -0,0 +1,88 @@
+import type { ScriptLine, ScriptTake, SynthesizedClip } from '../types';
+import { createLineId, sortLinesByTime } from './dialogueUtils';
+
+// Each take keeps its own voiced clips; beyond this many, the oldest are dropped to bound the saved project.
+export const MAX_TAKES = 12;
+
+export type TakeDraft = Pick<ScriptTake, 'label' | 'guidance' | 'lines' | 'clips'>;
+
+/**
+ * One line chosen for an assembled script, with the take it was chosen from.
+ */
+export interface TakePick {
+  take: ScriptTake;
+  line: ScriptLine;
+}
+
+/**
+ * Creates a unique id for a take.
+ * @returns A random id string.
+ */
+export function createTakeId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `take-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Appends a take, numbered after the newest one, dropping the oldest takes if
+ * there are more than `MAX_TAKES`.
+ * @param takes The takes so far, oldest first.
+ * @param id The new take's id.
+ * @param draft The script and where it came from.
+ * @returns The new list of takes.
+ */
+export function addTake(takes: ScriptTake[], id: string, draft: TakeDraft): ScriptTake[] {
+  const number = takes.reduce((highest, take) => Math.max(highest, take.number), 0) + 1;
+  return [...takes, { ...draft, id, number, createdAt: Date.now() }].slice(-MAX_TAKES);
+}
+
+/**
+ * Brings a take up to date with edits made to it in the editor.
+ * @param takes The takes.
+ * @param id The take being edited.
+ * @param lines Its lines as they are now.
+ * @param clips Its clips as they are now.
+ * @returns The updated takes, or the same array if nothing changed.
+ */
+export function updateTake(
+  takes: ScriptTake[],
+  id: string,
+  lines: ScriptLine[],
+  clips: Record<string, SynthesizedClip>
+): ScriptTake[] {
+  const take = takes.find(candidate => candidate.id === id);
+  if (!take || (take.lines === lines && take.clips === clips)) return takes;
+  return takes.map(candidate => (candidate === take ? { ...take, lines, clips } : candidate));
+}
+
+/**
+ * Builds a script from lines picked out of several takes. Each line keeps the
+ * audio its take voiced it with, so nothing has to be synthesized again, and is
+ * given a new id so lines from different takes cannot collide.
+ * @param picks The chosen lines.
+ * @returns The assembled script, ordered by time, and its clips.
+ */
+export function assembleTake(picks: TakePick[]): Pick<ScriptTake, 'lines' | 'clips'> {
+  const lines: ScriptLine[] = [];
+  const clips: Record<string, SynthesizedClip> = {};
+  for (const { take, line } of picks) {
+    const id = createLineId();
+    lines.push({ ...line, id });
+    const clip = take.clips[line.id];
+    if (clip) clips[id] = clip;
+  }
+  return { lines: sortLinesByTime(lines), clips };
+}
+
+/**
+ * Names a set of takes for a label, e.g. "takes 1, 2 and 4".
+ * @param numbers The take numbers.
+ * @returns The description.
+ */
+export function describeTakeNumbers(numbers: number[]): string {
+  const sorted = Array.from(new Set(numbers)).sort((a, b) => a - b);
+  if (sorted.length === 1) return `take ${sorted[0]}`;
+  return `takes ${sorted.slice(0, -1).join(', ')} and ${sorted[sorted.length - 1]}`;
+}
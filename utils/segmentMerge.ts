@@ -0,0 +1,286 @@
+import type { DialogueLine, MusicCue, MusicPlan, SoundEvent, SpeakerAppearance } from '../types';
+import type { SegmentWindow } from './videoSegmenter';
+import { sortLinesByTime } from './dialogueUtils';
+
+/**
+ * What the model found in one window, already shifted onto the global timeline.
+ */
+export interface SegmentResult {
+  window: SegmentWindow;
+  lines: DialogueLine[];
+  events: SoundEvent[];
+  speakers: SpeakerAppearance[];
+  /** The score planned for this window, if music was analyzed. */
+  music: MusicPlan | null;
+}
+
+// Two lines from neighbouring windows are the same utterance if they start this
+// close together and share enough of their words.
+const MATCH_TOLERANCE_SECONDS = 1.0;
+const MIN_TEXT_SIMILARITY = 0.5;
+// Ambience events this close together are treated as one continuous bed.
+const AMBIENCE_JOIN_GAP_SECONDS = 0.5;
+// Identical effects closer than this are duplicates from the overlap.
+const EFFECT_DUPLICATE_SECONDS = 0.3;
+// A music cue continues the previous one across a boundary if its intensity is this close.
+const MUSIC_INTENSITY_TOLERANCE = 0.2;
+
+/**
+ * Moves segment-relative timestamps onto the global timeline.
+ * @param lines Lines timed relative to the start of their segment.
+ * @param offset The segment's start time in the full video.
+ * @returns The shifted lines.
+ */
+export function offsetLines(lines: DialogueLine[], offset: number): DialogueLine[] {
+  return lines.map(line => ({
+    ...line,
+    time: line.time + offset,
+    ...(line.endTime !== undefined ? { endTime: line.endTime + offset } : {}),
+  }));
+}
+
+/**
+ * Moves segment-relative sound events onto the global timeline.
+ * @param events Events timed relative to the start of their segment.
+ * @param offset The segment's start time in the full video.
+ * @returns The shifted events.
+ */
+export function offsetEvents(events: SoundEvent[], offset: number): SoundEvent[] {
+  return events.map(event => ({ ...event, time: event.time + offset }));
+}
+
+/**
+ * Moves segment-relative speaker appearances onto the global timeline.
+ * @param speakers Appearances timed relative to the start of their segment.
+ * @param offset The segment's start time in the full video.
+ * @returns The shifted appearances.
+ */
+export function offsetAppearances(speakers: SpeakerAppearance[], offset: number): SpeakerAppearance[] {
+  return speakers.map(appearance => ({ ...appearance, time: appearance.time + offset }));
+}
+
+/**
+ * Moves a segment-relative music plan onto the global timeline.
+ * @param music The plan, timed relative to the start of its segment.
+ * @param offset The segment's start time in the full video.
+ * @returns The shifted plan.
+ */
+export function offsetMusic(music: MusicPlan | null, offset: number): MusicPlan | null {
+  if (!music) return null;
+  return {
+    ...music,
+    cuts: music.cuts.map(cut => cut + offset),
+    cues: music.cues.map(cue => ({ ...cue, time: cue.time + offset })),
+  };
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean));
+}
+
+/**
+ * Scores how alike two lines of dialogue are by the overlap of their words.
+ * @returns A value from 0 (nothing shared) to 1 (same words).
+ */
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function isSameUtterance(a: DialogueLine, b: DialogueLine): boolean {
+  return Math.abs(a.time - b.time) <= MATCH_TOLERANCE_SECONDS && textSimilarity(a.text, b.text) >= MIN_TEXT_SIMILARITY;
+}
+
+/**
+ * Returns the part of a window that it alone is responsible for: overlaps are
+ * split down the middle between the two windows that share them.
+ */
+function getCoreRange(windows: SegmentWindow[], index: number): { start: number; end: number } {
+  const window = windows[index];
+  const previous = windows[index - 1];
+  const next = windows[index + 1];
+  return {
+    start: previous ? (window.start + previous.end) / 2 : -Infinity,
+    end: next ? (next.start + window.end) / 2 : Infinity,
+  };
+}
+
+/**
+ * Gives speakers consistent labels across segments. Each window is analyzed on
+ * its own, so "Speaker 1" in one window may be "Speaker 2" in the next. Labels
+ * are matched through lines both windows heard in their overlap; a speaker with
+ * no such evidence is matched to the only earlier speaker with the same age and
+ * gender, or else given a new label. Speaker appearances follow their lines'
+ * labels; an appearance for a speaker with no lines is dropped.
+ * @param segments The segment results, in timeline order.
+ * @returns The same segments with speakers relabeled to global names.
+ */
+export function reconcileSpeakers(segments: SegmentResult[]): SegmentResult[] {
+  const profiles = new Map<string, { age: string; gender: string }>();
+  const reconciled: SegmentResult[] = [];
+
+  for (const segment of segments) {
+    const lines = sortLinesByTime(segment.lines);
+    const mapping = new Map<string, string>();
+    const previous = reconciled[reconciled.length - 1];
+
+    if (previous) {
+      const overlapStart = segment.window.start - MATCH_TOLERANCE_SECONDS;
+      const overlapEnd = previous.window.end + MATCH_TOLERANCE_SECONDS;
+      const votes = new Map<string, number>();
+      for (const line of lines) {
+        if (line.time < overlapStart || line.time > overlapEnd) continue;
+        const match = previous.lines.find(other => other.time >= overlapStart && other.time <= overlapEnd && isSameUtterance(line, other));
+        if (match) {
+          const key = `${line.speaker}\u0000${match.speaker}`;
+          votes.set(key, (votes.get(key) ?? 0) + 1);
+        }
+      }
+      // Strongest evidence first, one global speaker per local speaker.
+      const ranked = [...votes.entries()].sort((a, b) => b[1] - a[1]);
+      const taken = new Set<string>();
+      for (const [key] of ranked) {
+        const [local, global] = key.split('\u0000');
+        if (mapping.has(local) || taken.has(global)) continue;
+        mapping.set(local, global);
+        taken.add(global);
+      }
+    }
+
+    for (const line of lines) {
+      if (mapping.has(line.speaker)) continue;
+      const used = new Set(mapping.values());
+      const lookalikes = [...profiles.entries()].filter(([, profile]) =>
+        profile.age.toLowerCase() === line.age.toLowerCase() && profile.gender.toLowerCase() === line.gender.toLowerCase()
+      );
+      if (lookalikes.length === 1 && !used.has(lookalikes[0][0])) {
+        mapping.set(line.speaker, lookalikes[0][0]);
+      } else {
+        const label = `Speaker ${profiles.size + 1}`;
+        profiles.set(label, { age: line.age, gender: line.gender });
+        mapping.set(line.speaker, label);
+      }
+    }
+
+    reconciled.push({
+      ...segment,
+      lines: lines.map(line => ({ ...line, speaker: mapping.get(line.speaker) ?? line.speaker })),
+      speakers: segment.speakers.flatMap(appearance => {
+        const speaker = mapping.get(appearance.speaker);
+        return speaker ? [{ ...appearance, speaker }] : [];
+      }),
+    });
+  }
+
+  return reconciled;
+}
+
+/**
+ * Joins per-segment dialogue into one script. Each line is kept only by the
+ * window whose core range contains its start, and any remaining near-duplicates
+ * straddling a boundary are dropped.
+ * @param segments Segment results with reconciled speakers, in timeline order.
+ * @returns The merged lines, ordered by start time.
+ */
+export function mergeSegmentLines(segments: SegmentResult[]): DialogueLine[] {
+  const windows = segments.map(segment => segment.window);
+  const owned = segments.flatMap((segment, index) => {
+    const core = getCoreRange(windows, index);
+    return segment.lines.filter(line => line.time >= core.start && line.time < core.end);
+  });
+
+  const merged: DialogueLine[] = [];
+  for (const line of sortLinesByTime(owned)) {
+    if (!merged.some(kept => kept.speaker === line.speaker && isSameUtterance(kept, line))) {
+      merged.push(line);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Joins per-segment sound events. Ambience that continues across a boundary is
+ * stitched back into a single event, and effects heard twice in an overlap are
+ * kept once.
+ * @param segments Segment results in timeline order.
+ * @returns The merged events, ordered by start time.
+ */
+export function mergeSegmentEvents(segments: SegmentResult[]): SoundEvent[] {
+  const windows = segments.map(segment => segment.window);
+  const owned = segments
+    .flatMap((segment, index) => {
+      const core = getCoreRange(windows, index);
+      // Ambience usually spans the whole window, so it is kept from every window and joined below.
+      return segment.events.filter(event => event.kind === 'ambience' || (event.time >= core.start && event.time < core.end));
+    })
+    .sort((a, b) => a.time - b.time);
+
+  const merged: SoundEvent[] = [];
+  for (const event of owned) {
+    if (event.kind === 'ambience') {
+      const running = merged.find(kept =>
+        kept.kind === 'ambience' &&
+        kept.category === event.category &&
+        kept.time + kept.duration + AMBIENCE_JOIN_GAP_SECONDS >= event.time
+      );
+      if (running) {
+        running.duration = Math.max(running.duration, event.time + event.duration - running.time);
+        continue;
+      }
+    } else if (merged.some(kept => kept.category === event.category && Math.abs(kept.time - event.time) <= EFFECT_DUPLICATE_SECONDS)) {
+      continue;
+    }
+    merged.push({ ...event });
+  }
+  return merged;
+}
+
+/**
+ * Joins per-segment speaker appearances, keeping the earliest one for each speaker.
+ * @param segments Segment results with reconciled speakers, in timeline order.
+ * @returns One appearance per speaker.
+ */
+export function mergeSegmentSpeakers(segments: SegmentResult[]): SpeakerAppearance[] {
+  const merged = new Map<string, SpeakerAppearance>();
+  for (const appearance of segments.flatMap(segment => segment.speakers).sort((a, b) => a.time - b.time)) {
+    if (!merged.has(appearance.speaker)) merged.set(appearance.speaker, appearance);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Joins per-segment music plans. Cuts and cues are kept by the window that owns
+ * their time; a window also carries the cue already playing when its core range
+ * starts. A cue that only continues the previous mood across a boundary is
+ * dropped, and the tempo is the median of the windows' suggestions.
+ * @param segments Segment results in timeline order.
+ * @returns The merged plan, or null if no window was scored.
+ */
+export function mergeSegmentMusic(segments: SegmentResult[]): MusicPlan | null {
+  const windows = segments.map(segment => segment.window);
+  const scored = segments.map((segment, index) => ({ music: segment.music, core: getCoreRange(windows, index) }));
+  const tempos = scored.flatMap(({ music }) => (music ? [music.tempo] : [])).sort((a, b) => a - b);
+  if (tempos.length === 0) return null;
+
+  const owns = (core: { start: number; end: number }, time: number) => time >= core.start && time < core.end;
+  const cuts = scored.flatMap(({ music, core }) => music?.cuts.filter(cut => owns(core, cut)) ?? []);
+  const owned = scored.flatMap(({ music, core }) => {
+    if (!music) return [];
+    const playing = music.cues.filter(cue => cue.time < core.start).pop();
+    const carried = playing && core.start > -Infinity ? [{ ...playing, time: core.start }] : [];
+    return [...carried, ...music.cues.filter(cue => owns(core, cue.time))];
+  });
+  const cues: MusicCue[] = [];
+  for (const cue of owned) {
+    const previous = cues[cues.length - 1];
+    if (previous && previous.mood === cue.mood && Math.abs(previous.intensity - cue.intensity) <= MUSIC_INTENSITY_TOLERANCE) continue;
+    cues.push(cue);
+  }
+  return { tempo: tempos[Math.floor(tempos.length / 2)], cuts, cues };
+}
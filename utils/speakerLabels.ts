@@ -0,0 +1,92 @@
+import type { MixSettings, ScriptLine, SpeakerAppearance, SynthesizedClip, VoiceCasting } from '../types';
+
+// How long around its timestamp an appearance's box is shown even when the speaker is silent.
+const APPEARANCE_WINDOW_SECONDS = 1;
+
+/**
+ * Everything in a project that refers to a speaker by label.
+ */
+export interface SpeakerLabelState {
+  lines: ScriptLine[];
+  clips: Record<string, SynthesizedClip>;
+  voiceOverrides: VoiceCasting;
+  appearances: SpeakerAppearance[];
+  mixSettings: MixSettings;
+}
+
+/**
+ * Moves a per-speaker setting from one label to another. When merging, the
+ * speaker being merged into keeps its own setting if it has one.
+ */
+function moveEntry<T>(record: Record<string, T>, from: string, to: string): Record<string, T> {
+  if (!(from in record)) return record;
+  const { [from]: value, ...rest } = record;
+  return to in rest ? rest : { ...rest, [to]: value };
+}
+
+/**
+ * Renames a speaker everywhere it is referenced. If another speaker already has
+ * the new name, the two are merged into one person: the lines take on that
+ * speaker's age and gender, and its voice, mixer bus and on-screen position are
+ * kept. Clips of renamed lines are relabeled so they stay current; merged lines
+ * whose voice or traits change are voiced again on the next apply.
+ * @param state The lines and per-speaker settings.
+ * @param from The label to replace.
+ * @param to The new label, or the label of the speaker to merge into.
+ * @returns The updated state, or the same state if nothing changes.
+ */
+export function relabelSpeaker(state: SpeakerLabelState, from: string, to: string): SpeakerLabelState {
+  const target = to.trim();
+  if (target === '' || target === from || !state.lines.some(line => line.speaker === from)) return state;
+  const existing = state.lines.find(line => line.speaker === target);
+
+  const lines = state.lines.map(line => {
+    if (line.speaker !== from) return line;
+    return existing
+      ? { ...line, speaker: target, age: existing.age, gender: existing.gender }
+      : { ...line, speaker: target };
+  });
+
+  const clips: Record<string, SynthesizedClip> = {};
+  for (const [id, clip] of Object.entries(state.clips)) {
+    clips[id] = clip.source.speaker === from ? { ...clip, source: { ...clip.source, speaker: target } } : clip;
+  }
+
+  const appearance = state.appearances.find(item => item.speaker === from);
+  const appearances = state.appearances
+    .filter(item => item.speaker !== from)
+    .concat(appearance && !state.appearances.some(item => item.speaker === target) ? [{ ...appearance, speaker: target }] : []);
+
+  return {
+    lines,
+    clips,
+    voiceOverrides: moveEntry(state.voiceOverrides, from, target),
+    appearances,
+    mixSettings: { ...state.mixSettings, buses: moveEntry(state.mixSettings.buses, from, target) },
+  };
+}
+
+/**
+ * Finds the speakers on screen at a moment: everyone with a line in progress,
+ * plus anyone whose representative appearance is close by.
+ * @param appearances Where each speaker was seen.
+ * @param lines The script, used to tell who is talking.
+ * @param time The playback position in seconds.
+ * @param fallbackSeconds How long a line without an end time is treated as lasting.
+ * @returns The appearances to show, with `talking` set for speakers mid-line.
+ */
+export function getVisibleSpeakers(
+  appearances: SpeakerAppearance[],
+  lines: ScriptLine[],
+  time: number,
+  fallbackSeconds = 2
+): Array<SpeakerAppearance & { talking: boolean }> {
+  const talking = new Set(
+    lines
+      .filter(line => time >= line.time && time < (line.endTime ?? line.time + fallbackSeconds))
+      .map(line => line.speaker)
+  );
+  return appearances
+    .filter(item => talking.has(item.speaker) || Math.abs(item.time - time) <= APPEARANCE_WINDOW_SECONDS)
+    .map(item => ({ ...item, talking: talking.has(item.speaker) }));
+}
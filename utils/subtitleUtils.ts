@@ -0,0 +1,113 @@
+import type { LineFit, ScriptLine, SynthesizedClip } from '../types';
+import { sortLinesByTime } from './dialogueUtils';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  speaker: string;
+  performanceCue: string;
+  text: string;
+}
+
+export interface SubtitleOptions {
+  includeSpeaker: boolean;
+  includeCue: boolean;
+}
+
+// Fallbacks for lines that have no synthesized audio yet.
+const MIN_CUE_SECONDS = 0.8;
+const SECONDS_PER_WORD = 0.4;
+
+/**
+ * Returns the length of raw 16-bit mono PCM audio in seconds.
+ * @param data The raw audio data.
+ * @param sampleRate The sample rate of the audio.
+ * @returns The duration in seconds.
+ */
+export function getPcmDuration(data: Uint8Array, sampleRate: number = 24000): number {
+  return data.byteLength / 2 / sampleRate;
+}
+
+/**
+ * Builds timed subtitle cues from the script, ending each cue when its
+ * synthesized audio ends.
+ * @param lines The script lines.
+ * @param clips The audio synthesized for each line, keyed by line id.
+ * @param fits How each clip was fitted to its window, if it was.
+ * @returns The cues, ordered by start time.
+ */
+export function buildSubtitleCues(
+  lines: ScriptLine[],
+  clips: Record<string, SynthesizedClip>,
+  fits: Record<string, LineFit> = {}
+): SubtitleCue[] {
+  return sortLinesByTime(lines)
+    .filter(line => line.text.trim() !== '')
+    .map(line => {
+      const clip = clips[line.id];
+      const estimated = line.text.trim().split(/\s+/).length * SECONDS_PER_WORD;
+      const fit = fits[line.id];
+      const duration = fit ? fit.fittedSeconds : clip ? getPcmDuration(clip.audioData) : estimated;
+      return {
+        start: line.time,
+        end: line.time + Math.max(MIN_CUE_SECONDS, duration),
+        speaker: line.speaker,
+        performanceCue: line.performanceCue,
+        text: line.text.trim(),
+      };
+    });
+}
+
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function formatCueText(cue: SubtitleCue, options: SubtitleOptions, speakerTag: (speaker: string) => string): string {
+  const cueText = options.includeCue && cue.performanceCue ? `[${cue.performanceCue}] ` : '';
+  const speakerText = options.includeSpeaker ? speakerTag(cue.speaker) : '';
+  return `${speakerText}${cueText}${cue.text}`;
+}
+
+/**
+ * Serializes cues as a SubRip (.srt) file.
+ * @param cues The subtitle cues.
+ * @param options Which optional labels to include.
+ * @returns The SRT document.
+ */
+export function toSrt(cues: SubtitleCue[], options: SubtitleOptions): string {
+  return cues
+    .map((cue, index) => [
+      `${index + 1}`,
+      `${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}`,
+      formatCueText(cue, options, speaker => `${speaker}: `),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Serializes cues as a WebVTT (.vtt) file. Speakers use voice spans so players
+ * can style them.
+ * @param cues The subtitle cues.
+ * @param options Which optional labels to include.
+ * @returns The WebVTT document.
+ */
+export function toWebVtt(cues: SubtitleCue[], options: SubtitleOptions): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = cues
+    .map(cue => [
+      `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`,
+      formatCueText(
+        { ...cue, text: escape(cue.text), performanceCue: escape(cue.performanceCue) },
+        options,
+        speaker => `<v ${escape(speaker)}>`
+      ),
+    ].join('\n'))
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
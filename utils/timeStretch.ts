@@ -0,0 +1,140 @@
+/**
+ * Pitch-preserving time-stretching based on WSOLA (waveform-similarity overlap-add).
+ * Frames are taken from the input at the stretched rate, and each one is nudged
+ * within a small tolerance to the position that best continues the previous frame,
+ * which keeps the pitch period intact and avoids the phasiness of plain OLA.
+ */
+
+const FRAME_SECONDS = 0.03;
+const TOLERANCE_SECONDS = 0.01;
+const FADE_OUT_SECONDS = 0.05;
+const SILENCE_THRESHOLD = 0.005;
+
+export interface ClipFit {
+  samples: Float32Array;
+  /** How much faster than the original the clip plays; 1 means untouched. */
+  speedFactor: number;
+  /** Seconds cut from the end after stretching to the maximum allowed factor. */
+  trimmedSeconds: number;
+}
+
+function hannWindow(length: number): Float32Array {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+  }
+  return window;
+}
+
+/**
+ * Finds the input offset near `nominal` whose waveform best matches `target`.
+ */
+function findBestOffset(input: Float32Array, target: number, nominal: number, frame: number, tolerance: number): number {
+  const overlap = Math.floor(frame / 2);
+  const maxStart = input.length - frame;
+  let best = Math.min(Math.max(nominal, 0), maxStart);
+  let bestScore = -Infinity;
+
+  for (let delta = -tolerance; delta <= tolerance; delta++) {
+    const candidate = nominal + delta;
+    if (candidate < 0 || candidate > maxStart) continue;
+    let score = 0;
+    // Every other sample is plenty for picking the best alignment.
+    for (let i = 0; i < overlap && target + i < input.length; i += 2) {
+      score += input[target + i] * input[candidate + i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+/**
+ * Changes the duration of mono audio without changing its pitch.
+ * @param input The samples to stretch.
+ * @param ratio Output length divided by input length (0.8 plays 25% faster).
+ * @param sampleRate The sample rate of the audio.
+ * @returns The stretched samples.
+ */
+export function timeStretch(input: Float32Array, ratio: number, sampleRate: number): Float32Array {
+  const frame = Math.round(sampleRate * FRAME_SECONDS);
+  if (Math.abs(ratio - 1) < 0.005 || input.length <= frame) {
+    return input.slice();
+  }
+
+  const hopOut = Math.floor(frame / 2);
+  const hopIn = hopOut / ratio;
+  const tolerance = Math.round(sampleRate * TOLERANCE_SECONDS);
+  const outLength = Math.round(input.length * ratio);
+  const window = hannWindow(frame);
+  const output = new Float32Array(outLength + frame);
+  const weights = new Float32Array(outLength + frame);
+
+  let previous = 0;
+  for (let k = 0, outPos = 0; outPos < outLength; k++, outPos += hopOut) {
+    const nominal = Math.round(k * hopIn);
+    const offset = k === 0
+      ? 0
+      : findBestOffset(input, previous + hopOut, nominal, frame, tolerance);
+
+    for (let i = 0; i < frame; i++) {
+      output[outPos + i] += input[offset + i] * window[i];
+      weights[outPos + i] += window[i];
+    }
+    previous = offset;
+  }
+
+  for (let i = 0; i < outLength; i++) {
+    if (weights[i] > 1e-3) output[i] /= weights[i];
+  }
+  return output.slice(0, outLength);
+}
+
+/**
+ * Drops trailing near-silence, which TTS clips often end with.
+ * @param samples The samples to trim.
+ * @param sampleRate The sample rate of the audio.
+ * @returns A view of the samples without the silent tail.
+ */
+export function trimTrailingSilence(samples: Float32Array, sampleRate: number): Float32Array {
+  let end = samples.length;
+  while (end > 0 && Math.abs(samples[end - 1]) < SILENCE_THRESHOLD) end--;
+  const padding = Math.floor(sampleRate * 0.05);
+  return samples.subarray(0, Math.min(samples.length, end + padding));
+}
+
+/**
+ * Fits a clip into the time window available for its line. Clips that fit are
+ * left alone; longer clips are sped up (up to `maxSpeedup`) and, if still too
+ * long, cut with a short fade-out.
+ * @param samples The clip's samples.
+ * @param sampleRate The sample rate of the audio.
+ * @param windowSeconds How long the line is allowed to last.
+ * @param maxSpeedup The largest speed-up factor to apply, e.g. 1.25.
+ * @returns The fitted samples and the adjustment that was made.
+ */
+export function fitClipToWindow(samples: Float32Array, sampleRate: number, windowSeconds: number, maxSpeedup: number): ClipFit {
+  const trimmed = trimTrailingSilence(samples, sampleRate);
+  const duration = trimmed.length / sampleRate;
+  if (windowSeconds <= 0 || duration <= windowSeconds) {
+    return { samples: trimmed, speedFactor: 1, trimmedSeconds: 0 };
+  }
+
+  const speedFactor = Math.max(1, Math.min(duration / windowSeconds, maxSpeedup));
+  let fitted = speedFactor > 1.005 ? timeStretch(trimmed, 1 / speedFactor, sampleRate) : trimmed;
+
+  const limit = Math.floor(windowSeconds * sampleRate);
+  let trimmedSeconds = 0;
+  if (fitted.length > limit) {
+    trimmedSeconds = (fitted.length - limit) / sampleRate;
+    fitted = fitted.slice(0, limit);
+    const fade = Math.min(limit, Math.floor(FADE_OUT_SECONDS * sampleRate));
+    for (let i = 0; i < fade; i++) {
+      fitted[limit - 1 - i] *= i / fade;
+    }
+  }
+
+  return { samples: fitted, speedFactor: speedFactor > 1.005 ? speedFactor : 1, trimmedSeconds };
+}
@@ -0,0 +1,201 @@
+import { detectActiveRegions } from './audioUtils';
+
+export type OriginalAudioMode = 'replace' | 'duck' | 'mix';
+
+export interface VideoExportOptions {
+  originalAudioMode: OriginalAudioMode;
+  /** Gain applied to the original audio in `mix` mode, and outside dialogue in `duck` mode. */
+  originalVolume: number;
+  /** Gain applied to the original audio while dialogue is playing in `duck` mode. */
+  duckedVolume: number;
+}
+
+export interface VideoExportResult {
+  blob: Blob;
+  extension: string;
+}
+
+export const DEFAULT_VIDEO_EXPORT_OPTIONS: VideoExportOptions = {
+  originalAudioMode: 'duck',
+  originalVolume: 0.8,
+  duckedVolume: 0.15,
+};
+
+const RECORDER_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/mp4',
+];
+
+// Seconds over which the original audio ramps down before and back up after a line.
+const DUCK_ATTACK = 0.15;
+const DUCK_RELEASE = 0.35;
+
+/**
+ * Picks the first container/codec combination MediaRecorder supports here.
+ * @returns The MIME type to record with.
+ */
+export function pickRecorderMimeType(): string {
+  const supported = RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!supported) {
+    throw new Error('This browser cannot record video. Please try a recent version of Chrome, Edge or Firefox.');
+  }
+  return supported;
+}
+
+/**
+ * Captures what a video element is playing as a MediaStream.
+ * @param video The playing element.
+ * @returns The live stream.
+ */
+export function captureVideoStream(video: HTMLVideoElement): MediaStream {
+  const element = video as HTMLVideoElement & { captureStream?: () => MediaStream; mozCaptureStream?: () => MediaStream };
+  const capture = element.captureStream ?? element.mozCaptureStream;
+  if (!capture) {
+    throw new Error('This browser cannot capture video playback for export.');
+  }
+  return capture.call(element);
+}
+
+/**
+ * Resolves the next time `target` fires `event`.
+ */
+export function waitForEvent(target: EventTarget, event: string): Promise<void> {
+  return new Promise(resolve => target.addEventListener(event, () => resolve(), { once: true }));
+}
+
+/**
+ * Rejects if a media element fails to load or decode, so a wait on its other
+ * events can be raced against it instead of hanging.
+ */
+export function rejectOnMediaError(media: HTMLMediaElement): Promise<never> {
+  return new Promise((_, reject) => media.addEventListener('error', () => {
+    const detail = media.error?.message;
+    reject(new Error(`The video could not be played${detail ? `: ${detail}` : '.'}`));
+  }, { once: true }));
+}
+
+/**
+ * Schedules the gain of the original audio so it drops underneath each dialogue region.
+ */
+function scheduleDucking(gain: AudioParam, dialogue: AudioBuffer, startAt: number, options: VideoExportOptions) {
+  const regions = detectActiveRegions(dialogue.getChannelData(0), dialogue.sampleRate);
+  gain.setValueAtTime(options.originalVolume, startAt);
+  for (const region of regions) {
+    const duckStart = startAt + Math.max(0, region.start - DUCK_ATTACK);
+    gain.setValueAtTime(options.originalVolume, duckStart);
+    gain.linearRampToValueAtTime(options.duckedVolume, startAt + region.start);
+    gain.setValueAtTime(options.duckedVolume, startAt + region.end);
+    gain.linearRampToValueAtTime(options.originalVolume, startAt + region.end + DUCK_RELEASE);
+  }
+}
+
+/**
+ * Re-records a video with the generated dialogue as its soundtrack. The video is
+ * played back in real time off-screen and captured with MediaRecorder, so the
+ * export takes as long as the video itself.
+ * @param videoUrl Object URL of the source video.
+ * @param audioUrl Object URL of the generated WAV track.
+ * @param options How to treat the video's original audio.
+ * @param onProgress Called with the fraction of the video recorded so far.
+ * @param signal Optional signal to abort the export.
+ * @returns A promise that resolves to the recorded video file.
+ */
+export async function exportVideoWithAudio(
+  videoUrl: string,
+  audioUrl: string,
+  options: VideoExportOptions,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<VideoExportResult> {
+  const mimeType = pickRecorderMimeType();
+  const ctx: AudioContext = new ((window as any).AudioContext || (window as any).webkitAudioContext)();
+  const video = document.createElement('video');
+  video.src = videoUrl;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const failed = rejectOnMediaError(video);
+  // Only a wait raced against it reports the failure; once the export is over it doesn't matter.
+  failed.catch(() => {});
+
+  try {
+    const [dialogueBuffer] = await Promise.all([
+      fetch(audioUrl).then(response => response.arrayBuffer()).then(data => ctx.decodeAudioData(data)),
+      video.readyState >= 3 ? Promise.resolve() : Promise.race([waitForEvent(video, 'canplaythrough'), failed]),
+    ]);
+
+    const destination = ctx.createMediaStreamDestination();
+
+    const dialogueSource = ctx.createBufferSource();
+    dialogueSource.buffer = dialogueBuffer;
+    dialogueSource.connect(destination);
+
+    let originalGain: GainNode | null = null;
+    if (options.originalAudioMode !== 'replace') {
+      const originalSource = ctx.createMediaElementSource(video);
+      originalGain = ctx.createGain();
+      originalGain.gain.value = options.originalVolume;
+      originalSource.connect(originalGain);
+      originalGain.connect(destination);
+    } else {
+      video.muted = true;
+    }
+
+    const videoTrack = captureVideoStream(video).getVideoTracks()[0];
+    const stream = new MediaStream([videoTrack, ...destination.stream.getAudioTracks()]);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const stopped = waitForEvent(recorder, 'stop');
+    const handleTimeUpdate = () => {
+      if (video.duration) onProgress(Math.min(1, video.currentTime / video.duration));
+    };
+    const handleAbort = () => {
+      video.pause();
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    try {
+      await ctx.resume();
+      recorder.start(1000);
+      const startAt = ctx.currentTime + 0.1;
+      dialogueSource.start(startAt);
+      if (originalGain && options.originalAudioMode === 'duck') {
+        scheduleDucking(originalGain.gain, dialogueBuffer, startAt, options);
+      }
+      // Start the video on the same audio clock tick as the dialogue.
+      const playing = new Promise<void>((resolve, reject) => {
+        setTimeout(() => video.play().then(resolve, reject), 100);
+      });
+      await Promise.race([playing.then(() => waitForEvent(video, 'ended')), stopped, failed]);
+    } finally {
+      // On failure this also ends the recording, which would otherwise run on without a video.
+      if (recorder.state !== 'inactive') recorder.stop();
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      signal?.removeEventListener('abort', handleAbort);
+      videoTrack.stop();
+    }
+    await stopped;
+
+    if (signal?.aborted) {
+      throw new DOMException('Video export was cancelled.', 'AbortError');
+    }
+
+    onProgress(1);
+    const type = mimeType.split(';')[0];
+    return { blob: new Blob(chunks, { type }), extension: type === 'video/mp4' ? 'mp4' : 'webm' };
+  } finally {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    await ctx.close();
+  }
+}
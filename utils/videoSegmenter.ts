@@ -0,0 +1,136 @@
+import { captureVideoStream, pickRecorderMimeType, rejectOnMediaError, waitForEvent } from './videoExport';
+
+/**
+ * A slice of the source video, in seconds on the global timeline.
+ */
+export interface SegmentWindow {
+  index: number;
+  start: number;
+  end: number;
+}
+
+export interface SegmentPlanOptions {
+  /** Length of each window. */
+  segmentSeconds: number;
+  /** How much consecutive windows share, so lines cut at a boundary are seen whole at least once. */
+  overlapSeconds: number;
+}
+
+export const DEFAULT_SEGMENT_PLAN: SegmentPlanOptions = {
+  segmentSeconds: 60,
+  overlapSeconds: 5,
+};
+
+// Re-encoded segments only need to be good enough to read lips from.
+const SEGMENT_VIDEO_BITS_PER_SECOND = 1_500_000;
+const SEGMENT_AUDIO_BITS_PER_SECOND = 64_000;
+
+/**
+ * Splits a video into overlapping windows. A short final remainder is folded into
+ * the previous window rather than becoming a sliver of its own.
+ * @param duration The video length in seconds.
+ * @param options Window length and overlap.
+ * @returns The windows in order. A video shorter than one window yields a single window.
+ */
+export function planSegments(duration: number, options: SegmentPlanOptions = DEFAULT_SEGMENT_PLAN): SegmentWindow[] {
+  const { segmentSeconds, overlapSeconds } = options;
+  const step = Math.max(1, segmentSeconds - overlapSeconds);
+  const windows: SegmentWindow[] = [];
+
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(duration, start + segmentSeconds);
+    windows.push({ index: windows.length, start, end });
+    if (end >= duration) break;
+  }
+
+  const last = windows[windows.length - 1];
+  const previous = windows[windows.length - 2];
+  if (last && previous && last.end - last.start < overlapSeconds * 2) {
+    previous.end = last.end;
+    windows.pop();
+  }
+  return windows;
+}
+
+/**
+ * Cuts one window out of a video by playing it off-screen and re-recording it
+ * with MediaRecorder at a modest bitrate. Recording runs in real time, so a
+ * 60-second window takes about 60 seconds.
+ * @param videoUrl Object URL of the source video.
+ * @param window The part of the video to extract.
+ * @param signal Optional signal to abort the extraction.
+ * @returns The recorded segment, starting at `window.start`.
+ */
+export async function extractSegment(videoUrl: string, window: SegmentWindow, signal?: AbortSignal): Promise<Blob> {
+  const mimeType = pickRecorderMimeType();
+  const video = document.createElement('video');
+  video.src = videoUrl;
+  video.playsInline = true;
+  video.preload = 'auto';
+  // Muting only silences the speakers; the captured stream keeps its audio.
+  video.muted = true;
+
+  // Every wait below is raced against these, so a broken or cancelled segment can't hang the analysis.
+  const failed = rejectOnMediaError(video);
+  let handleAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    handleAbort = () => reject(new DOMException('Segment extraction was cancelled.', 'AbortError'));
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+  failed.catch(() => {});
+  aborted.catch(() => {});
+
+  try {
+    signal?.throwIfAborted();
+    if (video.readyState < 1) await Promise.race([waitForEvent(video, 'loadedmetadata'), failed, aborted]);
+    signal?.throwIfAborted();
+    video.currentTime = window.start;
+    await Promise.race([waitForEvent(video, 'seeked'), failed, aborted]);
+    signal?.throwIfAborted();
+
+    const stream = captureVideoStream(video);
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: SEGMENT_VIDEO_BITS_PER_SECOND,
+      audioBitsPerSecond: SEGMENT_AUDIO_BITS_PER_SECOND,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const stopped = waitForEvent(recorder, 'stop');
+    const stop = () => {
+      video.pause();
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    const handleTimeUpdate = () => {
+      if (video.currentTime >= window.end) stop();
+    };
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('ended', stop, { once: true });
+    signal?.addEventListener('abort', stop, { once: true });
+
+    try {
+      recorder.start(1000);
+      await video.play();
+      await Promise.race([stopped, failed]);
+    } finally {
+      stop();
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('ended', stop);
+      signal?.removeEventListener('abort', stop);
+      stream.getTracks().forEach(track => track.stop());
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('Segment extraction was cancelled.', 'AbortError');
+    }
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+  }
+}
@@ -0,0 +1,124 @@
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export const SPECTROGRAM_FFT_SIZE = 1024;
+// Magnitudes below this are drawn as silence.
+export const SPECTROGRAM_FLOOR_DB = -100;
+
+/**
+ * Averages every channel of a buffer into one, for display.
+ * @param buffer The audio to mix down.
+ * @returns The mono samples.
+ */
+export function downmixToMono(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) mono[i] += samples[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+/**
+ * Reduces a range of samples to one min/max pair per pixel column, which is
+ * what a waveform is drawn from.
+ * @param samples Mono audio samples.
+ * @param start The first sample of the visible range.
+ * @param end The sample after the visible range.
+ * @param columns The number of columns to produce.
+ * @returns The lowest and highest sample in each column.
+ */
+export function computePeaks(samples: Float32Array, start: number, end: number, columns: number): WaveformPeaks {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  const perColumn = (end - start) / columns;
+  for (let column = 0; column < columns; column++) {
+    const from = Math.max(0, Math.floor(start + column * perColumn));
+    const to = Math.min(samples.length, Math.max(from + 1, Math.floor(start + (column + 1) * perColumn)));
+    let low = 0;
+    let high = 0;
+    for (let i = from; i < to; i++) {
+      if (samples[i] < low) low = samples[i];
+      if (samples[i] > high) high = samples[i];
+    }
+    min[column] = low;
+    max[column] = high;
+  }
+  return { min, max };
+}
+
+/**
+ * In-place iterative radix-2 FFT.
+ * @param real Real parts; length must be a power of two.
+ * @param imag Imaginary parts, same length.
+ */
+function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Computes one short-time spectrum per pixel column over a range of samples.
+ * Each column is a single Hann-windowed FFT centred on the column, which is
+ * plenty for spotting where speech sits against effects.
+ * @param samples Mono audio samples.
+ * @param start The first sample of the visible range.
+ * @param end The sample after the visible range.
+ * @param columns The number of columns to produce.
+ * @returns Per column, the magnitude of each frequency bin in dB (0 Hz first).
+ */
+export function computeSpectrogram(samples: Float32Array, start: number, end: number, columns: number): Float32Array[] {
+  const size = SPECTROGRAM_FFT_SIZE;
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  const spectra: Float32Array[] = [];
+  const perColumn = (end - start) / columns;
+  for (let column = 0; column < columns; column++) {
+    const centre = Math.floor(start + (column + 0.5) * perColumn);
+    for (let i = 0; i < size; i++) {
+      const index = centre - size / 2 + i;
+      real[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0;
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    const magnitudes = new Float32Array(size / 2);
+    for (let bin = 0; bin < size / 2; bin++) {
+      const power = (real[bin] * real[bin] + imag[bin] * imag[bin]) / (size * size);
+      magnitudes[bin] = Math.max(SPECTROGRAM_FLOOR_DB, 10 * Math.log10(power + 1e-20));
+    }
+    spectra.push(magnitudes);
+  }
+  return spectra;
+}